@@ -1,38 +1,169 @@
-import { isICAO, normalizeIATA, normalizeICAO, validateFrequencyType, WaypointVariant, type Aerodrome, type Frequency, type ICAO, type Runway } from "flight-planner";
-import { fetchApi, type FetchFunction } from "./http.js";
+import { bearing, distance as greatCircleDistance } from "@turf/turf";
+import { isICAO, normalizeIATA, normalizeICAO, validateFrequencyType, WaypointVariant, type Aerodrome, type AerodromeType, type Frequency, type FrequencyType, type ICAO, type Runway, type RunwaySurface } from "flight-planner";
+import { fetchApi, parseJsonResponse, type FetchApiOptions } from "./http.js";
 import { capitalizeWords } from "flight-planner/utils";
-import { ApiError } from "./error.js";
-import { OPENAIP_API_CONFIG, type OpenAipAirportItem, type OpenAipResponse } from "./openaip-config.js";
+import { createHttpStatusError, InvalidInputError } from "./error.js";
+import { paginate, collect, type Page } from "./pagination.js";
+import { normalizeElevation, OpenAipUnit, toFeet, toMeters } from "./openaip-units.js";
+import { normalizeSearchTerm, OPENAIP_API_CONFIG, openAipAirportSchema, openAipPage, type OpenAipAirportItem, type OpenAipResponse, type OpenAipOptions } from "./openaip-config.js";
+import { validateRecords, withWarnings, type ValidatedResult } from "./schema.js";
+import { withOperation } from "./hooks.js";
+import { withCallOptions, type CallOptions } from "./cache.js";
 
-export interface OpenAipOptions {
-  apiKey: string;
-  fetcher?: FetchFunction;
+export type { OpenAipOptions };
+
+/**
+ * Represents an aerodrome with its OpenAIP classification.
+ *
+ * Elevation is in feet MSL, runway length and width are in meters.
+ *
+ * @property localIdentifier - National or local identifier, used by aerodromes without an ICAO code.
+ * @property type - The aerodrome type (airport, glider site, heliport, ...).
+ * @property country - ISO country code.
+ */
+export interface AerodromeDetails extends Aerodrome {
+  readonly localIdentifier?: string;
+  readonly type: AerodromeType;
+  readonly country?: string;
+}
+
+/**
+ * Options controlling which aerodromes are returned.
+ *
+ * @property includeNonIcao - Include aerodromes without an ICAO code, such as glider sites, ultralight fields and heliports.
+ * @property types - Restrict radius searches to these aerodrome types.
+ */
+export interface AerodromeQueryOptions {
+  includeNonIcao?: boolean;
+  types?: AerodromeType[];
+}
+
+/**
+ * A ranked result of an aerodrome name search.
+ *
+ * @property aerodrome - The matching aerodrome.
+ * @property score - Relevance score, higher is better. An exact identifier match scores 100.
+ */
+export interface AerodromeCandidate {
+  aerodrome: AerodromeDetails;
+  score: number;
+}
+
+/**
+ * Options for a nearest aerodrome search.
+ *
+ * @property count - Maximum number of aerodromes to return (default: 5).
+ * @property maxDistanceNm - Maximum distance in nautical miles (default: 200).
+ * @property minRunwayLengthFt - Require a runway at least this long, in feet.
+ * @property surfaces - Require a runway with one of these surfaces.
+ * @property excludePpr - Leave out aerodromes requiring prior permission.
+ * @property requireFrequencyType - Require a frequency of this type, e.g. Tower.
+ * @property declination - Magnetic variation at the location in degrees, east positive. Defaults to the variation at each aerodrome.
+ */
+export interface NearestAerodromeOptions extends AerodromeQueryOptions {
+  count?: number;
+  maxDistanceNm?: number;
+  minRunwayLengthFt?: number;
+  surfaces?: RunwaySurface[];
+  excludePpr?: boolean;
+  requireFrequencyType?: FrequencyType;
+  declination?: number;
+}
+
+/**
+ * An aerodrome found by a nearest search.
+ *
+ * @property aerodrome - The aerodrome.
+ * @property distance - Great circle distance from the location in nautical miles.
+ * @property bearing - True bearing from the location to the aerodrome in degrees, 0 to 360.
+ * @property magneticBearing - Magnetic bearing in degrees, if the magnetic variation is known.
+ */
+export interface NearestAerodrome {
+  aerodrome: AerodromeDetails;
+  distance: number;
+  bearing: number;
+  magneticBearing?: number;
 }
 
 export interface AerodromeProvider {
-  getByIcao(icao: ICAO): Promise<Aerodrome[]>;
-  getByIata(iata: string): Promise<Aerodrome[]>;
-  getByRadius(location: GeoJSON.Position, distance?: number): Promise<Aerodrome[]>;
+  getByIcao(icao: ICAO, call?: CallOptions): Promise<ValidatedResult<AerodromeDetails>>;
+  getByIata(iata: string, call?: CallOptions): Promise<ValidatedResult<AerodromeDetails>>;
+  getByIdentifier(identifier: string, call?: CallOptions): Promise<ValidatedResult<AerodromeDetails>>;
+  search(name: string, query?: AerodromeQueryOptions, call?: CallOptions): Promise<ValidatedResult<AerodromeCandidate>>;
+  getByRadius(location: GeoJSON.Position, distance?: number, query?: AerodromeQueryOptions, call?: CallOptions): Promise<ValidatedResult<AerodromeDetails>>;
+  iterateByRadius(location: GeoJSON.Position, distance?: number, query?: AerodromeQueryOptions, call?: CallOptions): AsyncGenerator<AerodromeDetails, void, undefined>;
+  findNearest(location: GeoJSON.Position, query?: NearestAerodromeOptions, call?: CallOptions): Promise<ValidatedResult<NearestAerodrome>>;
+}
+
+/**
+ * Map an OpenAIP airport item to an AerodromeDetails.
+ *
+ * @param aerodrome - The OpenAIP airport item.
+ * @returns The AerodromeDetails object.
+ */
+function transformAerodrome(aerodrome: OpenAipAirportItem): AerodromeDetails {
+  const hasIcao = !!aerodrome.icaoCode && isICAO(aerodrome.icaoCode);
+
+  const runways = Array.isArray(aerodrome.runways) ? aerodrome.runways.map((runway) => {
+    return {
+      designator: runway.designator, // TODO: Validate using regex
+      heading: runway.trueHeading,
+      length: toMeters(runway.dimension?.length?.value, runway.dimension?.length?.unit),
+      width: toMeters(runway.dimension?.width?.value, runway.dimension?.width?.unit),
+      surface: runway.surface?.mainComposite,
+    };
+  }) as Runway[] : [];
+
+  const frequencies = Array.isArray(aerodrome.frequencies) ? aerodrome.frequencies.map((frequency) => {
+    return {
+      type: validateFrequencyType(frequency.type),
+      name: frequency.name || '',
+      value: frequency.value,
+    };
+  }) as Frequency[] : [];
+
+  const elevation = normalizeElevation(aerodrome.elevation);
+
+  // Codes that are not valid ICAO codes are kept as local identifiers
+  const localIdentifier = aerodrome.altIdentifier || (!hasIcao ? aerodrome.icaoCode : undefined);
+
+  return {
+    icao: hasIcao ? normalizeICAO(aerodrome.icaoCode!) : undefined,
+    iata: aerodrome.iataCode ? normalizeIATA(aerodrome.iataCode) : undefined,
+    localIdentifier: localIdentifier ? localIdentifier.trim().toUpperCase() : undefined,
+    name: capitalizeWords(aerodrome.name),
+    type: (aerodrome.type ?? 0) as AerodromeType,
+    country: aerodrome.country,
+    coords: aerodrome.geometry.coordinates,
+    elevation, // Feet MSL
+    declination: aerodrome.magneticDeclination,
+    runways,
+    frequencies,
+    ppr: aerodrome.ppr,
+    waypointVariant: WaypointVariant.Aerodrome
+  };
 }
 
 /**
  * Base API function for fetching OpenAIP data.
  *
  * @param uri - The URI path to append to the base URL.
- * @param apiKey - The OpenAIP API key for authentication.
- * @param options - Additional fetch options.
- * @param fetcher - Custom fetch function (defaults to global fetch).
- * @returns Promise resolving to an array of Aerodrome objects.
- * @throws Will throw an error if the API request fails.
+ * @param options - Provider options including API key, custom fetcher and response cache.
+ * @param query - Whether to keep aerodromes without an ICAO code.
+ * @param init - Additional fetch options.
+ * @returns Promise resolving to a page of AerodromeDetails objects.
+ * @throws {ApiError} Will throw an ApiError subclass if the API request fails.
  */
 async function baseApi(
   uri: string,
-  apiKey: string,
-  options: RequestInit = {},
-  fetcher: FetchFunction = fetch
-): Promise<Aerodrome[]> {
-  const apiOptions: RequestInit & { timeout?: number; cf?: object } = {
-    ...options,
+  options: OpenAipOptions,
+  query: AerodromeQueryOptions = {},
+  init: RequestInit = {}
+): Promise<Page<AerodromeDetails>> {
+  const { fetcher = fetch, apiKey, cache, retry, circuitBreaker, hooks, operation } = options;
+  const apiOptions: FetchApiOptions = {
+    ...init,
+    service: 'OpenAIP',
     headers: {
       "x-openaip-api-key": apiKey
     },
@@ -40,121 +171,388 @@ async function baseApi(
       cacheTtl: OPENAIP_API_CONFIG.CACHE_TTL,
       cacheEverything: true,
     },
+    responseCache: cache ? { ...cache, ttl: cache.ttl ?? OPENAIP_API_CONFIG.CACHE_TTL } : undefined,
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
+    dedupe: true,
     timeout: OPENAIP_API_CONFIG.TIMEOUT
   };
 
-  const response = await fetchApi(fetcher, `${OPENAIP_API_CONFIG.API_URL}${uri}`, apiOptions);
+  const endpoint = `${OPENAIP_API_CONFIG.API_URL}${uri}`;
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
   if (!response.ok) {
     await response.body?.cancel();
-    throw new ApiError('OpenAIP', `${OPENAIP_API_CONFIG.API_URL}${uri}`, apiOptions, `HTTP ${response.status} - ${response.statusText}`);
+    throw createHttpStatusError('OpenAIP', endpoint, apiOptions, response);
   }
 
-  const data = await response.json() as OpenAipResponse<OpenAipAirportItem>;
+  const data = await parseJsonResponse<OpenAipResponse<OpenAipAirportItem>>(response, 'OpenAIP', endpoint, apiOptions);
   if (!data || !data.items || data.items.length === 0) {
-    return [];
-  }
-
-  // FUTURE: This excludes any aerodromes without an ICAO code
-  return data.items.filter((aerodrome) => aerodrome.icaoCode && isICAO(aerodrome.icaoCode)).map((aerodrome) => {
-    const runways = Array.isArray(aerodrome.runways) ? aerodrome.runways.map((runway: any) => {
-      return {
-        designator: runway.designator, // TODO: Validate using regex
-        heading: runway.trueHeading, // TODO: between 0 and 360
-        length: runway.dimension?.length.unit === 0 ? runway.dimension?.length.value : undefined,
-        width: runway.dimension?.width.unit === 0 ? runway.dimension?.width.value : undefined,
-        surface: runway.surface.mainComposite,
-      };
-    }) as Runway[] : [];
-
-    const frequencies = Array.isArray(aerodrome.frequencies) ? aerodrome.frequencies.map((frequency: any) => {
-      return {
-        type: validateFrequencyType(frequency.type),
-        name: frequency.name || '',
-        value: frequency.value,
-      };
-    }) as Frequency[] : [];
-
-    // TODO: Hand this off the FlightPlanner
-    const elevation = (aerodrome.elevation && aerodrome.elevation.unit === 0 && aerodrome.elevation.referenceDatum === 1) ? aerodrome.elevation.value * OPENAIP_API_CONFIG.METERS_TO_FEET : undefined;
+    return openAipPage(data, []);
+  }
 
-    return {
-      icao: aerodrome.icaoCode ? normalizeICAO(aerodrome.icaoCode) : undefined,
-      iata: aerodrome.iataCode ? normalizeIATA(aerodrome.iataCode) : undefined,
-      name: capitalizeWords(aerodrome.name),
-      coords: aerodrome.geometry.coordinates,
-      elevation,
-      declination: aerodrome.magneticDeclination,
-      runways,
-      frequencies,
-      ppr: aerodrome.ppr,
-      waypointVariant: WaypointVariant.Aerodrome
-    };
+  const aerodromes = validateRecords(data.items, openAipAirportSchema, transformAerodrome, { service: 'OpenAIP', endpoint, requestOptions: apiOptions, options })
+    .filter((aerodrome) => query.includeNonIcao || aerodrome.icao);
+
+  return openAipPage(data, aerodromes);
+}
+
+/**
+ * Score how well an aerodrome matches a search term.
+ *
+ * @param aerodrome - The aerodrome.
+ * @param term - The normalized search term.
+ * @returns Relevance score, higher is better.
+ */
+export function scoreCandidate(aerodrome: AerodromeDetails, term: string): number {
+  const identifiers = [aerodrome.icao, aerodrome.iata, aerodrome.localIdentifier];
+  if (identifiers.some((identifier) => identifier && normalizeSearchTerm(identifier) === term)) {
+    return 100;
+  }
+
+  const name = normalizeSearchTerm(aerodrome.name);
+  const words = name.split(' ');
+  if (name === term) {
+    return 90;
+  }
+  if (name.startsWith(term)) {
+    return 75;
+  }
+  if (words.some((word) => word.startsWith(term))) {
+    return 60;
+  }
+  if (name.includes(term)) {
+    return 40;
+  }
+  if (term.split(' ').every((part) => words.some((word) => word.startsWith(part)))) {
+    return 30;
+  }
+  return 10; // Matched by OpenAIP on another field
+}
+
+/**
+ * Search aerodromes and keep those for which the identifier matches exactly.
+ *
+ * @param identifier - The identifier to search for.
+ * @param options - Provider options.
+ * @param includeNonIcao - Whether to search aerodromes without an ICAO code.
+ * @param match - Function returning the identifiers of an aerodrome to compare.
+ * @returns Promise resolving to the exactly matching aerodromes.
+ */
+async function getAerodromeByExactMatch(
+  identifier: string,
+  options: OpenAipOptions,
+  includeNonIcao: boolean,
+  match: (aerodrome: AerodromeDetails) => Array<string | undefined>
+): Promise<ValidatedResult<AerodromeDetails>> {
+  const term = normalizeSearchTerm(identifier);
+  if (!term) {
+    throw new InvalidInputError('OpenAIP', "Identifier must not be empty", 'identifier');
+  }
+
+  return withWarnings(options, async (options) => {
+    const { items } = await baseApi(`airports?search=${encodeURIComponent(identifier.trim())}&limit=${OPENAIP_API_CONFIG.CANDIDATE_LIMIT}`, options, { includeNonIcao });
+    return items.filter((aerodrome) => match(aerodrome).some((code) => code && normalizeSearchTerm(code) === term));
   });
 }
 
 /**
  * Get aerodrome information for a specific ICAO code.
  *
+ * Only aerodromes whose ICAO code matches exactly are returned.
+ *
  * @param icao - ICAO airport code.
- * @returns Promise resolving to an array of Aerodrome objects.
+ * @returns Promise resolving to an array of AerodromeDetails objects.
+ * @throws {InvalidInputError} If the code is empty.
  */
-export async function getAerodromeByIcao(icao: ICAO, options: OpenAipOptions): Promise<Aerodrome[]> {
-  const { fetcher = fetch, apiKey } = options;
-  return baseApi(`airports?search=${encodeURIComponent(icao)}&limit=${OPENAIP_API_CONFIG.SEARCH_LIMIT}`, apiKey, {}, fetcher);
+export async function getAerodromeByIcao(icao: ICAO, options: OpenAipOptions): Promise<ValidatedResult<AerodromeDetails>> {
+  return getAerodromeByExactMatch(icao, options, false, (aerodrome) => [aerodrome.icao]);
 }
 
 /**
  * Get aerodrome information for a specific IATA code.
  *
+ * Only aerodromes whose IATA code matches exactly are returned.
+ *
  * @param iata - IATA airport code.
- * @returns Promise resolving to an array of Aerodrome objects.
+ * @returns Promise resolving to an array of AerodromeDetails objects.
+ * @throws {InvalidInputError} If the code is empty.
  */
-export async function getAerodromeByIata(iata: string, options: OpenAipOptions): Promise<Aerodrome[]> {
-  const { fetcher = fetch, apiKey } = options;
-  return baseApi(`airports?search=${encodeURIComponent(iata)}&limit=${OPENAIP_API_CONFIG.SEARCH_LIMIT}`, apiKey, {}, fetcher);
+export async function getAerodromeByIata(iata: string, options: OpenAipOptions): Promise<ValidatedResult<AerodromeDetails>> {
+  return getAerodromeByExactMatch(iata, options, false, (aerodrome) => [aerodrome.iata]);
 }
 
 /**
- * Get aerodrome information for airports within a radius from a location.
+ * Get aerodrome information for an ICAO, IATA or local identifier.
+ *
+ * Aerodromes without an ICAO code are included, so glider sites and
+ * heliports can be found by their local identifier.
+ *
+ * @param identifier - ICAO, IATA or local identifier.
+ * @returns Promise resolving to an array of AerodromeDetails objects.
+ * @throws {InvalidInputError} If the identifier is empty.
+ */
+export async function getAerodromeByIdentifier(identifier: string, options: OpenAipOptions): Promise<ValidatedResult<AerodromeDetails>> {
+  return getAerodromeByExactMatch(identifier, options, true, (aerodrome) => [aerodrome.icao, aerodrome.iata, aerodrome.localIdentifier]);
+}
+
+/**
+ * Search aerodromes by name or identifier.
+ *
+ * Candidates are ranked with exact identifier matches first, followed by
+ * exact name matches, name prefixes and partial matches.
+ *
+ * @param name - The name or identifier to search for.
+ * @param query - Whether to include aerodromes without an ICAO code.
+ * @returns Promise resolving to the candidates, best match first.
+ * @throws {InvalidInputError} If the search term is empty.
+ */
+export async function searchAerodromes(
+  name: string,
+  options: OpenAipOptions,
+  query: AerodromeQueryOptions = {}
+): Promise<ValidatedResult<AerodromeCandidate>> {
+  const term = normalizeSearchTerm(name);
+  if (!term) {
+    throw new InvalidInputError('OpenAIP', "Search term must not be empty", 'name');
+  }
+
+  return withWarnings(options, async (options) => {
+    const { items } = await baseApi(`airports?search=${encodeURIComponent(name.trim())}&limit=${OPENAIP_API_CONFIG.CANDIDATE_LIMIT}`, options, query);
+    return items
+      .filter((aerodrome) => !query.types || query.types.includes(aerodrome.type))
+      .map((aerodrome) => ({ aerodrome, score: scoreCandidate(aerodrome, term) }))
+      .sort((a, b) => b.score - a.score);
+  });
+}
+
+/**
+ * Aerodrome types to search for.
+ *
+ * When aerodromes without an ICAO code are included and no types are given,
+ * the search is widened to heliports, ultralight sites and landing strips.
+ *
+ * @param query - Aerodrome types and whether to include aerodromes without an ICAO code.
+ * @returns The OpenAIP aerodrome type codes.
+ */
+export function aerodromeTypes(query: AerodromeQueryOptions = {}): readonly number[] {
+  return query.types ?? (query.includeNonIcao
+    ? [...OPENAIP_API_CONFIG.AIRPORT_TYPES, ...OPENAIP_API_CONFIG.NON_ICAO_AIRPORT_TYPES]
+    : OPENAIP_API_CONFIG.AIRPORT_TYPES);
+}
+
+/**
+ * Iterate over airports within a radius from a location, fetching pages as needed.
+ *
+ * When aerodromes without an ICAO code are included and no types are given,
+ * the search is widened to heliports, ultralight sites and landing strips.
  *
  * @param location - GeoJSON Position [longitude, latitude].
  * @param distance - Distance in kilometers (default: 50).
- * @returns Promise resolving to an array of Aerodrome objects.
- * @throws Will throw an error if distance is negative or location format is invalid.
+ * @param query - Aerodrome types and whether to include aerodromes without an ICAO code.
+ * @returns An async iterator of AerodromeDetails objects, limited by the pagination options.
+ * @throws {InvalidInputError} If distance is negative or location format is invalid.
  */
-export async function getAerodromeByRadius(
+export async function* iterateAerodromeByRadius(
   location: GeoJSON.Position,
   distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM,
-  options: OpenAipOptions
-): Promise<Aerodrome[]> {
+  options: OpenAipOptions,
+  query: AerodromeQueryOptions = {}
+): AsyncGenerator<AerodromeDetails, void, undefined> {
   if (distance <= 0) {
-    throw new Error("Distance must be a positive number");
+    throw new InvalidInputError('OpenAIP', "Distance must be a positive number", 'distance');
   }
   if (location.length !== 2) {
-    throw new Error("Location must be a 2D coordinate");
+    throw new InvalidInputError('OpenAIP', "Location must be a 2D coordinate", 'location');
   }
 
-  const { fetcher = fetch, apiKey } = options;
-
   // TODO: Move this somewhere else
   const distanceInMeters = distance * OPENAIP_API_CONFIG.KM_TO_METERS;
   const lat = parseFloat(location[1].toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION));
   const lon = parseFloat(location[0].toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION));
 
-  const typeParams = OPENAIP_API_CONFIG.AIRPORT_TYPES.map(type => `type=${type}`).join('&');
-  return baseApi(`airports?pos=${lat},${lon}&dist=${distanceInMeters}&${typeParams}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}`, apiKey, {}, fetcher);
+  const typeParams = aerodromeTypes(query).map(type => `type=${type}`).join('&');
+  yield* paginate(
+    (page) => baseApi(`airports?pos=${lat},${lon}&dist=${distanceInMeters}&${typeParams}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}&page=${page}`, options, query),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  );
+}
+
+/**
+ * Iterate over aerodromes within a bounding box, fetching pages as needed.
+ *
+ * @param bbox - GeoJSON bounding box [west, south, east, north].
+ * @param query - Aerodrome types and whether to include aerodromes without an ICAO code.
+ * @returns An async iterator of AerodromeDetails objects, limited by the pagination options.
+ */
+export async function* iterateAerodromeByBbox(
+  bbox: GeoJSON.BBox,
+  options: OpenAipOptions,
+  query: AerodromeQueryOptions = {}
+): AsyncGenerator<AerodromeDetails, void, undefined> {
+  const bboxParam = bbox.slice(0, 4).map((value) => parseFloat(value.toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION))).join(',');
+  const typeParams = aerodromeTypes(query).map(type => `type=${type}`).join('&');
+  yield* paginate(
+    (page) => baseApi(`airports?bbox=${bboxParam}&${typeParams}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}&page=${page}`, options, query),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  );
+}
+
+/**
+ * Iterate over the aerodromes of a country, fetching pages as needed.
+ *
+ * @param country - ISO 3166-1 alpha-2 country code, e.g. "NL".
+ * @param query - Aerodrome types and whether to include aerodromes without an ICAO code.
+ * @returns An async iterator of AerodromeDetails objects, limited by the pagination options.
+ * @throws {InvalidInputError} If the country code is invalid.
+ */
+export async function* iterateAerodromeByCountry(
+  country: string,
+  options: OpenAipOptions,
+  query: AerodromeQueryOptions = {}
+): AsyncGenerator<AerodromeDetails, void, undefined> {
+  if (!/^[A-Z]{2}$/i.test(country)) {
+    throw new InvalidInputError('OpenAIP', "Country must be an ISO 3166-1 alpha-2 code", 'country');
+  }
+
+  const typeParams = aerodromeTypes(query).map(type => `type=${type}`).join('&');
+  yield* paginate(
+    (page) => baseApi(`airports?country=${country.toUpperCase()}&${typeParams}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}&page=${page}`, options, query),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  );
+}
+
+/**
+ * Get aerodrome information for airports within a radius from a location.
+ *
+ * All result pages are fetched, up to the limits in the pagination options.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param distance - Distance in kilometers (default: 50).
+ * @param query - Aerodrome types and whether to include aerodromes without an ICAO code.
+ * @returns Promise resolving to an array of AerodromeDetails objects.
+ * @throws {InvalidInputError} If distance is negative or location format is invalid.
+ */
+export async function getAerodromeByRadius(
+  location: GeoJSON.Position,
+  distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM,
+  options: OpenAipOptions,
+  query: AerodromeQueryOptions = {}
+): Promise<ValidatedResult<AerodromeDetails>> {
+  return withWarnings(options, (options) => collect(iterateAerodromeByRadius(location, distance, options, query)));
+}
+
+/**
+ * Check whether an aerodrome meets the requirements of a nearest search.
+ *
+ * @param aerodrome - The aerodrome.
+ * @param query - The requirements.
+ * @returns True if the aerodrome is suitable.
+ */
+function isSuitableAerodrome(aerodrome: AerodromeDetails, query: NearestAerodromeOptions): boolean {
+  if (query.excludePpr && aerodrome.ppr) {
+    return false;
+  }
+  if (query.requireFrequencyType !== undefined && !aerodrome.frequencies?.some((frequency) => frequency.type === query.requireFrequencyType)) {
+    return false;
+  }
+  if (query.minRunwayLengthFt === undefined && !query.surfaces) {
+    return true;
+  }
+
+  // A single runway has to meet both the length and the surface requirement
+  return aerodrome.runways.some((runway) => {
+    const length = toFeet(runway.length, OpenAipUnit.Meter);
+    return (query.minRunwayLengthFt === undefined || (length !== undefined && length >= query.minRunwayLengthFt))
+      && (!query.surfaces || (runway.surface !== undefined && query.surfaces.includes(runway.surface)));
+  });
+}
+
+/**
+ * Find the nearest suitable aerodromes with a radius search.
+ *
+ * The radius starts small and doubles until enough suitable aerodromes are found or the
+ * maximum distance is reached. Everything within the radius is found, so once enough
+ * aerodromes are in reach they are the nearest.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param query - The requirements and limits of the search.
+ * @param searchRadius - Returns the aerodromes within a radius in kilometers.
+ * @returns Promise resolving to the nearest suitable aerodromes, nearest first.
+ * @throws {InvalidInputError} If the location, count or maximum distance is invalid.
+ */
+export async function nearestAerodromes(
+  location: GeoJSON.Position,
+  query: NearestAerodromeOptions,
+  searchRadius: (radiusKm: number) => Promise<AerodromeDetails[]>
+): Promise<NearestAerodrome[]> {
+  const { count = OPENAIP_API_CONFIG.NEAREST_COUNT, maxDistanceNm = OPENAIP_API_CONFIG.NEAREST_MAX_NM } = query;
+  if (location.length !== 2) {
+    throw new InvalidInputError('OpenAIP', "Location must be a 2D coordinate", 'location');
+  }
+  if (!(count > 0)) {
+    throw new InvalidInputError('OpenAIP', "Count must be a positive number", 'count');
+  }
+  if (!(maxDistanceNm > 0)) {
+    throw new InvalidInputError('OpenAIP', "Maximum distance must be a positive number", 'maxDistanceNm');
+  }
+
+  for (let radius = Math.min(OPENAIP_API_CONFIG.NEAREST_START_NM, maxDistanceNm); ; radius = Math.min(radius * 2, maxDistanceNm)) {
+    const aerodromes = await searchRadius(toMeters(radius, OpenAipUnit.NauticalMile)! / OPENAIP_API_CONFIG.KM_TO_METERS);
+    const nearest = aerodromes
+      .filter((aerodrome) => isSuitableAerodrome(aerodrome, query))
+      .map((aerodrome) => {
+        const trueBearing = (bearing(location, aerodrome.coords) + 360) % 360;
+        const declination = query.declination ?? aerodrome.declination;
+        return {
+          aerodrome,
+          distance: greatCircleDistance(location, aerodrome.coords, { units: 'nauticalmiles' }),
+          bearing: trueBearing,
+          magneticBearing: declination !== undefined ? (trueBearing - declination + 360) % 360 : undefined,
+        };
+      })
+      .filter((result) => result.distance <= radius)
+      .sort((a, b) => a.distance - b.distance);
+
+    if (nearest.length >= count || radius >= maxDistanceNm) {
+      return nearest.slice(0, count);
+    }
+  }
+}
+
+/**
+ * Find the nearest suitable aerodromes, e.g. for diversion planning.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param query - The requirements and limits of the search, see NearestAerodromeOptions.
+ * @returns Promise resolving to the aerodromes with distance and bearing, nearest first.
+ * @throws {InvalidInputError} If the location, count or maximum distance is invalid.
+ */
+export async function findNearestAerodromes(
+  location: GeoJSON.Position,
+  options: OpenAipOptions,
+  query: NearestAerodromeOptions = {}
+): Promise<ValidatedResult<NearestAerodrome>> {
+  return withWarnings(options, (options) => nearestAerodromes(location, query, (radiusKm) => getAerodromeByRadius(location, radiusKm, options, query)));
 }
 
 /**
  * Aerodrome data provider.
  *
  * @param options - Configuration options including API key and optional custom fetcher.
- * @returns An object with methods to fetch aerodrome data by ICAO code or radius.
+ * @returns An object with methods to fetch aerodrome data by code, name or radius.
  */
 export default function aerodromeProvider(options: OpenAipOptions): AerodromeProvider {
+  const callOptions = (operation: string, call?: CallOptions): OpenAipOptions => withCallOptions(withOperation(options, 'aerodrome', operation), call);
+
   return {
-    getByIcao: (icao: ICAO) => getAerodromeByIcao(icao, options),
-    getByIata: (iata: string) => getAerodromeByIata(iata, options),
-    getByRadius: (location: GeoJSON.Position, distance?: number) => getAerodromeByRadius(location, distance, options)
+    getByIcao: (icao: ICAO, call?: CallOptions) => getAerodromeByIcao(icao, callOptions('getByIcao', call)),
+    getByIata: (iata: string, call?: CallOptions) => getAerodromeByIata(iata, callOptions('getByIata', call)),
+    getByIdentifier: (identifier: string, call?: CallOptions) => getAerodromeByIdentifier(identifier, callOptions('getByIdentifier', call)),
+    search: (name: string, query?: AerodromeQueryOptions, call?: CallOptions) => searchAerodromes(name, callOptions('search', call), query),
+    getByRadius: (location: GeoJSON.Position, distance?: number, query?: AerodromeQueryOptions, call?: CallOptions) => getAerodromeByRadius(location, distance, callOptions('getByRadius', call), query),
+    iterateByRadius: (location: GeoJSON.Position, distance?: number, query?: AerodromeQueryOptions, call?: CallOptions) => iterateAerodromeByRadius(location, distance, callOptions('iterateByRadius', call), query),
+    findNearest: (location: GeoJSON.Position, query?: NearestAerodromeOptions, call?: CallOptions) => findNearestAerodromes(location, callOptions('findNearest', call), query)
   };
 }
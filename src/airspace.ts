@@ -0,0 +1,451 @@
+import { along, booleanIntersects, booleanPointInPolygon, distance, length, lineIntersect, lineString, point, polygonToLine } from "@turf/turf";
+import { fetchApi, parseJsonResponse, type FetchApiOptions } from "./http.js";
+import { createHttpStatusError, InvalidInputError } from "./error.js";
+import { routeLineString, type Route } from "./corridor.js";
+import { paginate, collect, type Page } from "./pagination.js";
+import { OPENAIP_API_CONFIG, openAipPage, type OpenAipAirspaceItem, type OpenAipOptions, type OpenAipResponse } from "./openaip-config.js";
+import { normalizeAltitude, type AltitudeDatum, type AltitudeLimit } from "./openaip-units.js";
+import { withOperation } from "./hooks.js";
+import { withCallOptions, type CallOptions } from "./cache.js";
+
+const HPA_TO_FEET = 27; // Approximate height change per hPa near sea level
+const CROSSING_TOLERANCE_NM = 1e-6; // Crossings closer than this are the same, e.g. at a leg end
+
+/**
+ * Enumeration of airspace types.
+ */
+export enum AirspaceType {
+  Other = 'OTHER',
+  Restricted = 'RESTRICTED',
+  Danger = 'DANGER',
+  Prohibited = 'PROHIBITED',
+  CTR = 'CTR',
+  TMZ = 'TMZ',
+  RMZ = 'RMZ',
+  TMA = 'TMA',
+  TRA = 'TRA',
+  TSA = 'TSA',
+  FIR = 'FIR',
+  UIR = 'UIR',
+  ADIZ = 'ADIZ',
+  ATZ = 'ATZ',
+  MATZ = 'MATZ',
+  Airway = 'AIRWAY',
+  MTR = 'MTR',
+  Alert = 'ALERT',
+  Warning = 'WARNING',
+  Protected = 'PROTECTED',
+  HTZ = 'HTZ',
+  GlidingSector = 'GLIDING_SECTOR',
+  TRP = 'TRP',
+  TIZ = 'TIZ',
+  TIA = 'TIA',
+  MTA = 'MTA',
+  CTA = 'CTA',
+  ACCSector = 'ACC_SECTOR',
+  Sporting = 'SPORTING',
+  LowOverflightRestriction = 'LOW_OVERFLIGHT_RESTRICTION',
+  MRT = 'MRT',
+  TFR = 'TFR',
+  VFRSector = 'VFR_SECTOR',
+  FISSector = 'FIS_SECTOR',
+  LTA = 'LTA',
+  UTA = 'UTA',
+  MCTR = 'MCTR',
+}
+
+/** OpenAIP airspace type codes in enum order */
+const OPENAIP_AIRSPACE_TYPES = Object.values(AirspaceType);
+
+/** ICAO airspace class, SUA for special use airspace without a class */
+export type AirspaceClass = 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'SUA';
+
+const OPENAIP_AIRSPACE_CLASSES: AirspaceClass[] = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+export type { AltitudeDatum, AltitudeLimit };
+
+/**
+ * Represents the activity information of an airspace.
+ *
+ * @property code - OpenAIP activity code, 0 for none.
+ * @property onDemand - Activated on demand.
+ * @property onRequest - Crossing available on request.
+ * @property byNotam - Activated by NOTAM.
+ * @property hours - Published operating hours, such as "MON 0800-1600".
+ */
+export interface AirspaceActivity {
+  code: number;
+  onDemand?: boolean;
+  onRequest?: boolean;
+  byNotam?: boolean;
+  hours?: string[];
+}
+
+/**
+ * Properties of an airspace feature.
+ */
+export interface AirspaceProperties {
+  id: string;
+  name: string;
+  type: AirspaceType;
+  icaoClass: AirspaceClass;
+  lowerLimit: AltitudeLimit;
+  upperLimit?: AltitudeLimit; // undefined when unknown, treated as unlimited
+  country?: string;
+  activity: AirspaceActivity;
+}
+
+/** Represents an airspace as a GeoJSON feature. */
+export type Airspace = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, AirspaceProperties>;
+
+/**
+ * Vertical reference for containment checks.
+ *
+ * @property groundElevation - Ground elevation in feet, used for GND limits (default: 0).
+ * @property qnh - QNH in hPa, used to compare altitudes with flight levels (default: 1013.25).
+ */
+export interface AltitudeReference {
+  groundElevation?: number;
+  qnh?: number;
+}
+
+/**
+ * Represents a route penetration of an airspace.
+ *
+ * @property airspace - The airspace penetrated.
+ * @property entry - Distance along the route where the airspace is entered, in nautical miles.
+ * @property exit - Distance along the route where the airspace is left, in nautical miles.
+ */
+export interface AirspacePenetration {
+  airspace: Airspace;
+  entry: number;
+  exit: number;
+}
+
+export interface AirspaceProvider {
+  getByBbox(bbox: GeoJSON.BBox, call?: CallOptions): Promise<Airspace[]>;
+  getByPoint(location: GeoJSON.Position, call?: CallOptions): Promise<Airspace[]>;
+  getByRadius(location: GeoJSON.Position, distance?: number, call?: CallOptions): Promise<Airspace[]>;
+}
+
+/**
+ * Format OpenAIP operating hours.
+ */
+function formatOperatingHours(item: OpenAipAirspaceItem): string[] | undefined {
+  const days = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+  const hours = item.hoursOfOperation?.operatingHours;
+  if (!hours || hours.length === 0) {
+    return undefined;
+  }
+
+  return hours.map((entry) => {
+    const day = days[entry.dayOfWeek] ?? '';
+    const start = entry.sunrise ? 'SR' : entry.startTime.replace(':', '');
+    const end = entry.sunset ? 'SS' : entry.endTime.replace(':', '');
+    return `${day} ${start}-${end}${entry.byNotam ? ' NOTAM' : ''}`.trim();
+  });
+}
+
+/**
+ * Map an OpenAIP airspace item to an Airspace feature.
+ *
+ * @param item - The OpenAIP airspace item.
+ * @returns The Airspace feature.
+ */
+function transformAirspace(item: OpenAipAirspaceItem): Airspace {
+  // Limits in an unknown unit are widened to the surface and unlimited, never narrowed
+  const lowerLimit = normalizeAltitude(item.lowerLimit) ?? { value: 0, datum: 'GND' };
+  const upperLimit = normalizeAltitude(item.upperLimit);
+
+  return {
+    type: 'Feature',
+    geometry: item.geometry,
+    properties: {
+      id: item._id,
+      name: item.name,
+      type: OPENAIP_AIRSPACE_TYPES[item.type] ?? AirspaceType.Other,
+      icaoClass: OPENAIP_AIRSPACE_CLASSES[item.icaoClass] ?? 'SUA',
+      lowerLimit,
+      upperLimit,
+      country: item.country,
+      activity: {
+        code: item.activity ?? 0,
+        onDemand: item.onDemand,
+        onRequest: item.onRequest,
+        byNotam: item.byNotam,
+        hours: formatOperatingHours(item),
+      },
+    },
+  };
+}
+
+/**
+ * Base API function for fetching OpenAIP airspace data.
+ *
+ * @param uri - The URI path to append to the base URL.
+ * @param options - Provider options including API key, custom fetcher and response cache.
+ * @param init - Additional fetch options.
+ * @returns Promise resolving to a page of Airspace features.
+ * @throws {ApiError} Will throw an ApiError subclass if the API request fails.
+ */
+async function baseApi(
+  uri: string,
+  options: OpenAipOptions,
+  init: RequestInit = {}
+): Promise<Page<Airspace>> {
+  const { fetcher = fetch, apiKey, cache, retry, circuitBreaker, hooks, operation } = options;
+  const apiOptions: FetchApiOptions = {
+    ...init,
+    service: 'OpenAIP',
+    headers: {
+      "x-openaip-api-key": apiKey
+    },
+    cf: {
+      cacheTtl: OPENAIP_API_CONFIG.CACHE_TTL,
+      cacheEverything: true,
+    },
+    responseCache: cache ? { ...cache, ttl: cache.ttl ?? OPENAIP_API_CONFIG.CACHE_TTL } : undefined,
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
+    dedupe: true,
+    timeout: OPENAIP_API_CONFIG.TIMEOUT
+  };
+
+  const endpoint = `${OPENAIP_API_CONFIG.API_URL}${uri}`;
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw createHttpStatusError('OpenAIP', endpoint, apiOptions, response);
+  }
+
+  const data = await parseJsonResponse<OpenAipResponse<OpenAipAirspaceItem>>(response, 'OpenAIP', endpoint, apiOptions);
+  if (!data || !data.items || data.items.length === 0) {
+    return openAipPage(data, []);
+  }
+
+  return openAipPage(data, data.items
+    .filter((airspace) => airspace.geometry)
+    .map(transformAirspace));
+}
+
+/**
+ * Fetch all pages of an airspace query.
+ *
+ * @param uri - The URI path without page parameter.
+ * @param options - Provider options including pagination limits.
+ * @returns Promise resolving to an array of Airspace features.
+ */
+async function baseApiAllPages(uri: string, options: OpenAipOptions): Promise<Airspace[]> {
+  return collect(paginate(
+    (page) => baseApi(`${uri}&page=${page}`, options),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  ));
+}
+
+/**
+ * Validate a location and format it as OpenAIP pos parameter.
+ */
+function positionParam(location: GeoJSON.Position): string {
+  if (location.length !== 2) {
+    throw new InvalidInputError('OpenAIP', "Location must be a 2D coordinate", 'location');
+  }
+
+  const lat = parseFloat(location[1].toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION));
+  const lon = parseFloat(location[0].toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION));
+  return `${lat},${lon}`;
+}
+
+/**
+ * Get airspaces within a bounding box.
+ *
+ * @param bbox - GeoJSON bounding box [west, south, east, north].
+ * @returns Promise resolving to an array of Airspace features.
+ */
+export async function getAirspaceByBbox(bbox: GeoJSON.BBox, options: OpenAipOptions): Promise<Airspace[]> {
+  const bboxParam = bbox.slice(0, 4).map((value) => parseFloat(value.toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION))).join(',');
+  return baseApiAllPages(`airspaces?bbox=${bboxParam}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}`, options);
+}
+
+/**
+ * Get airspaces within a radius from a location.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param distance - Distance in kilometers (default: 50).
+ * @returns Promise resolving to an array of Airspace features.
+ * @throws {InvalidInputError} If distance is negative or location format is invalid.
+ */
+export async function getAirspaceByRadius(
+  location: GeoJSON.Position,
+  distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM,
+  options: OpenAipOptions
+): Promise<Airspace[]> {
+  if (distance <= 0) {
+    throw new InvalidInputError('OpenAIP', "Distance must be a positive number", 'distance');
+  }
+
+  const distanceInMeters = distance * OPENAIP_API_CONFIG.KM_TO_METERS;
+  return baseApiAllPages(`airspaces?pos=${positionParam(location)}&dist=${distanceInMeters}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}`, options);
+}
+
+/**
+ * Get airspaces laterally containing a location, at any altitude.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @returns Promise resolving to an array of Airspace features containing the location.
+ * @throws {InvalidInputError} If location format is invalid.
+ */
+export async function getAirspaceByPoint(location: GeoJSON.Position, options: OpenAipOptions): Promise<Airspace[]> {
+  const airspaces = await baseApiAllPages(`airspaces?pos=${positionParam(location)}&dist=${OPENAIP_API_CONFIG.AIRSPACE_POINT_DIST_M}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}`, options);
+  return airspaces.filter((airspace) => booleanPointInPolygon(point([location[0], location[1]]), airspace));
+}
+
+/**
+ * Convert an airspace limit to feet above mean sea level.
+ *
+ * @param limit - The airspace limit.
+ * @param reference - Ground elevation and QNH.
+ * @returns The limit in feet MSL.
+ */
+export function limitToAltitude(limit: AltitudeLimit, reference: AltitudeReference = {}): number {
+  const { groundElevation = 0, qnh = 1013.25 } = reference;
+  switch (limit.datum) {
+    case 'GND':
+      return limit.value + groundElevation;
+    case 'STD':
+      return limit.value + (qnh - 1013.25) * HPA_TO_FEET;
+    default:
+      return limit.value;
+  }
+}
+
+/**
+ * Check whether an altitude lies between the vertical limits of an airspace.
+ *
+ * @param airspace - The airspace.
+ * @param altitude - Altitude in feet MSL.
+ * @param reference - Ground elevation and QNH.
+ * @returns True if the altitude is within the lower and upper limit, an unknown upper limit being unlimited.
+ */
+export function isWithinVerticalLimits(airspace: Airspace, altitude: number, reference: AltitudeReference = {}): boolean {
+  const lower = limitToAltitude(airspace.properties.lowerLimit, reference);
+  const { upperLimit } = airspace.properties;
+  const upper = upperLimit ? limitToAltitude(upperLimit, reference) : Infinity;
+  return altitude >= lower && altitude <= upper;
+}
+
+/**
+ * Find the airspaces containing a point at an altitude.
+ *
+ * @param airspaces - The airspaces to search.
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param altitude - Altitude in feet MSL.
+ * @param reference - Ground elevation and QNH.
+ * @returns The airspaces containing the point at the given altitude.
+ */
+export function airspacesAtPoint(
+  airspaces: Airspace[],
+  location: GeoJSON.Position,
+  altitude: number,
+  reference: AltitudeReference = {}
+): Airspace[] {
+  const target = point([location[0], location[1]]);
+  return airspaces.filter((airspace) =>
+    isWithinVerticalLimits(airspace, altitude, reference) && booleanPointInPolygon(target, airspace)
+  );
+}
+
+/**
+ * Find the boundary crossings of an airspace along a route, in flight order.
+ *
+ * Each leg is intersected separately, so a route passing the same point twice
+ * reports the distance of each pass.
+ *
+ * @returns Distances along the route in nautical miles.
+ */
+function boundaryCrossings(line: GeoJSON.Feature<GeoJSON.LineString>, airspace: Airspace): number[] {
+  const boundary = polygonToLine(airspace);
+  const coordinates = line.geometry.coordinates;
+  const crossings: number[] = [];
+
+  let legStart = 0;
+  for (let index = 0; index < coordinates.length - 1; index++) {
+    const from = coordinates[index];
+    const leg = lineString([from, coordinates[index + 1]]);
+    for (const crossing of lineIntersect(leg, boundary).features) {
+      crossings.push(legStart + distance(from, crossing.geometry.coordinates, { units: 'nauticalmiles' }));
+    }
+    legStart += length(leg, { units: 'nauticalmiles' });
+  }
+
+  return crossings.sort((a, b) => a - b);
+}
+
+/**
+ * Find the airspaces a route penetrates, in the order they are entered.
+ *
+ * A route leaving an airspace and entering it again, for instance through a concave
+ * boundary, penetrates it once per stretch flown inside.
+ *
+ * @param airspaces - The airspaces to search.
+ * @param route - GeoJSON LineString or array of positions [longitude, latitude].
+ * @param altitude - Optional cruise altitude in feet MSL. Without it all altitudes are considered.
+ * @param reference - Ground elevation and QNH.
+ * @returns The penetrated airspaces with entry and exit distances along the route.
+ */
+export function airspacesAlongRoute(
+  airspaces: Airspace[],
+  route: Route,
+  altitude?: number,
+  reference: AltitudeReference = {}
+): AirspacePenetration[] {
+  const line = routeLineString(route);
+  const total = length(line, { units: 'nauticalmiles' });
+
+  return airspaces
+    .filter((airspace) => altitude === undefined || isWithinVerticalLimits(airspace, altitude, reference))
+    .filter((airspace) => booleanIntersects(line, airspace))
+    .flatMap((airspace) => {
+      // Stretches between consecutive crossings are inside or outside as a whole,
+      // tested at their midpoint so a boundary touched without crossing does not count
+      const breaks = [0, ...boundaryCrossings(line, airspace), total];
+      const penetrations: AirspacePenetration[] = [];
+      for (let index = 0; index < breaks.length - 1; index++) {
+        const [start, end] = [breaks[index], breaks[index + 1]];
+        if (end - start <= CROSSING_TOLERANCE_NM) {
+          continue;
+        }
+
+        const midpoint = along(line, (start + end) / 2, { units: 'nauticalmiles' });
+        if (!booleanPointInPolygon(midpoint, airspace)) {
+          continue;
+        }
+
+        const previous = penetrations[penetrations.length - 1];
+        if (previous && start - previous.exit <= CROSSING_TOLERANCE_NM) {
+          previous.exit = end;
+        } else {
+          penetrations.push({ airspace, entry: start, exit: end });
+        }
+      }
+      return penetrations;
+    })
+    .sort((a, b) => a.entry - b.entry);
+}
+
+/**
+ * Airspace data provider.
+ *
+ * @param options - Configuration options including API key and optional custom fetcher.
+ * @returns An object with methods to fetch airspaces by bounding box, point or radius.
+ */
+export default function airspaceProvider(options: OpenAipOptions): AirspaceProvider {
+  const callOptions = (operation: string, call?: CallOptions): OpenAipOptions => withCallOptions(withOperation(options, 'airspace', operation), call);
+
+  return {
+    getByBbox: (bbox: GeoJSON.BBox, call?: CallOptions) => getAirspaceByBbox(bbox, callOptions('getByBbox', call)),
+    getByPoint: (location: GeoJSON.Position, call?: CallOptions) => getAirspaceByPoint(location, callOptions('getByPoint', call)),
+    getByRadius: (location: GeoJSON.Position, distance?: number, call?: CallOptions) => getAirspaceByRadius(location, distance, callOptions('getByRadius', call)),
+  };
+}
@@ -1,64 +1,139 @@
-import { createMetarFromString, normalizeICAO, type ICAO, type MetarStation } from "flight-planner";
-import { fetchApi, type FetchFunction } from "./http.js";
-import { ApiError } from "./error.js";
+import { createMetarFromString, normalizeICAO, type ICAO } from "flight-planner";
+import { fetchApi, parseJsonResponse, type FetchApiOptions, type FetchFunction } from "./http.js";
+import { createHttpStatusError, InvalidInputError } from "./error.js";
+import { withCallOptions, type CacheOptions, type CallOptions } from "./cache.js";
+import { type RetryOptions } from "./retry.js";
+import { type CircuitBreaker } from "./circuit-breaker.js";
+import { withOperation, type HookOptions } from "./hooks.js";
+import { schema, validateRecords, withWarnings, type Schema, type ValidatedResult, type ValidationOptions } from "./schema.js";
+import { parseTaf, type MetarStationWithTaf } from "./taf.js";
+import { corridorBboxes, corridorPolygon, isInCorridor, routePosition, type Route, type RoutePosition } from "./corridor.js";
 
 const AVIATIONWEATHER_API_CONFIG = {
   API_URL: 'https://aviationweather.gov/api/data/',
   CACHE_TTL: 60, // 1 minute for weather data
   TIMEOUT: 5000, // 5 seconds
+  MAX_IDS: 200, // Stations per request, keeps the URL well within length limits
 } as const;
 
-export interface MetarOptions {
+/**
+ * METAR provider options.
+ *
+ * Records failing the declared schema, or whose METAR cannot be decoded, fail the request in
+ * strict validation mode and are skipped with a warning in lenient mode.
+ */
+export interface MetarOptions extends ValidationOptions, HookOptions {
   fetcher?: FetchFunction;
+  cache?: CacheOptions;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
 }
 
 export interface MetarStationProvider {
-  getByIcao(icao: ICAO[], date?: Date): Promise<MetarStation[]>;
-  getByBbox(bbox: GeoJSON.BBox, date?: Date): Promise<MetarStation[]>;
+  getByIcao(icao: ICAO[], date?: Date, call?: CallOptions): Promise<ValidatedResult<MetarStationWithTaf>>;
+  getByBbox(bbox: GeoJSON.BBox, date?: Date, call?: CallOptions): Promise<ValidatedResult<MetarStationWithTaf>>;
+  getByCorridor(route: Route, widthNm: number, date?: Date, call?: CallOptions): Promise<ValidatedResult<CorridorMetarStation>>;
+}
+
+/**
+ * METAR record as returned by the aviationweather.gov JSON API, limited to the fields used.
+ */
+export interface AviationWeatherMetar {
+  icaoId: string;
+  rawOb: string;
+  rawTaf?: string;
+  lat: number;
+  lon: number;
 }
 
+export const aviationWeatherMetarSchema: Schema<AviationWeatherMetar> = schema.object({
+  icaoId: schema.string({ nonEmpty: true }),
+  rawOb: schema.string({ nonEmpty: true }),
+  rawTaf: schema.optional(schema.string()),
+  lat: schema.number({ min: -90, max: 90 }),
+  lon: schema.number({ min: -180, max: 180 }),
+});
+
+/**
+ * Transform an aviationweather.gov METAR record into a METAR station with decoded TAF.
+ *
+ * @param metar - The METAR record.
+ * @returns The METAR station.
+ * @throws {Error} If the METAR cannot be decoded. A TAF that cannot be decoded is kept raw.
+ */
+function transformMetar(metar: AviationWeatherMetar): MetarStationWithTaf {
+  const parsedMetar = createMetarFromString(metar.rawOb);
+
+  // An unreadable TAF only loses the decoded forecast, not the observation
+  let taf;
+  try {
+    taf = metar.rawTaf ? parseTaf(metar.rawTaf, parsedMetar.observationTime) : undefined;
+  } catch {
+    taf = undefined;
+  }
+
+  return {
+    station: normalizeICAO(metar.icaoId),
+    metar: parsedMetar,
+    tafRaw: metar.rawTaf,
+    taf,
+    coords: [metar.lon, metar.lat]
+  };
+}
+
+/**
+ * Represents a METAR station along a route, with its position relative to the route.
+ */
+export interface CorridorMetarStation extends MetarStationWithTaf, RoutePosition { }
+
 /**
  * Base API function for fetching METAR data.
  *
  * @param uri - The URI path to append to the base URL.
- * @returns Promise resolving to an array of MetarStation objects.
- * @throws Will throw an error if the API request fails.
+ * @param options - Provider options including custom fetcher and response cache.
+ * @param init - Additional fetch options.
+ * @returns Promise resolving to an array of MetarStation objects with decoded TAF.
+ * @throws {ApiError} Will throw an ApiError subclass if the API request fails.
+ * @throws {SchemaValidationError} In strict validation mode, if a record is invalid.
  */
 async function baseApi(
   uri: string,
-  options: RequestInit = {},
-  fetcher: FetchFunction = fetch
-): Promise<MetarStation[]> {
-  const apiOptions: RequestInit & { timeout?: number; cf?: object } = {
-    ...options,
+  options: MetarOptions = {},
+  init: RequestInit = {}
+): Promise<MetarStationWithTaf[]> {
+  const { fetcher = fetch, cache, retry, circuitBreaker, hooks, operation } = options;
+  const apiOptions: FetchApiOptions = {
+    ...init,
+    service: 'METAR',
     cf: {
       cacheTtl: AVIATIONWEATHER_API_CONFIG.CACHE_TTL,
       cacheEverything: true,
     },
+    responseCache: cache ? { ...cache, ttl: cache.ttl ?? AVIATIONWEATHER_API_CONFIG.CACHE_TTL } : undefined,
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
     timeout: AVIATIONWEATHER_API_CONFIG.TIMEOUT
   };
 
-  const response = await fetchApi(fetcher, `${AVIATIONWEATHER_API_CONFIG.API_URL}${uri}`, apiOptions);
+  const endpoint = `${AVIATIONWEATHER_API_CONFIG.API_URL}${uri}`;
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
   if (!response.ok) {
     await response.body?.cancel();
-    throw new ApiError('METAR', `${AVIATIONWEATHER_API_CONFIG.API_URL}${uri}`, apiOptions, `HTTP ${response.status} - ${response.statusText}`);
+    throw createHttpStatusError('METAR', endpoint, apiOptions, response);
   }
 
   if (response.status === 204) {
     return [];
   }
 
-  const data = await response.json() as unknown[];
+  const data = await parseJsonResponse<unknown[]>(response, 'METAR', endpoint, apiOptions);
   if (!data || data.length === 0) {
     return [];
   }
 
-  return data.map((metar: any) => ({
-    station: normalizeICAO(metar.icaoId),
-    metar: createMetarFromString(metar.rawOb),
-    tafRaw: metar.rawTaf,
-    coords: [metar.lon, metar.lat]
-  }));
+  return validateRecords(data, aviationWeatherMetarSchema, transformMetar, { service: 'METAR', endpoint, requestOptions: apiOptions, options });
 }
 
 /**
@@ -67,7 +142,7 @@ async function baseApi(
  * @param date - The date to validate and format.
  * @param days - The number of days in the recent range (default is 30).
  * @returns Formatted date parameter string or empty string if no date provided.
- * @throws Will throw an error if the date is outside the recent range.
+ * @throws {InvalidInputError} If the date is outside the recent range.
  */
 const getRecentDateParam = (date?: Date, days: number = 30): string => {
   if (!date) { return '' };
@@ -77,7 +152,7 @@ const getRecentDateParam = (date?: Date, days: number = 30): string => {
   thirtyDaysAgo.setDate(now.getDate() - days);
 
   if (date < thirtyDaysAgo || date > now) {
-    throw new Error(`Date must be within the last ${days} days`);
+    throw new InvalidInputError('METAR', `Date must be within the last ${days} days`, 'date');
   }
 
   return `&date=${date.toISOString()}`;
@@ -86,16 +161,26 @@ const getRecentDateParam = (date?: Date, days: number = 30): string => {
 /**
  * Get METAR information for specific ICAO codes.
  *
+ * Long lists are split into several requests to stay within URL length limits.
+ *
  * @param icao - Array of ICAO airport codes.
  * @param date - Optional date to fetch METARs for a specific time.
- * @returns Promise resolving to an array of MetarStation objects.
+ * @returns Promise resolving to an array of MetarStation objects with decoded TAF.
  */
-export async function getMetarStationsByIcao(icao: ICAO[], date?: Date, options: MetarOptions = {}): Promise<MetarStation[]> {
-  const { fetcher = fetch } = options;
+export async function getMetarStationsByIcao(icao: ICAO[], date?: Date, options: MetarOptions = {}): Promise<ValidatedResult<MetarStationWithTaf>> {
   if (!icao.length) { return Promise.resolve([]); }
 
   const dateParam = getRecentDateParam(date);
-  return baseApi(`metar?ids=${icao.map(normalizeICAO).join(',')}&format=json&taf=true${dateParam}`, {}, fetcher);
+  const ids = [...new Set(icao.map(normalizeICAO))];
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += AVIATIONWEATHER_API_CONFIG.MAX_IDS) {
+    chunks.push(ids.slice(i, i + AVIATIONWEATHER_API_CONFIG.MAX_IDS));
+  }
+
+  return withWarnings(options, async (options) => {
+    const results = await Promise.all(chunks.map((chunk) => baseApi(`metar?ids=${chunk.join(',')}&format=json&taf=true${dateParam}`, options)));
+    return results.flat();
+  });
 }
 
 /**
@@ -103,10 +188,9 @@ export async function getMetarStationsByIcao(icao: ICAO[], date?: Date, options:
  *
  * @param bbox - GeoJSON bounding box [west, south, east, north].
  * @param date - Optional date to fetch METARs for a specific time.
- * @returns Promise resolving to an array of MetarStation objects.
+ * @returns Promise resolving to an array of MetarStation objects with decoded TAF.
  */
-export async function getMetarStationsByBbox(bbox: GeoJSON.BBox, date?: Date, options: MetarOptions = {}): Promise<MetarStation[]> {
-  const { fetcher = fetch } = options;
+export async function getMetarStationsByBbox(bbox: GeoJSON.BBox, date?: Date, options: MetarOptions = {}): Promise<ValidatedResult<MetarStationWithTaf>> {
   const bboxReversed = [
     parseFloat(bbox[1].toFixed(2)), // south
     parseFloat(bbox[0].toFixed(2)), // west
@@ -115,17 +199,52 @@ export async function getMetarStationsByBbox(bbox: GeoJSON.BBox, date?: Date, op
   ];
 
   const dateParam = getRecentDateParam(date);
-  return baseApi(`metar?bbox=${bboxReversed.join(',')}&format=json&taf=true${dateParam}`, {}, fetcher);
+  return withWarnings(options, (options) => baseApi(`metar?bbox=${bboxReversed.join(',')}&format=json&taf=true${dateParam}`, options));
+}
+
+/**
+ * Get METAR information for airports within a corridor along a route.
+ *
+ * The corridor is split into bounding box queries, stations are de-duplicated and
+ * clipped to the corridor, then sorted in flight order.
+ *
+ * @param route - GeoJSON LineString or array of positions [longitude, latitude].
+ * @param widthNm - Total corridor width in nautical miles.
+ * @param date - Optional date to fetch METARs for a specific time.
+ * @returns Promise resolving to an array of stations with distance along the route and cross-track offset in nautical miles.
+ * @throws {InvalidInputError} If the route or width is invalid.
+ */
+export async function getMetarStationsByCorridor(route: Route, widthNm: number, date?: Date, options: MetarOptions = {}): Promise<ValidatedResult<CorridorMetarStation>> {
+  const corridor = corridorPolygon(route, widthNm);
+  const bboxes = corridorBboxes(route, widthNm);
+
+  return withWarnings(options, async (options) => {
+    const results = await Promise.all(bboxes.map((bbox) => getMetarStationsByBbox(bbox, date, options)));
+
+    const stations = new Map<string, MetarStationWithTaf>();
+    for (const station of results.flat()) {
+      if (!stations.has(station.station) && isInCorridor(corridor, station.coords)) {
+        stations.set(station.station, station);
+      }
+    }
+
+    return [...stations.values()]
+      .map((station) => ({ ...station, ...routePosition(route, station.coords) }))
+      .sort((a, b) => a.distanceAlong - b.distanceAlong);
+  });
 }
 
 /** Factory function to create a METAR station provider.
  *
  * @param options - Optional configuration options including a custom fetcher.
- * @returns An object with methods to get METAR data by ICAO codes or bounding box.
+ * @returns An object with methods to get METAR data by ICAO codes, bounding box or route corridor.
  */
 export default function metarStationProvider(options: MetarOptions = {}): MetarStationProvider {
+  const callOptions = (operation: string, call?: CallOptions): MetarOptions => withCallOptions(withOperation(options, 'metar', operation), call);
+
   return {
-    getByIcao: (icao: ICAO[], date?: Date) => getMetarStationsByIcao(icao, date, options),
-    getByBbox: (bbox: GeoJSON.BBox, date?: Date) => getMetarStationsByBbox(bbox, date, options)
+    getByIcao: (icao: ICAO[], date?: Date, call?: CallOptions) => getMetarStationsByIcao(icao, date, callOptions('getByIcao', call)),
+    getByBbox: (bbox: GeoJSON.BBox, date?: Date, call?: CallOptions) => getMetarStationsByBbox(bbox, date, callOptions('getByBbox', call)),
+    getByCorridor: (route: Route, widthNm: number, date?: Date, call?: CallOptions) => getMetarStationsByCorridor(route, widthNm, date, callOptions('getByCorridor', call))
   };
 }
@@ -0,0 +1,196 @@
+/**
+ * Serialized HTTP response as kept by a cache store.
+ */
+export interface CacheEntry {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+  storedAt: number; // epoch milliseconds
+  expiresAt: number; // epoch milliseconds, fresh until
+  staleUntil: number; // epoch milliseconds, may be served stale until
+}
+
+/**
+ * Storage backend for cached API responses.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Response cache options accepted by providers and fetchApi.
+ *
+ * @property store - The cache store to read from and write to.
+ * @property ttl - Freshness lifetime in seconds (defaults to the provider CACHE_TTL).
+ * @property staleWhileRevalidate - Seconds a stale entry may still be served while it is refreshed in the background.
+ * @property bypass - Skip the cache lookup of every call. The fresh response is still stored.
+ */
+export interface CacheOptions {
+  store: CacheStore;
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  bypass?: boolean;
+}
+
+/**
+ * Options of a single provider call, passed as the last argument of the provider methods.
+ *
+ * @property bypass - Skip the cache lookup for this call. The fresh response is still stored.
+ */
+export interface CallOptions {
+  bypass?: boolean;
+}
+
+export interface MemoryCacheOptions {
+  maxEntries?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Create an in-memory LRU cache store.
+ *
+ * @param options - Optional configuration with the maximum number of entries (default: 500).
+ * @returns A CacheStore evicting the least recently used entry when full.
+ */
+export function createMemoryCache(options: MemoryCacheOptions = {}): CacheStore {
+  const { maxEntries = DEFAULT_MAX_ENTRIES } = options;
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: async (key: string): Promise<CacheEntry | undefined> => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      if (entry.staleUntil <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      // Move to the back of the map to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set: async (key: string, entry: CacheEntry): Promise<void> => {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+    delete: async (key: string): Promise<void> => {
+      entries.delete(key);
+    },
+    clear: async (): Promise<void> => {
+      entries.clear();
+    }
+  };
+}
+
+/**
+ * Apply the options of a single provider call to the provider options.
+ *
+ * @param options - The provider options.
+ * @param call - The options of the call, if any.
+ * @returns The options, with the cache bypassed when the call asks for it.
+ */
+export function withCallOptions<O extends { cache?: CacheOptions }>(options: O, call?: CallOptions): O {
+  return call?.bypass && options.cache ? { ...options, cache: { ...options.cache, bypass: true } } : options;
+}
+
+/** Request headers carrying the credentials of a request */
+export const CREDENTIAL_HEADERS = ['authorization', 'x-openaip-api-key'];
+
+/**
+ * Build the cache key for a request.
+ *
+ * @param url - The request URL.
+ * @param options - The request options; method and body are part of the key.
+ * @param credentials - Fingerprint of the request credentials, see credentialFingerprint.
+ * @returns The cache key.
+ */
+export function cacheKey(url: string, options: RequestInit = {}, credentials?: string): string {
+  const method = (options.method || 'GET').toUpperCase();
+  const body = typeof options.body === 'string' ? options.body : '';
+  const key = body ? `${method} ${url} ${body}` : `${method} ${url}`;
+  return credentials ? `${key} #${credentials}` : key;
+}
+
+/**
+ * Fingerprint the credentials sent with a request, so providers with different credentials
+ * sharing a cache store are not served each other's responses. The credentials themselves
+ * never end up in the store.
+ *
+ * @param headers - The request headers.
+ * @param identity - Stable identity of the credentials, used instead of the credential headers,
+ * e.g. when they carry a short-lived access token.
+ * @returns The SHA-256 hex digest of the identity or the credential headers, undefined if there are none.
+ */
+export async function credentialFingerprint(headers?: HeadersInit, identity?: string): Promise<string | undefined> {
+  if (identity !== undefined) {
+    return sha256(identity);
+  }
+
+  const all = new Headers(headers);
+  const credentials = CREDENTIAL_HEADERS.filter((name) => all.has(name)).map((name) => `${name}:${all.get(name)}`);
+  return credentials.length ? sha256(credentials.join('\n')) : undefined;
+}
+
+/**
+ * Hash a value with SHA-256.
+ *
+ * @param value - The value to hash.
+ * @returns The hex digest.
+ */
+export async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Serialize a response into a cache entry. The response body is consumed.
+ *
+ * @param response - The response to serialize.
+ * @param ttl - Freshness lifetime in seconds.
+ * @param staleWhileRevalidate - Seconds the entry may be served stale.
+ * @returns The cache entry.
+ */
+export async function toCacheEntry(response: Response, ttl: number, staleWhileRevalidate: number = 0): Promise<CacheEntry> {
+  const now = Date.now();
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body: await response.text(),
+    storedAt: now,
+    expiresAt: now + ttl * 1000,
+    staleUntil: now + (ttl + staleWhileRevalidate) * 1000,
+  };
+}
+
+/**
+ * Recreate a response from a cache entry.
+ *
+ * @param entry - The cache entry.
+ * @returns A new Response object.
+ */
+export function fromCacheEntry(entry: CacheEntry): Response {
+  const body = entry.status === 204 || entry.status === 304 ? null : entry.body;
+  return new Response(body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
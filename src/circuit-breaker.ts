@@ -0,0 +1,279 @@
+import { CircuitOpenError } from "./error.js";
+import { type FetchApiOptions } from "./http.js";
+
+/**
+ * State of the circuit of an upstream host.
+ *
+ * - `closed` lets every request through.
+ * - `open` rejects requests without sending them until the cool-down has passed.
+ * - `half-open` lets a limited number of trial requests through to probe whether the host has recovered.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker options.
+ *
+ * @property failureThreshold - Consecutive failures that open the circuit (default: 5).
+ * @property failureRateThreshold - Error rate within the window, between 0 and 1, that opens the circuit (default: 0.5).
+ * @property minimumRequests - Requests within the window before the error rate is considered (default: 10).
+ * @property window - Rolling window in milliseconds for the error rate and latency (default: 60000).
+ * @property coolDown - Milliseconds the circuit stays open before a trial request is let through (default: 30000).
+ * @property halfOpenRequests - Trial requests let through, and required to succeed, before the circuit closes (default: 1).
+ * @property onStateChange - Called when the circuit of a host changes state.
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  failureRateThreshold?: number;
+  minimumRequests?: number;
+  window?: number;
+  coolDown?: number;
+  halfOpenRequests?: number;
+  onStateChange?: (host: string, from: CircuitState, to: CircuitState) => void;
+}
+
+/**
+ * Latency percentiles in milliseconds.
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Health of an upstream host, as seen by the circuit breaker.
+ *
+ * @property host - The upstream host, e.g. "api.core.openaip.net".
+ * @property service - The provider using the host, e.g. "OpenAIP".
+ * @property state - The circuit state.
+ * @property requests - Requests sent within the window.
+ * @property failures - Failed requests within the window.
+ * @property errorRate - Failed requests as a fraction of the requests within the window.
+ * @property latency - Latency percentiles within the window, undefined without requests.
+ * @property openedAt - When the circuit opened, if it is not closed.
+ * @property retryAt - When the next trial request is let through, if the circuit is open.
+ */
+export interface CircuitHealth {
+  host: string;
+  service: string;
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  latency?: LatencyPercentiles;
+  openedAt?: Date;
+  retryAt?: Date;
+}
+
+/**
+ * Circuit breaker keeping a circuit per upstream host.
+ */
+export interface CircuitBreaker {
+  /** Send a request attempt through the circuit of its host, throws a CircuitOpenError if the circuit is open */
+  call(endpoint: string, options: FetchApiOptions, attempt: () => Promise<Response>): Promise<Response>;
+  /** Report the health of every upstream host seen so far */
+  getHealth(): CircuitHealth[];
+  /** Close the circuit of a host, or of every host, and forget its samples */
+  reset(host?: string): void;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<Omit<CircuitBreakerOptions, 'onStateChange'>> = {
+  failureThreshold: 5,
+  failureRateThreshold: 0.5,
+  minimumRequests: 10,
+  window: 60000,
+  coolDown: 30000,
+  halfOpenRequests: 1,
+};
+
+/** Upper bound of samples kept per host, bounding memory under sustained load */
+const MAX_SAMPLES = 1000;
+
+interface Sample {
+  time: number; // epoch milliseconds
+  failed: boolean;
+  latency: number; // milliseconds
+}
+
+interface Circuit {
+  service: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number; // epoch milliseconds
+  trials: number; // trial requests in flight while half-open
+  trialSuccesses: number;
+  samples: Sample[];
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1))];
+}
+
+/**
+ * Check whether an attempt counts against the upstream host.
+ *
+ * Timeouts, network errors and 5xx responses are failures. Other statuses, including 4xx
+ * and rate limiting, show that the host is up and count as successes.
+ */
+function isFailure(response: Response | undefined): boolean {
+  return !response || response.status >= 500;
+}
+
+/**
+ * Create a circuit breaker.
+ *
+ * Each upstream host has its own circuit. The circuit opens after a number of consecutive
+ * failures, or when the error rate within the rolling window exceeds the threshold. While
+ * open, requests fail immediately with a CircuitOpenError instead of waiting for the timeout.
+ * After the cool-down a trial request is let through, closing the circuit when it succeeds
+ * and opening it again when it fails.
+ *
+ * Pass the same circuit breaker to several providers to report their health together.
+ *
+ * @param options - Optional circuit breaker options.
+ * @returns A CircuitBreaker to pass to providers and fetchApi.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const { onStateChange, ...thresholds } = options;
+  const policy = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...thresholds };
+  const circuits = new Map<string, Circuit>();
+
+  const transition = (host: string, circuit: Circuit, state: CircuitState): void => {
+    const from = circuit.state;
+    circuit.state = state;
+    circuit.trials = 0;
+    circuit.trialSuccesses = 0;
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+    } else if (state === 'closed') {
+      // Failures before the recovery no longer say anything about the host
+      circuit.consecutiveFailures = 0;
+      circuit.samples = [];
+    }
+    onStateChange?.(host, from, state);
+  };
+
+  const prune = (circuit: Circuit, now: number): void => {
+    const start = circuit.samples.findIndex((sample) => sample.time > now - policy.window);
+    circuit.samples = start === -1 ? [] : circuit.samples.slice(start);
+  };
+
+  const addSample = (circuit: Circuit, sample: Sample): void => {
+    circuit.samples.push(sample);
+    if (circuit.samples.length > MAX_SAMPLES) {
+      circuit.samples.shift();
+    }
+    prune(circuit, sample.time);
+  };
+
+  const record = (host: string, circuit: Circuit, failed: boolean, latency: number, trial: boolean): void => {
+    const sample = { time: Date.now(), failed, latency };
+
+    if (trial) {
+      circuit.trials = Math.max(0, circuit.trials - 1);
+      if (circuit.state === 'half-open') {
+        if (failed) {
+          transition(host, circuit, 'open');
+        } else if (++circuit.trialSuccesses >= policy.halfOpenRequests) {
+          transition(host, circuit, 'closed');
+        }
+      }
+      // Added after the transition, so the trial is the first sample of a closed circuit
+      addSample(circuit, sample);
+      return;
+    }
+
+    addSample(circuit, sample);
+
+    if (!failed) {
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    if (circuit.state !== 'closed') {
+      return;
+    }
+
+    const failures = circuit.samples.filter((sample) => sample.failed).length;
+    if (circuit.consecutiveFailures >= policy.failureThreshold
+      || (circuit.samples.length >= policy.minimumRequests && failures / circuit.samples.length >= policy.failureRateThreshold)) {
+      transition(host, circuit, 'open');
+    }
+  };
+
+  return {
+    call: async (endpoint: string, options: FetchApiOptions, attempt: () => Promise<Response>): Promise<Response> => {
+      const host = new URL(endpoint).host;
+      const service = options.service || host;
+
+      let circuit = circuits.get(host);
+      if (!circuit) {
+        circuit = { service, state: 'closed', consecutiveFailures: 0, openedAt: 0, trials: 0, trialSuccesses: 0, samples: [] };
+        circuits.set(host, circuit);
+      }
+      circuit.service = service;
+
+      if (circuit.state === 'open' && Date.now() - circuit.openedAt >= policy.coolDown) {
+        transition(host, circuit, 'half-open');
+      }
+      if (circuit.state === 'open' || (circuit.state === 'half-open' && circuit.trials >= policy.halfOpenRequests)) {
+        // While half-open the trial is in flight and the next decision is imminent
+        const retryAfter = Math.max(0, circuit.openedAt + policy.coolDown - Date.now());
+        throw new CircuitOpenError(service, endpoint, options, host, retryAfter);
+      }
+
+      const trial = circuit.state === 'half-open';
+      if (trial) {
+        circuit.trials++;
+      }
+
+      const start = Date.now();
+      let response: Response | undefined;
+      try {
+        response = await attempt();
+        return response;
+      } finally {
+        record(host, circuit, isFailure(response), Date.now() - start, trial);
+      }
+    },
+
+    getHealth: (): CircuitHealth[] => {
+      const now = Date.now();
+      return [...circuits].map(([host, circuit]) => {
+        prune(circuit, now);
+        const requests = circuit.samples.length;
+        const failures = circuit.samples.filter((sample) => sample.failed).length;
+        const latencies = circuit.samples.map((sample) => sample.latency).sort((a, b) => a - b);
+        return {
+          host,
+          service: circuit.service,
+          state: circuit.state,
+          requests,
+          failures,
+          errorRate: requests > 0 ? failures / requests : 0,
+          latency: requests > 0
+            ? { p50: percentile(latencies, 50), p90: percentile(latencies, 90), p99: percentile(latencies, 99) }
+            : undefined,
+          openedAt: circuit.state !== 'closed' ? new Date(circuit.openedAt) : undefined,
+          retryAt: circuit.state === 'open' ? new Date(circuit.openedAt + policy.coolDown) : undefined,
+        };
+      });
+    },
+
+    reset: (host?: string): void => {
+      for (const [key, circuit] of circuits) {
+        if (host === undefined || key === host) {
+          if (circuit.state !== 'closed') {
+            transition(key, circuit, 'closed');
+          }
+          circuit.consecutiveFailures = 0;
+          circuit.samples = [];
+        }
+      }
+    },
+  };
+}
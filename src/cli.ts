@@ -0,0 +1,377 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { distance } from "@turf/turf";
+import { type ICAO } from "flight-planner";
+import metarProvider from "./aviationweather.js";
+import aerodromeProvider, { type AerodromeDetails } from "./aerodrome.js";
+import navaidProvider from "./navaid.js";
+import notamProvider from "./faa-notam.js";
+import { notamFeatureCollection } from "./notam-geometry.js";
+import { ApiError, InvalidInputError, type ApiErrorCode } from "./error.js";
+import { type SchemaWarning, type ValidatedResult } from "./schema.js";
+
+export const CLI_CONFIG = {
+  API_KEY_ENV: 'OPENAIP_API_KEY',
+  CONFIG_ENV: 'BYTEFLIGHT_CONFIG',
+  CONFIG_PATH: join('.config', 'byteflight', 'config.json'), // Relative to the home directory
+  TEXT_WIDTH: 80, // Characters of NOTAM text shown in tables
+} as const;
+
+/**
+ * Exit codes of the CLI, one per ApiError code.
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  FAILURE: 1,
+  INVALID_INPUT: 2,
+  AUTHENTICATION: 3,
+  RATE_LIMIT: 4,
+  TIMEOUT: 5,
+  NETWORK: 6,
+  HTTP_STATUS: 7,
+  RESPONSE_PARSE: 8,
+  SCHEMA_VALIDATION: 9,
+  CIRCUIT_OPEN: 10,
+  API_ERROR: 11,
+} as const satisfies Record<ApiErrorCode | 'OK' | 'FAILURE', number>;
+
+/** Labels of the aerodrome types, by AerodromeType value */
+const AERODROME_TYPE_LABELS = [
+  'Airport',
+  'Glider site',
+  'Civil airfield',
+  'International airport',
+  'Military heliport',
+  'Military aerodrome',
+  'Ultralight site',
+  'Civil heliport',
+  'Closed',
+  'IFR airport',
+  'Water airfield',
+  'Landing strip',
+  'Agricultural strip',
+  'Altiport',
+];
+
+type OutputFormat = 'table' | 'json' | 'geojson';
+
+interface CliOptions {
+  positionals: string[];
+  format: OutputFormat;
+  bbox?: string;
+  near?: string;
+  radius?: string;
+  config?: string;
+}
+
+/**
+ * Result of a command, in every output format.
+ */
+interface CommandOutput {
+  data: unknown;
+  columns: string[];
+  rows: string[][];
+  geojson: GeoJSON.FeatureCollection;
+  warnings?: SchemaWarning[];
+}
+
+const USAGE = `Usage: byteflight <command> [options]
+
+Commands:
+  metar <ICAO...>                     Latest METAR and TAF of stations
+  metar --bbox west,south,east,north  METARs within a bounding box
+  aerodrome <ICAO|IATA>               Aerodrome by ICAO, IATA or local identifier
+  aerodrome --near lat,lon            Aerodromes around a position
+  navaid <ident>                      Navaids by identifier
+  notam <ICAO>                        FAA NOTAMs of a location
+
+Options:
+  -f, --format table|json|geojson     Output format (default: table)
+  --radius <km>                       Search radius of --near (default: 50)
+  --config <path>                     Config file (default: ~/${CLI_CONFIG.CONFIG_PATH})
+  -h, --help                          Show this help
+
+The OpenAIP API key is read from ${CLI_CONFIG.API_KEY_ENV}, or from "openaipApiKey" in the config file.
+`;
+
+/**
+ * Parse a list of numbers separated by commas.
+ *
+ * @throws {InvalidInputError} If the list does not have the expected number of values.
+ */
+function parseNumbers(value: string, count: number, parameter: string): number[] {
+  const numbers = value.split(',').map((item) => Number(item.trim()));
+  if (numbers.length !== count || numbers.some((item) => !Number.isFinite(item))) {
+    throw new InvalidInputError('CLI', `Expected ${count} numbers separated by commas, received "${value}"`, parameter);
+  }
+  return numbers;
+}
+
+/**
+ * Read the OpenAIP API key from the environment or the config file.
+ *
+ * @throws {InvalidInputError} If no key is configured or the config file cannot be read.
+ */
+async function openAipApiKey(configPath?: string): Promise<string> {
+  const fromEnv = process.env[CLI_CONFIG.API_KEY_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const path = configPath ?? process.env[CLI_CONFIG.CONFIG_ENV] ?? join(homedir(), CLI_CONFIG.CONFIG_PATH);
+  let config: { openaipApiKey?: unknown } | undefined;
+  try {
+    config = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    // A missing default config file only means the key is not configured
+    if (configPath || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new InvalidInputError('CLI', `Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`, 'config');
+    }
+  }
+
+  if (typeof config?.openaipApiKey !== 'string' || !config.openaipApiKey) {
+    throw new InvalidInputError('CLI', `OpenAIP API key missing, set ${CLI_CONFIG.API_KEY_ENV} or "openaipApiKey" in ${path}`, 'apiKey');
+  }
+  return config.openaipApiKey;
+}
+
+const pointFeature = (coords: GeoJSON.Position, properties: GeoJSON.GeoJsonProperties): GeoJSON.Feature => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: coords },
+  properties,
+});
+
+const featureCollection = (features: GeoJSON.Feature[]): GeoJSON.FeatureCollection => ({ type: 'FeatureCollection', features });
+
+const coordinate = (value: number | undefined): string => value === undefined ? '' : value.toFixed(4);
+
+async function metarCommand(options: CliOptions): Promise<CommandOutput> {
+  if (!options.bbox && options.positionals.length === 0) {
+    throw new InvalidInputError('CLI', "Expected one or more ICAO codes or --bbox", 'icao');
+  }
+
+  const provider = metarProvider();
+  const stations = options.bbox
+    ? await provider.getByBbox(parseNumbers(options.bbox, 4, 'bbox') as GeoJSON.BBox)
+    : await provider.getByIcao(options.positionals as ICAO[]);
+
+  return {
+    data: stations,
+    columns: ['Station', 'Observed', 'METAR'],
+    rows: stations.map((station) => [station.station, station.metar.observationTime.toISOString(), station.metar.raw]),
+    geojson: featureCollection(stations.map((station) => pointFeature(station.coords, {
+      station: station.station,
+      observed: station.metar.observationTime.toISOString(),
+      metar: station.metar.raw,
+      taf: station.tafRaw ?? null,
+    }))),
+    warnings: stations.warnings,
+  };
+}
+
+async function aerodromeCommand(options: CliOptions, apiKey: string): Promise<CommandOutput> {
+  const provider = aerodromeProvider({ apiKey });
+
+  let aerodromes: ValidatedResult<AerodromeDetails>;
+  let origin: GeoJSON.Position | undefined;
+  if (options.near) {
+    const [latitude, longitude] = parseNumbers(options.near, 2, 'near');
+    origin = [longitude, latitude];
+    aerodromes = await provider.getByRadius(origin, options.radius !== undefined ? parseNumbers(options.radius, 1, 'radius')[0] : undefined);
+  } else if (options.positionals.length === 1) {
+    aerodromes = await provider.getByIdentifier(options.positionals[0]);
+  } else {
+    throw new InvalidInputError('CLI', "Expected one ICAO or IATA code, or --near", 'identifier');
+  }
+
+  // Around a position, nearest first
+  const found = aerodromes.map((aerodrome) => ({
+    aerodrome,
+    distanceNm: origin ? distance(origin, aerodrome.coords, { units: 'nauticalmiles' }) : 0,
+  }));
+  if (origin) {
+    found.sort((a, b) => a.distanceNm - b.distanceNm);
+  }
+  const sorted = found.map(({ aerodrome }) => aerodrome);
+
+  return {
+    data: sorted,
+    columns: ['ICAO', 'IATA', 'Name', 'Type', 'Latitude', 'Longitude', 'Elevation (ft)', ...(origin ? ['Distance (NM)'] : [])],
+    rows: found.map(({ aerodrome, distanceNm }) => [
+      aerodrome.icao ?? aerodrome.localIdentifier ?? '',
+      aerodrome.iata ?? '',
+      aerodrome.name,
+      AERODROME_TYPE_LABELS[aerodrome.type] ?? String(aerodrome.type),
+      coordinate(aerodrome.coords[1]),
+      coordinate(aerodrome.coords[0]),
+      aerodrome.elevation === undefined ? '' : String(Math.round(aerodrome.elevation)),
+      ...(origin ? [distanceNm.toFixed(1)] : []),
+    ]),
+    geojson: featureCollection(sorted.map((aerodrome) => pointFeature(aerodrome.coords, {
+      icao: aerodrome.icao ?? null,
+      iata: aerodrome.iata ?? null,
+      name: aerodrome.name,
+      type: AERODROME_TYPE_LABELS[aerodrome.type] ?? aerodrome.type,
+      elevation: aerodrome.elevation ?? null,
+    }))),
+    warnings: aerodromes.warnings,
+  };
+}
+
+async function navaidCommand(options: CliOptions, apiKey: string): Promise<CommandOutput> {
+  if (options.positionals.length !== 1) {
+    throw new InvalidInputError('CLI', "Expected one navaid identifier", 'identifier');
+  }
+
+  const navaids = await navaidProvider({ apiKey }).getByIcao(options.positionals[0]);
+  const frequency = (value?: { value: number; unit: string }): string => value ? `${value.value} ${value.unit}` : '';
+
+  return {
+    data: navaids,
+    columns: ['Ident', 'Name', 'Type', 'Frequency', 'Channel', 'Latitude', 'Longitude', 'Country'],
+    rows: navaids.map((navaid) => [
+      navaid.identifier,
+      navaid.name,
+      navaid.type,
+      frequency(navaid.frequency),
+      navaid.channel ?? '',
+      coordinate(navaid.coords[1]),
+      coordinate(navaid.coords[0]),
+      navaid.country ?? '',
+    ]),
+    geojson: featureCollection(navaids.map((navaid) => pointFeature(navaid.coords, {
+      identifier: navaid.identifier,
+      name: navaid.name,
+      type: navaid.type,
+      frequency: frequency(navaid.frequency) || null,
+      channel: navaid.channel ?? null,
+    }))),
+    warnings: navaids.warnings,
+  };
+}
+
+async function notamCommand(options: CliOptions): Promise<CommandOutput> {
+  if (options.positionals.length !== 1) {
+    throw new InvalidInputError('CLI', "Expected one ICAO code", 'icao');
+  }
+
+  const notams = await notamProvider().getByIcao(options.positionals[0] as ICAO);
+  const text = (value: string): string => {
+    const line = value.replace(/\s+/g, ' ').trim();
+    return line.length > CLI_CONFIG.TEXT_WIDTH ? `${line.slice(0, CLI_CONFIG.TEXT_WIDTH - 1)}…` : line;
+  };
+
+  return {
+    data: notams,
+    columns: ['ID', 'Location', 'From', 'Until', 'Text'],
+    rows: notams.map((notam) => [
+      notam.id,
+      notam.icao ?? '',
+      notam.schedule.effectiveFrom.toISOString(),
+      notam.schedule.effectiveUntil?.toISOString() ?? 'PERM',
+      text(notam.text),
+    ]),
+    geojson: notamFeatureCollection(notams),
+    warnings: notams.warnings,
+  };
+}
+
+/**
+ * Format rows as a table with aligned columns.
+ */
+function formatTable(columns: string[], rows: string[][]): string {
+  const widths = columns.map((column, index) => Math.max(column.length, ...rows.map((row) => row[index].length)));
+  const line = (cells: string[]): string => cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd();
+  return [line(columns), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+/**
+ * Map an error to the exit code of the CLI.
+ */
+function exitCode(error: unknown): number {
+  return error instanceof ApiError ? EXIT_CODES[error.code] : EXIT_CODES.FAILURE;
+}
+
+/**
+ * Run the CLI.
+ *
+ * @param argv - The arguments, without the node executable and script.
+ * @returns The exit code.
+ */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'table' },
+        bbox: { type: 'string' },
+        near: { type: 'string' },
+        radius: { type: 'string' },
+        config: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+
+    const [command, ...rest] = positionals;
+    if (values.help) {
+      process.stdout.write(USAGE);
+      return EXIT_CODES.OK;
+    }
+    if (!command) {
+      process.stderr.write(USAGE);
+      return EXIT_CODES.INVALID_INPUT;
+    }
+    if (!['table', 'json', 'geojson'].includes(values.format)) {
+      throw new InvalidInputError('CLI', `Unknown format "${values.format}", expected table, json or geojson`, 'format');
+    }
+
+    const options: CliOptions = { ...values, positionals: rest, format: values.format as OutputFormat };
+    let output: CommandOutput;
+    switch (command) {
+      case 'metar':
+        output = await metarCommand(options);
+        break;
+      case 'aerodrome':
+        output = await aerodromeCommand(options, await openAipApiKey(options.config));
+        break;
+      case 'navaid':
+        output = await navaidCommand(options, await openAipApiKey(options.config));
+        break;
+      case 'notam':
+        output = await notamCommand(options);
+        break;
+      default:
+        throw new InvalidInputError('CLI', `Unknown command "${command}"\n\n${USAGE}`, 'command');
+    }
+
+    for (const warning of output.warnings ?? []) {
+      process.stderr.write(`warning: skipped invalid ${warning.service} record ${warning.index}: ${warning.issues.map((issue) => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join(', ')}\n`);
+    }
+
+    switch (options.format) {
+      case 'json':
+        process.stdout.write(`${JSON.stringify(output.data, null, 2)}\n`);
+        break;
+      case 'geojson':
+        process.stdout.write(`${JSON.stringify(output.geojson, null, 2)}\n`);
+        break;
+      default:
+        process.stdout.write(output.rows.length > 0 ? `${formatTable(output.columns, output.rows)}\n` : 'No results\n');
+    }
+    return EXIT_CODES.OK;
+  } catch (error) {
+    if (error instanceof InvalidInputError) {
+      process.stderr.write(`error: ${error.message}\n`);
+    } else if (error instanceof ApiError) {
+      process.stderr.write(`error: ${error.getDetailedMessage()}\n`);
+    } else {
+      // Includes argument errors thrown by parseArgs
+      process.stderr.write(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+      return (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS') ? EXIT_CODES.INVALID_INPUT : EXIT_CODES.FAILURE;
+    }
+    return exitCode(error);
+  }
+}
@@ -0,0 +1,106 @@
+import { bbox, bearing, booleanPointInPolygon, buffer, lineChunk, lineString, nearestPointOnLine, point } from "@turf/turf";
+import { InvalidInputError } from "./error.js";
+
+export const CORRIDOR_CONFIG = {
+  CHUNK_LENGTH_NM: 100, // Route length covered by a single bbox query
+} as const;
+
+/** A route as a GeoJSON LineString or a list of [longitude, latitude] positions. */
+export type Route = GeoJSON.LineString | GeoJSON.Position[];
+
+/**
+ * Position of a point relative to a route.
+ *
+ * @property distanceAlong - Distance along the route from its start to the abeam point, in nautical miles.
+ * @property crossTrack - Offset from the route in nautical miles, positive right of track and negative left of track.
+ */
+export interface RoutePosition {
+  distanceAlong: number;
+  crossTrack: number;
+}
+
+/**
+ * Convert a route to a GeoJSON LineString feature.
+ *
+ * @param route - The route.
+ * @returns A LineString feature.
+ * @throws {InvalidInputError} If the route has fewer than two positions.
+ */
+export function routeLineString(route: Route): GeoJSON.Feature<GeoJSON.LineString> {
+  const coordinates = Array.isArray(route) ? route : route.coordinates;
+  if (!coordinates || coordinates.length < 2) {
+    throw new InvalidInputError('Route', 'Route must have at least two positions', 'route');
+  }
+  return lineString(coordinates.map((position) => [position[0], position[1]]));
+}
+
+/**
+ * Build the corridor polygon around a route.
+ *
+ * @param route - The route.
+ * @param widthNm - Total corridor width in nautical miles, half of it on either side of the route.
+ * @returns The corridor polygon.
+ * @throws {InvalidInputError} If the route is invalid or the width is not positive.
+ */
+export function corridorPolygon(route: Route, widthNm: number): GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon> {
+  if (!(widthNm > 0)) {
+    throw new InvalidInputError('Route', 'Corridor width must be a positive number', 'widthNm');
+  }
+
+  const corridor = buffer(routeLineString(route), widthNm / 2, { units: 'nauticalmiles' });
+  if (!corridor) {
+    throw new InvalidInputError('Route', 'Unable to build a corridor around the route', 'route');
+  }
+  return corridor;
+}
+
+/**
+ * Split the corridor around a route into bounding boxes of limited size.
+ *
+ * A single bbox around a long or diagonal route covers far more area than the
+ * corridor itself, so the route is cut into chunks that are each buffered on their own.
+ *
+ * @param route - The route.
+ * @param widthNm - Total corridor width in nautical miles.
+ * @param chunkNm - Route length per bounding box in nautical miles.
+ * @returns Bounding boxes [west, south, east, north] covering the corridor.
+ */
+export function corridorBboxes(route: Route, widthNm: number, chunkNm: number = CORRIDOR_CONFIG.CHUNK_LENGTH_NM): GeoJSON.BBox[] {
+  const chunks = lineChunk(routeLineString(route), chunkNm, { units: 'nauticalmiles' });
+  return chunks.features.map((chunk) => bbox(corridorPolygon(chunk.geometry, widthNm)));
+}
+
+/**
+ * Check whether a position lies within the corridor polygon.
+ *
+ * @param corridor - The corridor polygon.
+ * @param position - The position [longitude, latitude].
+ * @returns True if the position is inside the corridor.
+ */
+export function isInCorridor(corridor: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>, position: GeoJSON.Position): boolean {
+  return booleanPointInPolygon(point([position[0], position[1]]), corridor);
+}
+
+/**
+ * Locate a position relative to a route.
+ *
+ * @param route - The route.
+ * @param position - The position [longitude, latitude].
+ * @returns Distance along the route and signed cross-track offset in nautical miles.
+ */
+export function routePosition(route: Route, position: GeoJSON.Position): RoutePosition {
+  const line = routeLineString(route);
+  const target = point([position[0], position[1]]);
+  const nearest = nearestPointOnLine(line, target, { units: 'nauticalmiles' });
+
+  const coordinates = line.geometry.coordinates;
+  const segment = Math.min(nearest.properties.index, coordinates.length - 2);
+  const track = bearing(coordinates[segment], coordinates[segment + 1]);
+  const toTarget = bearing(nearest.geometry.coordinates, target);
+  const side = Math.sin((toTarget - track) * Math.PI / 180) < 0 ? -1 : 1;
+
+  return {
+    distanceAlong: nearest.properties.location,
+    crossTrack: side * nearest.properties.dist,
+  };
+}
@@ -1,4 +1,24 @@
+import { parseRetryAfter } from "./retry.js";
+import { type SchemaIssue } from "./schema.js";
+
+/**
+ * Stable error codes to switch on, independent of the error message.
+ */
+export type ApiErrorCode =
+  | 'API_ERROR'
+  | 'HTTP_STATUS'
+  | 'AUTHENTICATION'
+  | 'RATE_LIMIT'
+  | 'TIMEOUT'
+  | 'NETWORK'
+  | 'RESPONSE_PARSE'
+  | 'CIRCUIT_OPEN'
+  | 'SCHEMA_VALIDATION'
+  | 'INVALID_INPUT';
+
 export class ApiError extends Error {
+  readonly code: ApiErrorCode = 'API_ERROR';
+
   constructor(
     public readonly serviceName: string,
     public readonly endpoint: string,
@@ -27,3 +47,195 @@ export class ApiError extends Error {
     return details;
   }
 }
+
+/**
+ * The upstream service replied with a non-2xx HTTP status.
+ */
+export class HttpStatusError extends ApiError {
+  override readonly code: ApiErrorCode = 'HTTP_STATUS';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    public readonly status: number,
+    public readonly statusText: string,
+    public readonly headers: Headers = new Headers()
+  ) {
+    super(serviceName, endpoint, requestOptions, `HTTP ${status} - ${statusText}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * The upstream service rejected the credentials (HTTP 401 or 403), usually a bad API key.
+ */
+export class AuthenticationError extends HttpStatusError {
+  override readonly code: ApiErrorCode = 'AUTHENTICATION';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    status: number,
+    statusText: string,
+    headers?: Headers
+  ) {
+    super(serviceName, endpoint, requestOptions, status, statusText, headers);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The upstream service is rate limiting requests (HTTP 429).
+ */
+export class RateLimitError extends HttpStatusError {
+  override readonly code: ApiErrorCode = 'RATE_LIMIT';
+
+  /** Delay in milliseconds the service asked to wait, if it sent a Retry-After header. */
+  public readonly retryAfter?: number;
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    status: number,
+    statusText: string,
+    headers?: Headers
+  ) {
+    super(serviceName, endpoint, requestOptions, status, statusText, headers);
+    this.name = 'RateLimitError';
+    this.retryAfter = parseRetryAfter(this.headers.get('retry-after'));
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class TimeoutError extends ApiError {
+  override readonly code: ApiErrorCode = 'TIMEOUT';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    public readonly timeout: number,
+    cause?: Error | unknown
+  ) {
+    super(serviceName, endpoint, requestOptions, cause ?? `Request timed out after ${timeout} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request failed before a response was received, such as a DNS or connection failure.
+ */
+export class NetworkError extends ApiError {
+  override readonly code: ApiErrorCode = 'NETWORK';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions?: RequestInit & { timeout?: number; cf?: object },
+    cause?: Error | unknown
+  ) {
+    super(serviceName, endpoint, requestOptions, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The upstream service replied with a body that could not be parsed, such as HTML instead of JSON.
+ */
+export class ResponseParseError extends ApiError {
+  override readonly code: ApiErrorCode = 'RESPONSE_PARSE';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    public readonly contentType: string | null,
+    cause?: Error | unknown
+  ) {
+    super(serviceName, endpoint, requestOptions, cause);
+    this.name = 'ResponseParseError';
+  }
+}
+
+/**
+ * The upstream service replied with a record that does not match its declared schema.
+ */
+export class SchemaValidationError extends ApiError {
+  override readonly code: ApiErrorCode = 'SCHEMA_VALIDATION';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    public readonly index: number,
+    public readonly issues: SchemaIssue[]
+  ) {
+    super(serviceName, endpoint, requestOptions, `Record ${index} is invalid: ${issues.map((issue) => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join(', ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * The circuit breaker of the upstream host is open, the request was rejected without being sent.
+ */
+export class CircuitOpenError extends ApiError {
+  override readonly code: ApiErrorCode = 'CIRCUIT_OPEN';
+
+  constructor(
+    serviceName: string,
+    endpoint: string,
+    requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+    public readonly host: string,
+    public readonly retryAfter: number
+  ) {
+    super(serviceName, endpoint, requestOptions, `Circuit open for ${host}, retry after ${retryAfter} ms`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * The caller passed arguments that cannot be turned into a valid request.
+ */
+export class InvalidInputError extends ApiError {
+  override readonly code: ApiErrorCode = 'INVALID_INPUT';
+
+  constructor(
+    serviceName: string,
+    message: string,
+    public readonly parameter?: string
+  ) {
+    super(serviceName, '', undefined, message);
+    this.name = 'InvalidInputError';
+    this.message = `${serviceName}: ${message}`;
+  }
+}
+
+/**
+ * Create the matching error for a non-2xx response.
+ *
+ * @param serviceName - The name of the upstream service.
+ * @param endpoint - The requested URL.
+ * @param requestOptions - The request options.
+ * @param response - The failed response.
+ * @returns An AuthenticationError, RateLimitError or HttpStatusError.
+ */
+export function createHttpStatusError(
+  serviceName: string,
+  endpoint: string,
+  requestOptions: (RequestInit & { timeout?: number; cf?: object }) | undefined,
+  response: Response
+): HttpStatusError {
+  const { status, statusText, headers } = response;
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(serviceName, endpoint, requestOptions, status, statusText, headers);
+  }
+  if (status === 429) {
+    return new RateLimitError(serviceName, endpoint, requestOptions, status, statusText, headers);
+  }
+  return new HttpStatusError(serviceName, endpoint, requestOptions, status, statusText, headers);
+}
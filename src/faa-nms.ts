@@ -0,0 +1,615 @@
+import { ICAO, NotamType, NotamScope, NotamPriority, normalizeICAO, isICAO } from "flight-planner";
+import { createHttpStatusError, InvalidInputError, ResponseParseError } from "./error.js";
+import { icaoNotamToNotam, parseIcaoNotam, parseNotamLimit, parseQLine, IcaoNotamKind, type IcaoNotam } from "./icao-notam.js";
+import { decodeNotamText } from "./notam-decoder.js";
+import { bboxCircle, geometryCenter, notamGeometry, notamsAlongRoute, notamsInBbox, parseNotamGeometry, type CorridorNotam, type GeoNotam } from "./notam-geometry.js";
+import { corridorBboxes, type Route } from "./corridor.js";
+import { fetchApi, parseJsonResponse, type FetchApiOptions, type FetchFunction } from "./http.js";
+import { sha256, withCallOptions, type CacheOptions, type CallOptions } from "./cache.js";
+import { type RetryOptions } from "./retry.js";
+import { type CircuitBreaker } from "./circuit-breaker.js";
+import { withOperation, type HookOptions } from "./hooks.js";
+import { paginate, collect, type PaginationOptions } from "./pagination.js";
+import { schema, validateRecords, withWarnings, type Schema, type ValidatedResult, type ValidationOptions } from "./schema.js";
+import { type FAARawNotam, type NotamProvider, type NotamSearch } from "./faa-notam.js";
+
+const NMS_API_CONFIG = {
+  API_URL: 'https://api-nms.aim.faa.gov/nmsapi/v1/',
+  TOKEN_URL: 'https://api-nms.aim.faa.gov/v1/auth/token',
+  CACHE_TTL: 300, // 5 minutes
+  TIMEOUT: 10000, // 10 seconds
+  PAGE_SIZE: 1000,
+  MAX_PAGES: 10, // Default cap for paginated searches
+  DEFAULT_RADIUS_NM: 10,
+  TOKEN_REFRESH_MARGIN: 60, // Seconds before expiry at which a token is renewed
+} as const;
+
+/** Response format requested from the NMS API */
+export type NmsResponseFormat = 'GEOJSON' | 'AIXM';
+
+/**
+ * Options for the FAA NOTAM Management Service (NMS) API.
+ *
+ * NOTAM records failing the declared schema fail the request in strict validation mode and are
+ * skipped with a warning in lenient mode. Raw NOTAMs are returned as received.
+ *
+ * @property clientId - OAuth2 client ID issued by the FAA.
+ * @property clientSecret - OAuth2 client secret issued by the FAA.
+ * @property apiUrl - Base URL of the NMS API, e.g. to use the staging environment or a stub server.
+ * @property tokenUrl - URL of the OAuth2 token endpoint.
+ * @property format - Response format, GeoJSON by default.
+ */
+export interface NmsOptions extends ValidationOptions, HookOptions {
+  clientId: string;
+  clientSecret: string;
+  apiUrl?: string;
+  tokenUrl?: string;
+  format?: NmsResponseFormat;
+  fetcher?: FetchFunction;
+  cache?: CacheOptions;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
+  pagination?: PaginationOptions;
+}
+
+/** Fields of an NMS NOTAM, as found in the GeoJSON properties and the AIXM event extension */
+interface NmsNotamFields {
+  id?: string;
+  series?: string;
+  number?: string;
+  year?: string;
+  type?: string;
+  issued?: string;
+  affectedFIR?: string;
+  selectionCode?: string;
+  traffic?: string;
+  purpose?: string;
+  scope?: string;
+  minimumFL?: string;
+  maximumFL?: string;
+  location?: string;
+  icaoLocation?: string;
+  coordinates?: string;
+  radius?: string;
+  effectiveStart?: string;
+  effectiveEnd?: string;
+  schedule?: string;
+  text?: string;
+  lowerLimit?: string;
+  upperLimit?: string;
+}
+
+const NMS_FIELDS: Array<keyof NmsNotamFields> = [
+  'id', 'series', 'number', 'year', 'type', 'issued', 'affectedFIR', 'selectionCode', 'traffic', 'purpose', 'scope',
+  'minimumFL', 'maximumFL', 'location', 'icaoLocation', 'coordinates', 'radius', 'effectiveStart', 'effectiveEnd',
+  'schedule', 'text', 'lowerLimit', 'upperLimit',
+];
+
+interface NmsTranslation {
+  type?: string;
+  formattedText?: string;
+}
+
+interface NmsFeature {
+  geometry?: unknown;
+  properties?: {
+    coreNOTAMData?: {
+      notam?: NmsNotamFields;
+      notamTranslation?: NmsTranslation[];
+    };
+  };
+}
+
+/** An NMS NOTAM, a GeoJSON feature or an object holding the AIXM message */
+export type NmsNotamRecord = { aixm: string } | NmsFeature;
+
+const nmsNotamFieldsSchema = schema.object(
+  Object.fromEntries(NMS_FIELDS.map((name) => [name, schema.optional(schema.string())]))
+) as Schema<NmsNotamFields>;
+
+export const nmsNotamRecordSchema: Schema<NmsNotamRecord> = schema.refine(
+  schema.union(
+    schema.object({ aixm: schema.string({ nonEmpty: true }) }),
+    schema.object({
+      geometry: schema.unknown(),
+      properties: schema.object({
+        coreNOTAMData: schema.object({
+          notam: nmsNotamFieldsSchema,
+          notamTranslation: schema.optional(schema.array(schema.object({
+            type: schema.optional(schema.string()),
+            formattedText: schema.optional(schema.string()),
+          }))),
+        }),
+      }),
+    })
+  ),
+  (notam) => {
+    const { fields, icaoText } = nmsNotamParts(notam);
+    return fields.text || icaoText ? undefined : 'Expected a NOTAM text or ICAO translation';
+  }
+);
+
+interface NmsResponse {
+  data?: {
+    geojson?: NmsFeature[];
+    aixm?: string[];
+  };
+  totalCount?: number;
+  totalPages?: number;
+}
+
+interface NmsToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/** Tokens per token endpoint, client and secret, shared by all providers using the same credentials */
+const tokens = new Map<string, Promise<NmsToken>>();
+
+/**
+ * Request an access token with the OAuth2 client credentials grant.
+ *
+ * @throws {AuthenticationError} If the credentials are rejected.
+ * @throws {ResponseParseError} If the reply has no access token.
+ */
+async function requestToken(options: NmsOptions): Promise<NmsToken> {
+  const { fetcher = fetch, retry, circuitBreaker, hooks, operation } = options;
+  const endpoint = options.tokenUrl ?? NMS_API_CONFIG.TOKEN_URL;
+  const apiOptions: FetchApiOptions = {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${options.clientId}:${options.clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+    service: 'FAA NMS',
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
+    idempotent: true, // Requesting a token has no side effects
+    timeout: NMS_API_CONFIG.TIMEOUT
+  };
+
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw createHttpStatusError('FAA NMS', endpoint, apiOptions, response);
+  }
+
+  const data = await parseJsonResponse<{ access_token?: string; expires_in?: number | string }>(response, 'FAA NMS', endpoint, apiOptions);
+  if (!data?.access_token) {
+    throw new ResponseParseError('FAA NMS', endpoint, apiOptions, response.headers.get('content-type'), 'Token response has no access_token');
+  }
+
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (Number.isFinite(expiresIn) ? expiresIn * 1000 : 0),
+  };
+}
+
+/**
+ * Identity of the client, stable across access tokens.
+ */
+function clientIdentity(options: NmsOptions): string {
+  return `${options.tokenUrl ?? NMS_API_CONFIG.TOKEN_URL}|${options.clientId}`;
+}
+
+/**
+ * Get a valid access token, requesting a new one when none is cached or it is about to expire.
+ *
+ * @param options - The NMS options with the client credentials.
+ * @param renew - Request a new token even if the cached one has not expired, e.g. after it was rejected.
+ * @returns The access token.
+ */
+async function getAccessToken(options: NmsOptions, renew: boolean = false): Promise<string> {
+  // The secret is part of the key, so a rotated secret does not reuse a token issued under the old one
+  const key = `${clientIdentity(options)}|${await sha256(options.clientSecret)}`;
+
+  const cached = renew ? undefined : tokens.get(key);
+  if (cached) {
+    const token = await cached.catch(() => undefined);
+    if (token && token.expiresAt - NMS_API_CONFIG.TOKEN_REFRESH_MARGIN * 1000 > Date.now()) {
+      return token.accessToken;
+    }
+  }
+
+  const pending = requestToken(options);
+  tokens.set(key, pending);
+  try {
+    return (await pending).accessToken;
+  } catch (error) {
+    if (tokens.get(key) === pending) {
+      tokens.delete(key);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Core API request function
+ *
+ * A rejected token is renewed once before the request fails.
+ *
+ * @param params - Query parameters of the NOTAM request
+ * @param options - Provider options including credentials, custom fetcher and response cache
+ * @returns Promise resolving to the raw API response
+ * @throws {ApiError} Will throw an ApiError subclass if the API request fails or returns invalid JSON.
+ */
+async function baseApiRaw(params: URLSearchParams, options: NmsOptions): Promise<NmsResponse> {
+  const { fetcher = fetch, cache, retry, circuitBreaker, hooks, operation, format = 'GEOJSON' } = options;
+  const endpoint = `${options.apiUrl ?? NMS_API_CONFIG.API_URL}notams?${params}`;
+
+  const request = async (renew: boolean): Promise<[Response, FetchApiOptions]> => {
+    const apiOptions: FetchApiOptions = {
+      headers: {
+        'Authorization': `Bearer ${await getAccessToken(options, renew)}`,
+        'nmsResponseFormat': format,
+      },
+      service: 'FAA NMS',
+      responseCache: cache ? { ...cache, ttl: cache.ttl ?? NMS_API_CONFIG.CACHE_TTL } : undefined,
+      retry,
+      circuitBreaker,
+      hooks,
+      operation,
+      dedupe: true,
+      credentialIdentity: clientIdentity(options), // Cached responses outlive the access token
+      timeout: NMS_API_CONFIG.TIMEOUT
+    };
+    return [await fetchApi(fetcher, endpoint, apiOptions), apiOptions];
+  };
+
+  let [response, apiOptions] = await request(false);
+  if (response.status === 401) {
+    await response.body?.cancel();
+    [response, apiOptions] = await request(true);
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw createHttpStatusError('FAA NMS', endpoint, apiOptions, response);
+  }
+
+  return await parseJsonResponse<NmsResponse>(response, 'FAA NMS', endpoint, apiOptions);
+}
+
+/**
+ * Read the NOTAM fields from an AIXM 5.1 event message.
+ */
+function aixmFields(xml: string): { fields: NmsNotamFields; geometry?: GeoJSON.Geometry } {
+  const fields: NmsNotamFields = {};
+  for (const name of NMS_FIELDS) {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`));
+    if (match) {
+      fields[name] = match[1]
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+    }
+  }
+
+  // GML positions are latitude first
+  const position = xml.match(/<gml:pos[^>]*>\s*([-+\d.]+)\s+([-+\d.]+)\s*<\/gml:pos>/);
+  const geometry = position ? parseNotamGeometry([parseFloat(position[2]), parseFloat(position[1])]) : undefined;
+  return { fields, geometry };
+}
+
+/**
+ * Parse an NMS date (ISO 8601, optionally suffixed with EST).
+ */
+function parseNmsDate(value: string | undefined): Date | undefined {
+  if (!value || value === 'PERM') {
+    return undefined;
+  }
+  const date = new Date(value.replace(/EST$/, ''));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Build an ICAO NOTAM from the structured NMS fields, for NOTAMs without ICAO translation.
+ */
+function fieldsToIcaoNotam(fields: NmsNotamFields): IcaoNotam {
+  const code = fields.selectionCode && /^[A-Z]{4}$/.test(fields.selectionCode) ? `Q${fields.selectionCode}` : fields.selectionCode;
+  const qLine = code
+    ? parseQLine([
+      fields.affectedFIR ?? '', code, fields.traffic ?? '', fields.purpose ?? '', fields.scope ?? '',
+      fields.minimumFL ?? '', fields.maximumFL ?? '', `${fields.coordinates ?? ''}${fields.radius ?? ''}`
+    ].join('/'))
+    : undefined;
+
+  const issued = parseNmsDate(fields.issued);
+  const year = parseInt(fields.year ?? '', 10) || issued?.getUTCFullYear() || 0;
+  const number = parseInt(fields.number ?? '', 10) || 0;
+  const id = fields.number?.includes('/')
+    ? fields.number
+    : `${fields.series ?? ''}${String(number).padStart(4, '0')}/${String(year % 100).padStart(2, '0')}`;
+
+  const location = fields.icaoLocation ?? fields.location;
+  return {
+    id,
+    series: fields.series ?? '',
+    number,
+    year,
+    kind: fields.type === 'R' ? IcaoNotamKind.Replace : fields.type === 'C' ? IcaoNotamKind.Cancel : IcaoNotamKind.New,
+    qLine,
+    locations: location ? [location] : [],
+    validFrom: parseNmsDate(fields.effectiveStart),
+    validUntil: parseNmsDate(fields.effectiveEnd),
+    estimated: fields.effectiveEnd?.endsWith('EST') || undefined,
+    permanent: fields.effectiveEnd === 'PERM' || undefined,
+    schedule: fields.schedule || undefined,
+    text: fields.text ?? '',
+    lowerLimit: fields.lowerLimit ? parseNotamLimit(fields.lowerLimit) : undefined,
+    upperLimit: fields.upperLimit ? parseNotamLimit(fields.upperLimit) : undefined,
+    raw: '',
+  };
+}
+
+/**
+ * Read the fields, geometry and ICAO text of a raw NMS NOTAM.
+ */
+function nmsNotamParts(notam: NmsNotamRecord): { fields: NmsNotamFields; geometry?: GeoJSON.Geometry; icaoText?: string } {
+  if ('aixm' in notam && typeof notam.aixm === 'string') {
+    return aixmFields(notam.aixm);
+  }
+
+  const feature = notam as NmsFeature;
+  const core = feature.properties?.coreNOTAMData;
+  return {
+    fields: core?.notam ?? {},
+    geometry: parseNotamGeometry(feature.geometry),
+    icaoText: core?.notamTranslation?.find((translation) => translation.type === 'ICAO')?.formattedText,
+  };
+}
+
+/**
+ * Transform an NMS NOTAM to standard Notam format
+ *
+ * The ICAO translation is parsed when present, otherwise the structured fields are used. The
+ * text is kept verbatim next to its decoded form.
+ *
+ * @param notam - Raw NMS NOTAM, a GeoJSON feature or an AIXM message
+ * @returns Transformed Notam object
+ */
+function transformNmsNotam(notam: NmsNotamRecord): GeoNotam {
+  const { fields, geometry, icaoText } = nmsNotamParts(notam);
+  const issued = parseNmsDate(fields.issued);
+  const icaoNotam = (icaoText ? parseIcaoNotam(icaoText) : undefined) ?? fieldsToIcaoNotam(fields);
+  const parsed = icaoNotamToNotam(icaoNotam, issued);
+  const center = geometry ? geometryCenter(geometry) : undefined;
+  const decodedText = decodeNotamText(fields.text || parsed.text);
+
+  const result: GeoNotam = {
+    ...parsed,
+    icao: fields.icaoLocation && isICAO(fields.icaoLocation) ? normalizeICAO(fields.icaoLocation) : parsed.icao,
+    type: icaoNotam.qLine ? parsed.type : NotamType.A,
+    scope: icaoNotam.qLine ? parsed.scope : NotamScope.A,
+    priority: icaoNotam.qLine ? parsed.priority : NotamPriority.NORMAL,
+    text: decodedText.decoded,
+    coordinates: center ? { latitude: center[1], longitude: center[0], radius: parsed.coordinates?.radius } : parsed.coordinates,
+    schedule: {
+      ...parsed.schedule,
+      effectiveFrom: parseNmsDate(fields.effectiveStart) ?? parsed.schedule.effectiveFrom,
+      effectiveUntil: parseNmsDate(fields.effectiveEnd) ?? parsed.schedule.effectiveUntil,
+    },
+    raw: icaoText ?? fields.text ?? '',
+    decodedText,
+  };
+  return { ...result, geometry: notamGeometry({ ...result, geometry }) };
+}
+
+/**
+ * Validate and transform raw NMS NOTAMs.
+ */
+function transformNmsNotams(notams: FAARawNotam[], options: NmsOptions): GeoNotam[] {
+  const endpoint = `${options.apiUrl ?? NMS_API_CONFIG.API_URL}notams`;
+  return validateRecords(notams, nmsNotamRecordSchema, transformNmsNotam, { service: 'FAA NMS', endpoint, options });
+}
+
+/**
+ * Key identifying a raw NMS NOTAM, used to remove duplicates returned for several designators.
+ */
+function rawNotamKey(notam: FAARawNotam): string {
+  const { fields } = nmsNotamParts(notam as NmsNotamRecord);
+  return fields.id ?? `${fields.number ?? ''}|${fields.text ?? ''}`;
+}
+
+/**
+ * Build the query parameters of each request needed for a search.
+ *
+ * @throws {InvalidInputError} If the search has no designators, an invalid location, or is a flight path search.
+ */
+function searchQueries(search: NotamSearch): URLSearchParams[] {
+  switch (search.type) {
+    case 'location': {
+      const designators = search.designators.map((designator) => designator.trim().toUpperCase()).filter(Boolean);
+      if (designators.length === 0) {
+        throw new InvalidInputError('FAA NMS', "At least one designator is required", 'designators');
+      }
+      return [...new Set(designators)].map((location) => new URLSearchParams({ location }));
+    }
+    case 'point': {
+      const [longitude, latitude] = search.location;
+      if (search.location.length < 2 || !(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+        throw new InvalidInputError('FAA NMS', "Location must be a valid [longitude, latitude] coordinate", 'location');
+      }
+      return [new URLSearchParams({
+        latitude: String(latitude),
+        longitude: String(longitude),
+        radius: String(search.radius ?? NMS_API_CONFIG.DEFAULT_RADIUS_NM),
+      })];
+    }
+    case 'flightPath':
+      throw new InvalidInputError('FAA NMS', "Flight path searches are not supported by the NMS API, use getByCorridor", 'route');
+  }
+}
+
+/**
+ * Iterate over raw NMS NOTAMs matching a search, fetching pages as needed.
+ *
+ * Location searches for several designators send one request per designator, NOTAMs
+ * returned more than once are only yielded once. The radius of location searches is not
+ * supported by the NMS API and is ignored.
+ *
+ * @param search - The search.
+ * @param options - NMS options including credentials and pagination limits
+ * @returns An async iterator of raw NOTAMs, GeoJSON features or objects holding the AIXM message.
+ * @throws {InvalidInputError} If the search is invalid.
+ */
+export async function* iterateRawNmsNotams(search: NotamSearch, options: NmsOptions): AsyncGenerator<FAARawNotam, void, undefined> {
+  const queries = searchQueries(search);
+  const seen = new Set<string>();
+
+  for (const query of queries) {
+    const pages = paginate(async (page) => {
+      const params = new URLSearchParams(query);
+      params.set('pageSize', String(NMS_API_CONFIG.PAGE_SIZE));
+      params.set('pageNum', String(page));
+      const data = await baseApiRaw(params, options);
+
+      const items: FAARawNotam[] = Array.isArray(data?.data?.aixm)
+        ? data.data.aixm.map((aixm) => ({ aixm }))
+        : Array.isArray(data?.data?.geojson) ? data.data.geojson as FAARawNotam[] : [];
+      const hasMore = typeof data?.totalPages === 'number'
+        ? page < data.totalPages
+        : items.length >= NMS_API_CONFIG.PAGE_SIZE;
+      return { items, hasMore: hasMore && items.length > 0 };
+    }, { maxPages: NMS_API_CONFIG.MAX_PAGES, ...options.pagination });
+
+    for await (const notam of pages) {
+      const key = rawNotamKey(notam);
+      if (!seen.has(key)) {
+        seen.add(key);
+        yield notam;
+      }
+    }
+  }
+}
+
+/**
+ * Search raw NMS NOTAMs without transformation.
+ *
+ * @param search - The search.
+ * @param options - NMS options including credentials and pagination limits
+ * @returns Promise resolving to an array of raw NOTAMs.
+ * @throws {InvalidInputError} If the search is invalid.
+ */
+export async function searchRawNmsNotams(search: NotamSearch, options: NmsOptions): Promise<FAARawNotam[]> {
+  return collect(iterateRawNmsNotams(search, options));
+}
+
+/**
+ * Search NMS NOTAMs by location designators or position.
+ *
+ * @param search - The search.
+ * @param options - NMS options including credentials and pagination limits
+ * @returns Promise resolving to an array of NOTAM objects.
+ * @throws {InvalidInputError} If the search is invalid.
+ */
+export async function searchNmsNotams(search: NotamSearch, options: NmsOptions): Promise<ValidatedResult<GeoNotam>> {
+  return withWarnings(options, async (options) => transformNmsNotams(await searchRawNmsNotams(search, options), options));
+}
+
+/**
+ * Get NMS NOTAMs for a specific ICAO code.
+ *
+ * @param icao - ICAO airport code.
+ * @param options - NMS options including credentials
+ * @returns Promise resolving to an array of NOTAM objects.
+ */
+export async function getNmsNotamsByIcao(icao: ICAO, options: NmsOptions): Promise<ValidatedResult<GeoNotam>> {
+  return searchNmsNotams({ type: 'location', designators: [icao] }, options);
+}
+
+/**
+ * Get NMS NOTAMs whose area of influence intersects a bounding box.
+ *
+ * @param bbox - The bounding box [west, south, east, north].
+ * @param options - NMS options including credentials
+ * @returns Promise resolving to an array of NOTAM objects.
+ */
+export async function getNmsNotamsByBbox(bbox: GeoJSON.BBox, options: NmsOptions): Promise<ValidatedResult<GeoNotam>> {
+  const { center, radius } = bboxCircle(bbox);
+  return withWarnings(options, async (options) => notamsInBbox(await searchNmsNotams({ type: 'point', location: center, radius }, options), bbox));
+}
+
+/**
+ * Get NMS NOTAMs whose area of influence intersects the corridor around a route.
+ *
+ * @param route - GeoJSON LineString or array of positions [longitude, latitude].
+ * @param widthNm - Total corridor width in nautical miles.
+ * @param options - NMS options including credentials
+ * @returns Promise resolving to an array of NOTAMs with distance along the route and cross-track offset, in flight order.
+ * @throws {InvalidInputError} If the route or width is invalid.
+ */
+export async function getNmsNotamsByCorridor(route: Route, widthNm: number, options: NmsOptions): Promise<ValidatedResult<CorridorNotam>> {
+  const bboxes = corridorBboxes(route, widthNm);
+
+  return withWarnings(options, async (options) => {
+    const results = await Promise.all(bboxes.map((bbox) => {
+      const { center, radius } = bboxCircle(bbox);
+      return searchRawNmsNotams({ type: 'point', location: center, radius }, options);
+    }));
+
+    const notams = new Map<string, FAARawNotam>();
+    for (const notam of results.flat()) {
+      notams.set(rawNotamKey(notam), notam);
+    }
+    return notamsAlongRoute(transformNmsNotams([...notams.values()], options), route, widthNm);
+  });
+}
+
+/**
+ * Get the raw NMS NOTAM with a specific NMS ID.
+ *
+ * @param transactionId - The numeric NMS ID.
+ * @param options - NMS options including credentials
+ * @returns Promise resolving to the raw NOTAM or null if not found.
+ */
+export async function getRawNmsNotamByTransactionId(transactionId: number, options: NmsOptions): Promise<FAARawNotam | null> {
+  const data = await baseApiRaw(new URLSearchParams({ nmsId: String(transactionId) }), options);
+  const aixm = data?.data?.aixm?.[0];
+  const feature = data?.data?.geojson?.[0];
+  return aixm ? { aixm } : feature ? feature as FAARawNotam : null;
+}
+
+/**
+ * Get the NMS NOTAM with a specific NMS ID.
+ *
+ * @param transactionId - The numeric NMS ID.
+ * @param options - NMS options including credentials
+ * @returns Promise resolving to a single NOTAM object or null if not found.
+ */
+export async function getNmsNotamByTransactionId(transactionId: number, options: NmsOptions): Promise<GeoNotam | null> {
+  const notam = await getRawNmsNotamByTransactionId(transactionId, options);
+  const [result] = notam ? transformNmsNotams([notam], options) : [];
+  return result ?? null;
+}
+
+/**
+ * FAA NOTAM Management Service (NMS) Provider
+ *
+ * Implements the same interface as the FAA NOTAM search provider, so either source can be
+ * configured. Flight path searches are not supported by the NMS API.
+ *
+ * @param options - NMS options including the OAuth2 client credentials
+ * @returns Object with methods to get NOTAMs by ICAO, area, route corridor, search or NMS ID
+ */
+export default function nmsNotamProvider(options: NmsOptions): NotamProvider {
+  const callOptions = (operation: string, call?: CallOptions): NmsOptions => withCallOptions(withOperation(options, 'notam-nms', operation), call);
+
+  return {
+    getByIcao: (icao: ICAO, call?: CallOptions) => getNmsNotamsByIcao(icao, callOptions('getByIcao', call)),
+    getByBbox: (bbox: GeoJSON.BBox, call?: CallOptions) => getNmsNotamsByBbox(bbox, callOptions('getByBbox', call)),
+    getByCorridor: (route: Route, widthNm: number, call?: CallOptions) => getNmsNotamsByCorridor(route, widthNm, callOptions('getByCorridor', call)),
+    search: (search: NotamSearch, call?: CallOptions) => searchNmsNotams(search, callOptions('search', call)),
+    searchRaw: (search: NotamSearch, call?: CallOptions) => searchRawNmsNotams(search, callOptions('searchRaw', call)),
+    getByTransactionId: (transactionId: number, call?: CallOptions) => getNmsNotamByTransactionId(transactionId, callOptions('getByTransactionId', call)),
+    getRawByIcao: (icao: ICAO, call?: CallOptions) => searchRawNmsNotams({ type: 'location', designators: [icao] }, callOptions('getRawByIcao', call)),
+    getRawByTransactionId: (transactionId: number, call?: CallOptions) => getRawNmsNotamByTransactionId(transactionId, callOptions('getRawByTransactionId', call)),
+  };
+}
@@ -1,22 +1,107 @@
-import { ICAO, Notam, NotamType, NotamScope, NotamPriority, normalizeICAO, isICAO } from "flight-planner";
-import { ApiError } from "./error.js";
-import { fetchApi, type FetchFunction } from "./http.js";
+import { ICAO, NotamType, NotamScope, NotamPriority, normalizeICAO, isICAO } from "flight-planner";
+import { createHttpStatusError, InvalidInputError, ResponseParseError } from "./error.js";
+import { icaoNotamToNotam, parseIcaoNotam } from "./icao-notam.js";
+import { decodeNotamText } from "./notam-decoder.js";
+import { bboxCircle, geometryCenter, notamGeometry, notamsAlongRoute, notamsInBbox, parseNotamGeometry, type CorridorNotam, type GeoNotam } from "./notam-geometry.js";
+import { corridorBboxes, type Route } from "./corridor.js";
+import { fetchApi, parseJsonResponse, type FetchApiOptions, type FetchFunction } from "./http.js";
+import { withCallOptions, type CacheOptions, type CallOptions } from "./cache.js";
+import { type RetryOptions } from "./retry.js";
+import { type CircuitBreaker } from "./circuit-breaker.js";
+import { paginate, collect, type PaginationOptions } from "./pagination.js";
+import { withOperation, type HookOptions } from "./hooks.js";
+import { schema, validateRecords, withWarnings, type Schema, type ValidatedResult, type ValidationOptions } from "./schema.js";
 
 const FAA_API_CONFIG = {
   API_URL: 'https://notams.aim.faa.gov/notamSearch/',
   CACHE_TTL: 3600 * 24, // 24 hours
   TIMEOUT: 5000, // 5 seconds
+  DEFAULT_RADIUS_NM: 10,
+  FLIGHT_PATH_BUFFER_NM: 4,
+  PAGE_SIZE: 30, // Results per search page, fixed by the FAA
+  MAX_PAGES: 50, // Default cap for paginated searches
+  SEARCH_TYPE_LOCATION: 0,
+  SEARCH_TYPE_LAT_LON: 3,
+  SEARCH_TYPE_FLIGHT_PATH: 6,
 } as const;
 
-export interface FAANotamOptions {
+/**
+ * FAA NOTAM provider options.
+ *
+ * NOTAM records failing the declared schema fail the request in strict validation mode and are
+ * skipped with a warning in lenient mode. Raw NOTAMs are returned as received.
+ *
+ * The NOTAM search is a POST, so it is only retried when the retry policy opts in with
+ * `retryNonIdempotent: true`.
+ */
+export interface FAANotamOptions extends ValidationOptions, HookOptions {
   fetcher?: FetchFunction;
+  cache?: CacheOptions;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
+  pagination?: PaginationOptions;
 }
 
+/**
+ * FAA NOTAM search.
+ *
+ * - `location` searches one or more location designators (aerodromes, FIRs/ARTCCs), within a radius in nautical miles.
+ * - `point` searches around a [longitude, latitude] position, within a radius in nautical miles.
+ * - `flightPath` searches along a route of designators, within a buffer in nautical miles either side.
+ */
+export type NotamSearch =
+  | { type: 'location'; designators: string[]; radius?: number }
+  | { type: 'point'; location: GeoJSON.Position; radius?: number }
+  | { type: 'flightPath'; route: string[]; buffer?: number };
+
+/** A NOTAM record as returned by the FAA NOTAM search */
+export type FAARawNotam = Record<string, unknown>;
+
+/**
+ * FAA NOTAM record, limited to the fields used.
+ */
+export interface FAANotamRecord {
+  notamNumber?: string;
+  icaoId?: string;
+  icaoMessage?: string;
+  traditionalMessage?: string;
+  traditionalMessageFrom4thWord?: string;
+  issueDate?: string;
+  startDate?: string;
+  endDate?: string;
+  source?: string;
+  notamGeometry?: unknown;
+  mapPointer?: unknown;
+}
+
+export const faaNotamRecordSchema: Schema<FAANotamRecord> = schema.refine(
+  schema.object({
+    notamNumber: schema.optional(schema.string()),
+    icaoId: schema.optional(schema.string()),
+    icaoMessage: schema.optional(schema.string()),
+    traditionalMessage: schema.optional(schema.string()),
+    traditionalMessageFrom4thWord: schema.optional(schema.string()),
+    issueDate: schema.optional(schema.string()),
+    startDate: schema.optional(schema.string()),
+    endDate: schema.optional(schema.string()),
+    source: schema.optional(schema.string()),
+    notamGeometry: schema.unknown(),
+    mapPointer: schema.unknown(),
+  }),
+  (notam) => notam.icaoMessage || notam.traditionalMessageFrom4thWord || notam.traditionalMessage
+    ? undefined
+    : 'Expected an ICAO or traditional message'
+);
+
 export interface NotamProvider {
-  getByIcao(icao: ICAO): Promise<Notam[]>;
-  getByTransactionId(transactionId: number): Promise<Notam | null>;
-  getRawByIcao(icao: ICAO): Promise<any[]>;
-  getRawByTransactionId(transactionId: number): Promise<any>;
+  getByIcao(icao: ICAO, call?: CallOptions): Promise<ValidatedResult<GeoNotam>>;
+  getByBbox(bbox: GeoJSON.BBox, call?: CallOptions): Promise<ValidatedResult<GeoNotam>>;
+  getByCorridor(route: Route, widthNm: number, call?: CallOptions): Promise<ValidatedResult<CorridorNotam>>;
+  search(search: NotamSearch, call?: CallOptions): Promise<ValidatedResult<GeoNotam>>;
+  searchRaw(search: NotamSearch, call?: CallOptions): Promise<FAARawNotam[]>;
+  getByTransactionId(transactionId: number, call?: CallOptions): Promise<GeoNotam | null>;
+  getRawByIcao(icao: ICAO, call?: CallOptions): Promise<FAARawNotam[]>;
+  getRawByTransactionId(transactionId: number, call?: CallOptions): Promise<FAARawNotam | null>;
 }
 
 /**
@@ -25,7 +110,7 @@ export interface NotamProvider {
  * @param dateString - Date string in format "09/11/2025 1707" (assumed UTC)
  * @returns Parsed Date object in UTC or undefined if invalid
  */
-function parseNotamDate(dateString: string): Date | undefined {
+function parseNotamDate(dateString?: string): Date | undefined {
   if (!dateString) {
     return undefined;
   }
@@ -49,256 +134,289 @@ function parseNotamDate(dateString: string): Date | undefined {
   ));
 }
 
-/**
- * Parse WKT POINT format or array string to coordinates object
- *
- * @param pointString - WKT point string in format "POINT(longitude latitude)" or array string "[-73.7816305555556,40.6494194444444]"
- * @returns Coordinates object with latitude and longitude or undefined if invalid
- */
-function parsePoint(pointString: string): { latitude: number; longitude: number } | undefined {
-  if (!pointString) {
-    return undefined;
-  }
-
-  // Try to parse as array string format: "[-73.7816305555556,40.6494194444444]"
-  const arrayMatch = pointString.match(/^\[([+-]?\d*\.?\d+),([+-]?\d*\.?\d+)\]$/);
-  if (arrayMatch) {
-    const [, longitude, latitude] = arrayMatch;
-    const lon = parseFloat(longitude);
-    const lat = parseFloat(latitude);
-
-    // Validate coordinate ranges
-    if (isNaN(lon) || isNaN(lat) || lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-      return undefined;
-    }
-
-    return {
-      latitude: lat,
-      longitude: lon
-    };
-  }
-
-  // Try to parse as WKT POINT format: POINT(longitude latitude)
-  const wktMatch = pointString.match(/^POINT\(([+-]?\d*\.?\d+)\s+([+-]?\d*\.?\d+)\)$/);
-  if (wktMatch) {
-    const [, longitude, latitude] = wktMatch;
-    const lon = parseFloat(longitude);
-    const lat = parseFloat(latitude);
-
-    // Validate coordinate ranges
-    if (isNaN(lon) || isNaN(lat) || lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-      return undefined;
-    }
-
-    return {
-      latitude: lat,
-      longitude: lon
-    };
-  }
-
-  return undefined;
-}
-
-/**
- * Replace newlines with spaces, trim whitespace, and expand common NOTAM abbreviations
- *
- * @param text - Input text
- * @returns Processed text with expanded abbreviations
- */
-function parseText(text: string): string {
-  if (!text) {
-    return '';
-  }
-
-  let processedText = text.replace(/\n/g, ' ').trim();
-
-  const abbreviations: Record<string, string> = {
-    // Airport/Airfield
-    'AD': 'AERODROME',
-    'AFTN': 'AERONAUTICAL FIXED TELECOMMUNICATION NETWORK',
-    'AGL': 'ABOVE GROUND LEVEL',
-    'AMSL': 'ABOVE MEAN SEA LEVEL',
-    'APCH': 'APPROACH',
-    'APT': 'AIRPORT',
-    'ARPT': 'AIRPORT',
-
-    // Air Traffic Control
-    'TWR': 'TOWER',
-    'GND': 'GROUND',
-    'APP': 'APPROACH',
-    'DEP': 'DEPARTURE',
-
-    // Runway/Taxiway
-    'RWY': 'RUNWAY',
-    'TWY': 'TAXIWAY',
-    'TKOF': 'TAKEOFF',
-    'LDG': 'LANDING',
-    'CLSD': 'CLOSED',
-    'AVBL': 'AVAILABLE',
-    'REQ': 'REQUEST',
-    'BTN': 'BETWEEN',
-
-    // Time/Duration
-    'LCL': 'LOCAL',
-    'FM': 'FROM',
-    'TIL': 'UNTIL',
-    'PERM': 'PERMANENT',
-    'TEMP': 'TEMPORARY',
-    'DLY': 'DAILY',
-    'WEF': 'WITH EFFECT FROM',
-    'APPX': 'APPROXIMATELY',
-
-    // Weather/Conditions
-    'WX': 'WEATHER',
-    'VIS': 'VISIBILITY',
-    'OBSCN': 'OBSCURATION',
-    'FG': 'FOG',
-    'BR': 'MIST',
-    'RA': 'RAIN',
-    'SN': 'SNOW',
-    'TS': 'THUNDERSTORM',
-
-    // Operations
-    'OPR': 'OPERATE/OPERATING',
-    'OPNL': 'OPERATIONAL',
-    'INOP': 'INOPERATIVE',
-    'U/S': 'UNSERVICEABLE',
-    'MAINT': 'MAINTENANCE',
-    'CONST': 'CONSTRUCTION',
-    'WIP': 'WORK IN PROGRESS',
-    'OBST': 'OBSTACLE',
-
-    // Equipment/Systems
-    'EQPT': 'EQUIPMENT',
-    'SYS': 'SYSTEM',
-    'PWR': 'POWER',
-    'ELEC': 'ELECTRICAL',
-    'LGTG': 'LIGHTING',
-    'REIL': 'RUNWAY END IDENTIFIER LIGHTS',
-    'LGTD': 'LIGHTED',
-
-    // Military/Restricted
-    'MIL': 'MILITARY',
-
-    // Common operational terms
-    'ACFT': 'AIRCRAFT',
-    'ALT': 'ALTITUDE',
-    'FL': 'FLIGHT LEVEL',
-    'FT': 'FEET',
-    'NM': 'NAUTICAL MILES',
-    'KT': 'KNOTS',
-    'DEG': 'DEGREES',
-    'MAG': 'MAGNETIC',
-    'TRUE': 'TRUE',
-    'VAR': 'VARIATION',
-
-    // Communications
-    'FREQ': 'FREQUENCY',
-    'MHZ': 'MEGAHERTZ',
-    'KHZ': 'KILOHERTZ',
-    'COM': 'COMMUNICATION',
-    'RAD': 'RADIO',
-    'TEL': 'TELEPHONE'
-  };
-
-  for (const [abbrev, expansion] of Object.entries(abbreviations)) {
-    const regex = new RegExp(`\\b${abbrev}\\b`, 'gi');
-    processedText = processedText.replace(regex, expansion);
-  }
-
-  return processedText.replace(/\s+/g, ' ').trim().toLocaleUpperCase();
-}
-
 /**
  * Transform FAA NOTAM data to standard Notam format
  *
+ * Classification, Q-line and items A-G are taken from the ICAO message when it can be parsed.
+ * The raw message is the ICAO message, or the domestic message when there is none, and the
+ * text is kept verbatim next to its decoded form. The FAA geometry is kept as GeoJSON, a point
+ * being widened to the Q-line circle.
+ *
  * @param notam - Raw FAA NOTAM data object
  * @returns Transformed Notam object
  */
-function transformNotamData(notam: any): Notam {
-  return {
-    id: notam.notamNumber || '',
-    icao: isICAO(notam.icaoId) ? normalizeICAO(notam.icaoId) : undefined,
-    type: NotamType.A, // FAA NOTAMs are typically all "A" type
-    scope: NotamScope.A, // Assume all are "A" scope for simplicity
-    priority: NotamPriority.NORMAL, // Default to normal priority
-    subject: '', // FAA NOTAMs do not have a distinct subject field
-    text: parseText(notam.traditionalMessageFrom4thWord || notam.traditionalMessage || notam.icaoMessage), // TODO: Rename to message. Make optional in interface
-    coordinates: notam.notamGeometry ? parsePoint(notam.notamGeometry) : notam.mapPointer ? parsePoint(notam.mapPointer) : undefined,
+function transformNotamData(notam: FAANotamRecord): GeoNotam {
+  const issued = parseNotamDate(notam.issueDate);
+  const icaoNotam = parseIcaoNotam(notam.icaoMessage ?? '');
+  const parsed = icaoNotam ? icaoNotamToNotam(icaoNotam, issued) : undefined;
+
+  const geometry = parseNotamGeometry(notam.notamGeometry) ?? parseNotamGeometry(notam.mapPointer);
+  const center = geometry ? geometryCenter(geometry) : undefined;
+  const decodedText = decodeNotamText(notam.traditionalMessageFrom4thWord || notam.traditionalMessage || parsed?.text || notam.icaoMessage || '');
+
+  const result: GeoNotam = {
+    ...parsed,
+    id: notam.notamNumber || parsed?.id || '',
+    icao: notam.icaoId && isICAO(notam.icaoId) ? normalizeICAO(notam.icaoId) : parsed?.icao,
+    type: parsed?.type ?? NotamType.A, // Domestic FAA NOTAMs without ICAO message are typically "A" type
+    scope: parsed?.scope ?? NotamScope.A,
+    priority: parsed?.priority ?? NotamPriority.NORMAL,
+    subject: parsed?.subject ?? '',
+    text: decodedText.decoded, // TODO: Rename to message. Make optional in interface
+    coordinates: center ? { latitude: center[1], longitude: center[0], radius: parsed?.coordinates?.radius } : parsed?.coordinates,
     schedule: {
-      effectiveFrom: parseNotamDate(notam.startDate) || new Date(),
-      effectiveUntil: parseNotamDate(notam.endDate),
+      ...parsed?.schedule,
+      effectiveFrom: parseNotamDate(notam.startDate) || parsed?.schedule.effectiveFrom || new Date(),
+      effectiveUntil: parseNotamDate(notam.endDate) || parsed?.schedule.effectiveUntil,
     },
     source: notam.source || undefined,
-    raw: notam.icaoMessage,
-    issued: parseNotamDate(notam.issueDate) || new Date(),
+    raw: notam.icaoMessage || notam.traditionalMessage || notam.traditionalMessageFrom4thWord || '',
+    issued: issued || parsed?.issued || new Date(),
+    decodedText,
   };
+  return { ...result, geometry: notamGeometry({ ...result, geometry }) };
 }
 
 /**
  * Core API request function for raw data
  *
  * @param uri - API endpoint URI
- * @param options - Fetch options
- * @param fetcher - Custom fetch function
+ * @param options - Provider options including custom fetcher and response cache
+ * @param init - Fetch options
  * @returns Promise resolving to raw API response data
+ * @throws {ApiError} Will throw an ApiError subclass if the API request fails or returns non-JSON.
  */
 async function baseApiRaw(
   uri: string,
-  options: RequestInit = {},
-  fetcher: FetchFunction = fetch
-): Promise<any> {
-  const apiOptions: RequestInit & { timeout?: number; cf?: object } = {
-    ...options,
+  options: FAANotamOptions = {},
+  init: FetchApiOptions = {}
+): Promise<{ endpoint: string; apiOptions: FetchApiOptions; data?: FAARawNotam }> {
+  const { fetcher = fetch, cache, retry, circuitBreaker, hooks, operation } = options;
+  const apiOptions: FetchApiOptions = {
+    ...init,
+    service: 'FAA NOTAM',
     cf: {
       cacheTtl: FAA_API_CONFIG.CACHE_TTL,
       cacheEverything: true,
     },
+    responseCache: cache ? { ...cache, ttl: cache.ttl ?? FAA_API_CONFIG.CACHE_TTL } : undefined,
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
+    dedupe: true,
     timeout: FAA_API_CONFIG.TIMEOUT
   };
 
-  const response = await fetchApi(fetcher, `${FAA_API_CONFIG.API_URL}${uri}`, apiOptions);
+  const endpoint = `${FAA_API_CONFIG.API_URL}${uri}`;
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
   if (!response.ok) {
     await response.body?.cancel();
-    throw new ApiError('FAA NOTAM', `${FAA_API_CONFIG.API_URL}${uri}`, apiOptions, `HTTP ${response.status} - ${response.statusText}`);
+    throw createHttpStatusError('FAA NOTAM', endpoint, apiOptions, response);
   }
 
   const contentType = response.headers.get('content-type');
   if (!contentType || !contentType.includes('application/json')) {
     const body = await response.text();
-    throw new ApiError('FAA NOTAM', `${FAA_API_CONFIG.API_URL}${uri}`, apiOptions, `Returned non-JSON response: ${contentType}, body: ${body}`);
+    throw new ResponseParseError('FAA NOTAM', endpoint, apiOptions, contentType, `Returned non-JSON response: ${contentType}, body: ${body}`);
   }
 
-  return await response.json();
+  const data = await parseJsonResponse<FAARawNotam | null>(response, 'FAA NOTAM', endpoint, apiOptions);
+  return { endpoint, apiOptions, data: data ?? undefined };
+}
+
+/**
+ * Pick the NOTAM records of a response, either a list or a single NOTAM.
+ */
+function responseNotams(data?: FAARawNotam): unknown[] {
+  if (data && Array.isArray(data.notamList)) {
+    return data.notamList;
+  }
+  if (data && (data.icaoMessage || data.traditionalMessageFrom4thWord || data.traditionalMessage)) {
+    return [data];
+  }
+  return [];
 }
 
 /**
  * Core API request function
  *
  * @param uri - API endpoint URI
- * @param options - Fetch options
- * @param fetcher - Custom fetch function
+ * @param options - Provider options including custom fetcher and response cache
+ * @param init - Fetch options
  * @returns Promise resolving to an array of NOTAM objects
+ * @throws {SchemaValidationError} In strict validation mode, if a NOTAM record is invalid.
  */
 async function baseApi(
   uri: string,
-  options: RequestInit = {},
-  fetcher: FetchFunction = fetch
-): Promise<Notam[]> {
-  const data = await baseApiRaw(uri, options, fetcher);
-
-  if (data && data.notamList && Array.isArray(data.notamList)) {
-    if (data.notamList.length === 0) {
-      return [];
+  options: FAANotamOptions = {},
+  init: FetchApiOptions = {}
+): Promise<GeoNotam[]> {
+  const { endpoint, apiOptions, data } = await baseApiRaw(uri, options, init);
+  return validateRecords(responseNotams(data), faaNotamRecordSchema, transformNotamData, { service: 'FAA NOTAM', endpoint, requestOptions: apiOptions, options });
+}
+
+/**
+ * Validate and transform raw NOTAMs returned by a search.
+ */
+function transformSearchNotams(notams: FAARawNotam[], options: FAANotamOptions): GeoNotam[] {
+  const endpoint = `${FAA_API_CONFIG.API_URL}search`;
+  return validateRecords(notams, faaNotamRecordSchema, transformNotamData, { service: 'FAA NOTAM', endpoint, options });
+}
+
+/**
+ * Split a decimal coordinate into degrees, minutes and seconds.
+ */
+function toDegreesMinutesSeconds(value: number): [number, number, number] {
+  const totalSeconds = Math.round(Math.abs(value) * 3600);
+  return [Math.floor(totalSeconds / 3600), Math.floor((totalSeconds % 3600) / 60), totalSeconds % 60];
+}
+
+/**
+ * Build the form data for a NOTAM search.
+ *
+ * @param search - The search.
+ * @param offset - Offset of the first result.
+ * @returns URL encoded form data.
+ * @throws {InvalidInputError} If the search has no designators, an invalid location or an empty route.
+ */
+function searchFormData(search: NotamSearch, offset: number): string {
+  const params = new URLSearchParams();
+
+  switch (search.type) {
+    case 'location': {
+      const designators = search.designators.map((designator) => designator.trim().toUpperCase()).filter(Boolean);
+      if (designators.length === 0) {
+        throw new InvalidInputError('FAA NOTAM', "At least one designator is required", 'designators');
+      }
+      params.set('searchType', String(FAA_API_CONFIG.SEARCH_TYPE_LOCATION));
+      params.set('designatorsForLocation', designators.join(','));
+      params.set('radius', String(search.radius ?? FAA_API_CONFIG.DEFAULT_RADIUS_NM));
+      break;
+    }
+    case 'point': {
+      const [longitude, latitude] = search.location;
+      if (search.location.length < 2 || !(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+        throw new InvalidInputError('FAA NOTAM', "Location must be a valid [longitude, latitude] coordinate", 'location');
+      }
+      const [latDegrees, latMinutes, latSeconds] = toDegreesMinutesSeconds(latitude);
+      const [longDegrees, longMinutes, longSeconds] = toDegreesMinutesSeconds(longitude);
+      params.set('searchType', String(FAA_API_CONFIG.SEARCH_TYPE_LAT_LON));
+      params.set('latDegrees', String(latDegrees));
+      params.set('latMinutes', String(latMinutes));
+      params.set('latSeconds', String(latSeconds));
+      params.set('latitudeDirection', latitude < 0 ? 'S' : 'N');
+      params.set('longDegrees', String(longDegrees));
+      params.set('longMinutes', String(longMinutes));
+      params.set('longSeconds', String(longSeconds));
+      params.set('longitudeDirection', longitude < 0 ? 'W' : 'E');
+      params.set('radius', String(search.radius ?? FAA_API_CONFIG.DEFAULT_RADIUS_NM));
+      break;
+    }
+    case 'flightPath': {
+      const route = search.route.map((designator) => designator.trim().toUpperCase()).filter(Boolean);
+      if (route.length < 2) {
+        throw new InvalidInputError('FAA NOTAM', "Flight path must have at least two designators", 'route');
+      }
+      params.set('searchType', String(FAA_API_CONFIG.SEARCH_TYPE_FLIGHT_PATH));
+      params.set('flightPathText', route.join(' '));
+      params.set('flightPathBuffer', String(search.buffer ?? FAA_API_CONFIG.FLIGHT_PATH_BUFFER_NM));
+      params.set('flightPathIncludeNavaids', 'true');
+      params.set('flightPathIncludeArtcc', 'true');
+      params.set('flightPathIncludeTfr', 'true');
+      params.set('flightPathIncludeRegulatory', 'true');
+      break;
     }
-    return data.notamList.map(transformNotamData);
   }
 
-  if (data && (data.icaoMessage || data.traditionalMessageFrom4thWord || data.traditionalMessage)) {
-    return [transformNotamData(data)];
+  params.set('sortColumns', '5 false');
+  params.set('sortDirection', 'true');
+  params.set('offset', String(offset));
+  return params.toString();
+}
+
+/**
+ * Point search covering a bounding box.
+ */
+function bboxSearch(bbox: GeoJSON.BBox): NotamSearch {
+  const { center, radius } = bboxCircle(bbox);
+  return { type: 'point', location: center, radius };
+}
+
+/**
+ * Key identifying a raw NOTAM, used to remove duplicates returned for several designators.
+ */
+function rawNotamKey(notam: FAARawNotam): string {
+  return notam.transactionID
+    ? String(notam.transactionID)
+    : `${notam.notamNumber ?? ''}|${String(notam.icaoMessage || notam.traditionalMessage || '')}`;
+}
+
+/**
+ * Iterate over raw NOTAMs matching a search, fetching pages as needed.
+ *
+ * NOTAMs returned more than once, for instance for several designators, are only yielded once.
+ *
+ * @param search - The search.
+ * @param options - Optional configuration including custom fetcher and pagination limits
+ * @returns An async iterator of raw NOTAM objects.
+ * @throws {InvalidInputError} If the search is invalid.
+ */
+export async function* iterateRawNotams(search: NotamSearch, options: FAANotamOptions = {}): AsyncGenerator<FAARawNotam, void, undefined> {
+  searchFormData(search, 0); // Validate before the first request
+
+  const seen = new Set<string>();
+  const pages = paginate(async (page) => {
+    const { data } = await baseApiRaw('search', options, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: searchFormData(search, (page - 1) * FAA_API_CONFIG.PAGE_SIZE),
+    });
+
+    const items: FAARawNotam[] = data && Array.isArray(data.notamList) ? data.notamList : [];
+    const hasMore = typeof data?.totalNotamCount === 'number' && typeof data?.endRecordCount === 'number'
+      ? data.endRecordCount < data.totalNotamCount
+      : items.length >= FAA_API_CONFIG.PAGE_SIZE;
+    return { items, hasMore: hasMore && items.length > 0 };
+  }, { maxPages: FAA_API_CONFIG.MAX_PAGES, ...options.pagination });
+
+  for await (const notam of pages) {
+    const key = rawNotamKey(notam);
+    if (!seen.has(key)) {
+      seen.add(key);
+      yield notam;
+    }
   }
+}
 
-  return [];
+/**
+ * Search raw NOTAMs without transformation.
+ *
+ * All result pages are fetched, up to the limits in the pagination options.
+ *
+ * @param search - The search.
+ * @param options - Optional configuration including custom fetcher and pagination limits
+ * @returns Promise resolving to an array of raw NOTAM objects.
+ * @throws {InvalidInputError} If the search is invalid.
+ */
+export async function searchRawNotams(search: NotamSearch, options: FAANotamOptions = {}): Promise<FAARawNotam[]> {
+  return collect(iterateRawNotams(search, options));
+}
+
+/**
+ * Search NOTAMs by location designators, position or flight path.
+ *
+ * All result pages are fetched, up to the limits in the pagination options.
+ *
+ * @param search - The search.
+ * @param options - Optional configuration including custom fetcher and pagination limits
+ * @returns Promise resolving to an array of NOTAM objects.
+ * @throws {InvalidInputError} If the search is invalid.
+ */
+export async function searchNotams(search: NotamSearch, options: FAANotamOptions = {}): Promise<ValidatedResult<GeoNotam>> {
+  return withWarnings(options, async (options) => transformSearchNotams(await searchRawNotams(search, options), options));
 }
 
 /**
@@ -308,17 +426,47 @@ async function baseApi(
  * @param options - Optional configuration including custom fetcher
  * @returns Promise resolving to an array of NOTAM objects.
  */
-export async function getNotamsByIcao(icao: ICAO, options: FAANotamOptions = {}): Promise<Notam[]> {
-  const { fetcher = fetch } = options;
-  const formData = `searchType=0&designatorsForLocation=${icao}&radius=10&sortColumns=5+false&sortDirection=true&offset=0`;
-
-  return baseApi('search', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: formData,
-  }, fetcher);
+export async function getNotamsByIcao(icao: ICAO, options: FAANotamOptions = {}): Promise<ValidatedResult<GeoNotam>> {
+  return searchNotams({ type: 'location', designators: [icao] }, options);
+}
+
+/**
+ * Get NOTAMs whose area of influence intersects a bounding box.
+ *
+ * The FAA is searched within the circle around the bounding box, and the results are clipped to the box.
+ *
+ * @param bbox - The bounding box [west, south, east, north].
+ * @param options - Optional configuration including custom fetcher and pagination limits
+ * @returns Promise resolving to an array of NOTAM objects.
+ */
+export async function getNotamsByBbox(bbox: GeoJSON.BBox, options: FAANotamOptions = {}): Promise<ValidatedResult<GeoNotam>> {
+  return withWarnings(options, async (options) => notamsInBbox(await searchNotams(bboxSearch(bbox), options), bbox));
+}
+
+/**
+ * Get NOTAMs whose area of influence intersects the corridor around a route.
+ *
+ * The corridor is split into bounding boxes that are searched separately, NOTAMs found
+ * in several boxes are only returned once.
+ *
+ * @param route - GeoJSON LineString or array of positions [longitude, latitude].
+ * @param widthNm - Total corridor width in nautical miles.
+ * @param options - Optional configuration including custom fetcher and pagination limits
+ * @returns Promise resolving to an array of NOTAMs with distance along the route and cross-track offset, in flight order.
+ * @throws {InvalidInputError} If the route or width is invalid.
+ */
+export async function getNotamsByCorridor(route: Route, widthNm: number, options: FAANotamOptions = {}): Promise<ValidatedResult<CorridorNotam>> {
+  const bboxes = corridorBboxes(route, widthNm);
+
+  return withWarnings(options, async (options) => {
+    const results = await Promise.all(bboxes.map((bbox) => searchRawNotams(bboxSearch(bbox), options)));
+
+    const notams = new Map<string, FAARawNotam>();
+    for (const notam of results.flat()) {
+      notams.set(rawNotamKey(notam), notam);
+    }
+    return notamsAlongRoute(transformSearchNotams([...notams.values()], options), route, widthNm);
+  });
 }
 
 /**
@@ -328,9 +476,8 @@ export async function getNotamsByIcao(icao: ICAO, options: FAANotamOptions = {})
  * @param options - Optional configuration including custom fetcher
  * @returns Promise resolving to a single NOTAM object or null if not found.
  */
-export async function getNotamsByTransactionId(transactionId: number, options: FAANotamOptions = {}): Promise<Notam | null> {
-  const { fetcher = fetch } = options;
-  const notams = await baseApi(`details?transactionid=${transactionId}`, {}, fetcher);
+export async function getNotamsByTransactionId(transactionId: number, options: FAANotamOptions = {}): Promise<GeoNotam | null> {
+  const notams = await baseApi(`details?transactionid=${transactionId}`, options);
   return notams.length > 0 ? notams[0] : null;
 }
 
@@ -341,27 +488,8 @@ export async function getNotamsByTransactionId(transactionId: number, options: F
  * @param options - Optional configuration including custom fetcher
  * @returns Promise resolving to an array of raw NOTAM objects.
  */
-export async function getRawNotamsByIcao(icao: ICAO, options: FAANotamOptions = {}): Promise<any[]> {
-  const { fetcher = fetch } = options;
-  const formData = `searchType=0&designatorsForLocation=${icao}&radius=10&sortColumns=5+false&sortDirection=true&offset=0`;
-
-  const data = await baseApiRaw('search', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: formData,
-  }, fetcher);
-
-  if (data && data.notamList && Array.isArray(data.notamList)) {
-    return data.notamList;
-  }
-
-  if (data && (data.icaoMessage || data.traditionalMessageFrom4thWord || data.traditionalMessage)) {
-    return [data];
-  }
-
-  return [];
+export async function getRawNotamsByIcao(icao: ICAO, options: FAANotamOptions = {}): Promise<FAARawNotam[]> {
+  return searchRawNotams({ type: 'location', designators: [icao] }, options);
 }
 
 /**
@@ -371,32 +499,29 @@ export async function getRawNotamsByIcao(icao: ICAO, options: FAANotamOptions =
  * @param options - Optional configuration including custom fetcher
  * @returns Promise resolving to raw NOTAM data or null if not found.
  */
-export async function getRawNotamsByTransactionId(transactionId: number, options: FAANotamOptions = {}): Promise<any> {
-  const { fetcher = fetch } = options;
-  const data = await baseApiRaw(`details?transactionid=${transactionId}`, {}, fetcher);
-
-  if (data && data.notamList && Array.isArray(data.notamList)) {
-    return data.notamList.length > 0 ? data.notamList[0] : null;
-  }
-
-  if (data && (data.icaoMessage || data.traditionalMessageFrom4thWord || data.traditionalMessage)) {
-    return data;
-  }
-
-  return null;
+export async function getRawNotamsByTransactionId(transactionId: number, options: FAANotamOptions = {}): Promise<FAARawNotam | null> {
+  const { data } = await baseApiRaw(`details?transactionid=${transactionId}`, options);
+  const [notam] = responseNotams(data);
+  return notam ? notam as FAARawNotam : null;
 }
 
 /**
  * FAA NOTAM Provider
  *
  * @param options - Optional configuration including custom fetcher
- * @returns Object with methods to get NOTAMs by ICAO or transaction ID
+ * @returns Object with methods to get NOTAMs by ICAO, area, route corridor, search or transaction ID
  */
 export default function notamProvider(options: FAANotamOptions = {}): NotamProvider {
+  const callOptions = (operation: string, call?: CallOptions): FAANotamOptions => withCallOptions(withOperation(options, 'notam', operation), call);
+
   return {
-    getByIcao: (icao: ICAO) => getNotamsByIcao(icao, options),
-    getByTransactionId: (transactionId: number) => getNotamsByTransactionId(transactionId, options),
-    getRawByIcao: (icao: ICAO) => getRawNotamsByIcao(icao, options),
-    getRawByTransactionId: (transactionId: number) => getRawNotamsByTransactionId(transactionId, options),
+    getByIcao: (icao: ICAO, call?: CallOptions) => getNotamsByIcao(icao, callOptions('getByIcao', call)),
+    getByBbox: (bbox: GeoJSON.BBox, call?: CallOptions) => getNotamsByBbox(bbox, callOptions('getByBbox', call)),
+    getByCorridor: (route: Route, widthNm: number, call?: CallOptions) => getNotamsByCorridor(route, widthNm, callOptions('getByCorridor', call)),
+    search: (search: NotamSearch, call?: CallOptions) => searchNotams(search, callOptions('search', call)),
+    searchRaw: (search: NotamSearch, call?: CallOptions) => searchRawNotams(search, callOptions('searchRaw', call)),
+    getByTransactionId: (transactionId: number, call?: CallOptions) => getNotamsByTransactionId(transactionId, callOptions('getByTransactionId', call)),
+    getRawByIcao: (icao: ICAO, call?: CallOptions) => getRawNotamsByIcao(icao, callOptions('getRawByIcao', call)),
+    getRawByTransactionId: (transactionId: number, call?: CallOptions) => getRawNotamsByTransactionId(transactionId, callOptions('getRawByTransactionId', call)),
   };
 }
@@ -0,0 +1,60 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { type CacheEntry, type CacheStore } from "./cache.js";
+
+export interface FileCacheOptions {
+  directory: string;
+}
+
+/**
+ * Create a file-backed cache store. Each entry is kept as a JSON file in the directory.
+ *
+ * @param options - Configuration with the directory to store entries in.
+ * @returns A CacheStore persisting entries on disk.
+ */
+export function createFileCache(options: FileCacheOptions): CacheStore {
+  const { directory } = options;
+
+  const entryPath = (key: string): string => {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(directory, `${hash}.json`);
+  };
+
+  return {
+    get: async (key: string): Promise<CacheEntry | undefined> => {
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await readFile(entryPath(key), 'utf8')) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+
+      if (entry.staleUntil <= Date.now()) {
+        await rm(entryPath(key), { force: true });
+        return undefined;
+      }
+
+      return entry;
+    },
+    set: async (key: string, entry: CacheEntry): Promise<void> => {
+      await mkdir(directory, { recursive: true });
+      await writeFile(entryPath(key), JSON.stringify(entry), 'utf8');
+    },
+    delete: async (key: string): Promise<void> => {
+      await rm(entryPath(key), { force: true });
+    },
+    clear: async (): Promise<void> => {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch {
+        return;
+      }
+
+      await Promise.all(files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => rm(join(directory, file), { force: true })));
+    }
+  };
+}
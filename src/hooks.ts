@@ -0,0 +1,168 @@
+/**
+ * The provider operation a request is made for.
+ *
+ * @property provider - The provider, e.g. "aerodrome" or "metar".
+ * @property operation - The provider method, e.g. "getByIcao" or "getByRadius".
+ */
+export interface RequestOperation {
+  provider: string;
+  operation: string;
+}
+
+/**
+ * An upstream request attempt about to be sent.
+ *
+ * @property id - Identifies the attempt across its onRequest, onResponse and onError events.
+ * @property service - The upstream service, e.g. "OpenAIP".
+ * @property provider - The provider, the service name for calls made outside a provider.
+ * @property operation - The provider method, "fetchApi" for calls made outside a provider.
+ * @property url - The requested URL.
+ * @property method - The HTTP method.
+ * @property attempt - The attempt number, starting at 1, increasing with retries.
+ * @property startTime - When the attempt started, in epoch milliseconds.
+ */
+export interface RequestEvent {
+  id: number;
+  service: string;
+  provider: string;
+  operation: string;
+  url: string;
+  method: string;
+  attempt: number;
+  startTime: number;
+}
+
+/**
+ * An upstream response received, whatever its status.
+ *
+ * @property status - The HTTP status.
+ * @property duration - Milliseconds until the response headers were received.
+ * @property bytes - Size of the response body from its Content-Length header, if known.
+ */
+export interface ResponseEvent extends RequestEvent {
+  status: number;
+  duration: number;
+  bytes?: number;
+}
+
+/**
+ * An upstream request attempt that failed without a response.
+ *
+ * @property error - The error, a TimeoutError, NetworkError or CircuitOpenError.
+ * @property duration - Milliseconds until the attempt failed.
+ */
+export interface RequestErrorEvent extends RequestEvent {
+  error: unknown;
+  duration: number;
+}
+
+/**
+ * A response served from the response cache, without an upstream request.
+ *
+ * @property service - The upstream service, e.g. "OpenAIP".
+ * @property provider - The provider, the service name for calls made outside a provider.
+ * @property operation - The provider method, "fetchApi" for calls made outside a provider.
+ * @property url - The requested URL.
+ * @property time - When the entry was served, in epoch milliseconds.
+ * @property age - Milliseconds since the entry was stored.
+ * @property stale - Whether the entry was stale and is being revalidated in the background.
+ * @property bytes - Size of the cached body.
+ */
+export interface CacheHitEvent {
+  service: string;
+  provider: string;
+  operation: string;
+  url: string;
+  time: number;
+  age: number;
+  stale: boolean;
+  bytes: number;
+}
+
+/**
+ * Request lifecycle hooks, for logging, metrics and tracing.
+ *
+ * Hooks are called synchronously and must not throw, errors thrown by a hook are ignored.
+ *
+ * @property onRequest - Called before every upstream attempt, including retries.
+ * @property onResponse - Called when an upstream attempt receives a response.
+ * @property onError - Called when an upstream attempt fails without a response.
+ * @property onCacheHit - Called when a response is served from the response cache.
+ */
+export interface RequestHooks {
+  onRequest?: (event: RequestEvent) => void;
+  onResponse?: (event: ResponseEvent) => void;
+  onError?: (event: RequestErrorEvent) => void;
+  onCacheHit?: (event: CacheHitEvent) => void;
+}
+
+/**
+ * Hook options accepted by providers.
+ *
+ * @property hooks - Request lifecycle hooks of the provider, called after the global hooks.
+ * @property operation - The operation reported to the hooks, set by the provider factories.
+ */
+export interface HookOptions {
+  hooks?: RequestHooks;
+  operation?: RequestOperation;
+}
+
+const globalHooks: RequestHooks[] = [];
+
+let lastRequestId = 0;
+
+/**
+ * Register hooks called for the requests of every provider.
+ *
+ * @param hooks - The hooks to register.
+ * @returns A function unregistering the hooks.
+ */
+export function registerHooks(hooks: RequestHooks): () => void {
+  globalHooks.push(hooks);
+  return () => {
+    const index = globalHooks.indexOf(hooks);
+    if (index !== -1) {
+      globalHooks.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Set the operation reported to the hooks for the requests made with the options.
+ *
+ * @param options - The provider options.
+ * @param provider - The provider, e.g. "aerodrome".
+ * @param operation - The provider method, e.g. "getByIcao".
+ * @returns The options with the operation.
+ */
+export function withOperation<O extends HookOptions>(options: O, provider: string, operation: string): O {
+  return { ...options, operation: { provider, operation } };
+}
+
+/**
+ * Allocate the id of the next request attempt.
+ */
+export function nextRequestId(): number {
+  return ++lastRequestId;
+}
+
+/**
+ * Call a hook on the global hooks, then on the given hooks.
+ *
+ * @param hooks - The hooks of the request, if any.
+ * @param name - The hook to call.
+ * @param event - The event passed to the hook.
+ */
+export function emitHook<K extends keyof RequestHooks>(
+  hooks: RequestHooks | undefined,
+  name: K,
+  event: Parameters<NonNullable<RequestHooks[K]>>[0]
+): void {
+  for (const registered of hooks ? [...globalHooks, hooks] : globalHooks) {
+    try {
+      (registered[name] as ((event: unknown) => void) | undefined)?.(event);
+    } catch {
+      // A failing hook must not fail the request
+    }
+  }
+}
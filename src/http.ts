@@ -1,23 +1,74 @@
+import { cacheKey, credentialFingerprint, CREDENTIAL_HEADERS, fromCacheEntry, toCacheEntry, type CacheEntry, type CacheOptions, type CacheStore } from "./cache.js";
+import { type CircuitBreaker } from "./circuit-breaker.js";
+import { CircuitOpenError, NetworkError, ResponseParseError, TimeoutError } from "./error.js";
+import { emitHook, nextRequestId, type RequestHooks, type RequestOperation } from "./hooks.js";
+import { backoffDelay, isRetryableRequest, parseRetryAfter, resolveRetryPolicy, sleep, type RetryOptions } from "./retry.js";
+
 export type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 
+/**
+ * Options accepted by fetchApi on top of the standard RequestInit.
+ *
+ * @property timeout - Request timeout in milliseconds.
+ * @property cf - Cloudflare specific request options, only understood by the Workers fetcher.
+ * @property responseCache - Response cache to consult before going upstream. The ttl is required here.
+ * @property retry - Retry policy for transient failures. Without it the request is attempted once.
+ * @property idempotent - Mark the request as safe to retry regardless of its HTTP method.
+ * @property circuitBreaker - Circuit breaker guarding the upstream host. Every attempt, including retries, passes through it.
+ * @property dedupe - Share the upstream request with identical requests already in flight.
+ * @property credentialIdentity - Stable identity of the request credentials, keying the response cache and de-duplication
+ * instead of the credential headers, e.g. when these carry a short-lived access token.
+ * @property hooks - Request lifecycle hooks, called after the global hooks.
+ * @property operation - The provider operation reported to the hooks.
+ * @property service - Name of the upstream service used in errors (defaults to the URL host).
+ */
+export type FetchApiOptions = RequestInit & {
+  service?: string;
+  timeout?: number;
+  cf?: object;
+  responseCache?: CacheOptions & { ttl: number };
+  retry?: RetryOptions;
+  idempotent?: boolean;
+  circuitBreaker?: CircuitBreaker;
+  dedupe?: boolean;
+  credentialIdentity?: string;
+  hooks?: RequestHooks;
+  operation?: RequestOperation;
+};
+
 const DEFAULT_USER_AGENT = 'ByteFlight/1.0';
 
+/** A response with its body read, so it can be handed to several callers */
+interface SharedResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: ArrayBuffer;
+}
+
+/** Upstream requests in flight per fetcher, by request key */
+const inFlight = new WeakMap<FetchFunction, Map<string, Promise<SharedResponse>>>();
+
+/** Background revalidations in progress per cache store, by cache key */
+const revalidating = new WeakMap<CacheStore, Set<string>>();
+
 /**
- * Performs a fetch operation using a provided fetcher function.
+ * Performs a single upstream request attempt.
  *
  * @param fetcher The fetch-compatible function to use for the request.
  * @param baseUrl The URL to fetch.
- * @param options Standard RequestInit options, potentially including a custom 'timeout'.
- *                If the fetcher is Cloudflare's, 'cf' can be included in options.
+ * @param options Request options, see fetchApi.
  * @returns A Promise resolving to the fetch Response.
- * @throws Will throw an error if the request times out or fails.
+ * @throws {TimeoutError} If the request does not complete within the timeout.
+ * @throws {NetworkError} If the fetcher fails for any other reason.
  */
-export const fetchApi = async (
+const fetchOnce = async (
   fetcher: FetchFunction,
   baseUrl: string,
-  options: RequestInit & { timeout?: number } = {}
+  options: FetchApiOptions = {}
 ): Promise<Response> => {
-  const { timeout, ...standardFetcherOptions } = options;
+  const { service, timeout, responseCache: _responseCache, retry: _retry, idempotent: _idempotent, circuitBreaker: _circuitBreaker, dedupe: _dedupe, credentialIdentity: _credentialIdentity, hooks: _hooks, operation: _operation, ...standardFetcherOptions } = options;
+  const serviceName = service || new URL(baseUrl).host;
 
   const headers = {
     'User-Agent': DEFAULT_USER_AGENT,
@@ -35,10 +86,299 @@ export const fetchApi = async (
 
     try {
       return await fetcher(baseUrl, optionsWithSignal);
+    } catch (error) {
+      if (signal.aborted) {
+        throw new TimeoutError(serviceName, baseUrl, options, timeout);
+      }
+      throw new NetworkError(serviceName, baseUrl, options, error);
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
-  return fetcher(baseUrl, optionsWithHeaders);
+  try {
+    return await fetcher(baseUrl, optionsWithHeaders);
+  } catch (error) {
+    throw new NetworkError(serviceName, baseUrl, options, error);
+  }
+};
+
+/**
+ * Describe a request for the hooks.
+ */
+const hookContext = (baseUrl: string, options: FetchApiOptions): { service: string; provider: string; operation: string; url: string } => {
+  const service = options.service || new URL(baseUrl).host;
+  return {
+    service,
+    provider: options.operation?.provider ?? service,
+    operation: options.operation?.operation ?? 'fetchApi',
+    url: baseUrl,
+  };
+};
+
+/**
+ * Performs a single upstream request attempt through the circuit breaker, if any,
+ * reporting it to the request hooks.
+ *
+ * @param fetcher The fetch-compatible function to use for the request.
+ * @param baseUrl The URL to fetch.
+ * @param options Request options, see fetchApi.
+ * @param attempt The attempt number, starting at 1.
+ * @returns A Promise resolving to the fetch Response.
+ * @throws {CircuitOpenError} If the circuit of the host is open.
+ */
+const fetchAttempt = async (
+  fetcher: FetchFunction,
+  baseUrl: string,
+  options: FetchApiOptions = {},
+  attempt: number = 1
+): Promise<Response> => {
+  const { circuitBreaker, hooks } = options;
+  const request = {
+    id: nextRequestId(),
+    ...hookContext(baseUrl, options),
+    method: (options.method || 'GET').toUpperCase(),
+    attempt,
+    startTime: Date.now(),
+  };
+  emitHook(hooks, 'onRequest', request);
+
+  try {
+    const response = circuitBreaker
+      ? await circuitBreaker.call(baseUrl, options, () => fetchOnce(fetcher, baseUrl, options))
+      : await fetchOnce(fetcher, baseUrl, options);
+    const contentLength = response.headers.get('content-length');
+    emitHook(hooks, 'onResponse', {
+      ...request,
+      status: response.status,
+      duration: Date.now() - request.startTime,
+      bytes: contentLength ? Number(contentLength) : undefined,
+    });
+    return response;
+  } catch (error) {
+    emitHook(hooks, 'onError', { ...request, error, duration: Date.now() - request.startTime });
+    throw error;
+  }
+};
+
+/**
+ * Performs an upstream request, bypassing any response cache, and retries
+ * transient failures according to the retry policy.
+ *
+ * @param fetcher The fetch-compatible function to use for the request.
+ * @param baseUrl The URL to fetch.
+ * @param options Request options, see fetchApi.
+ * @returns A Promise resolving to the last fetch Response.
+ * @throws Will throw the last error if every attempt fails.
+ */
+const fetchUpstream = async (
+  fetcher: FetchFunction,
+  baseUrl: string,
+  options: FetchApiOptions = {}
+): Promise<Response> => {
+  if (!options.retry) {
+    return fetchAttempt(fetcher, baseUrl, options);
+  }
+
+  const policy = resolveRetryPolicy(options.retry);
+  const maxAttempts = isRetryableRequest(policy, options.method, options.idempotent) ? policy.maxAttempts : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetchAttempt(fetcher, baseUrl, options, attempt);
+    } catch (error) {
+      // An open circuit stays open for longer than any backoff
+      if (error instanceof CircuitOpenError || attempt >= maxAttempts || !policy.retryOnNetworkError) {
+        throw error;
+      }
+      await sleep(backoffDelay(policy, attempt));
+      continue;
+    }
+
+    if (attempt >= maxAttempts || !policy.retryOnStatus.includes(response.status)) {
+      return response;
+    }
+
+    let delay = backoffDelay(policy, attempt);
+    if (policy.respectRetryAfter) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== undefined) {
+        if (retryAfter > policy.maxRetryAfter) {
+          return response;
+        }
+        delay = Math.max(delay, retryAfter);
+      }
+    }
+
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+};
+
+/**
+ * Performs an upstream request, sharing it with identical requests in flight when
+ * de-duplication is enabled. Every caller receives its own copy of the response.
+ *
+ * The shared body is read once instead of cloned, a cancelled clone would otherwise
+ * wait for the other branches of the body to be read or cancelled.
+ *
+ * Requests are identical when the method, URL, body and headers match, so requests
+ * with different credentials are never shared.
+ *
+ * @param fetcher The fetch-compatible function to use for the request.
+ * @param baseUrl The URL to fetch.
+ * @param options Request options, see fetchApi.
+ * @returns A Promise resolving to the fetch Response.
+ * @throws Will throw the error of the shared request.
+ */
+const fetchShared = async (
+  fetcher: FetchFunction,
+  baseUrl: string,
+  options: FetchApiOptions = {}
+): Promise<Response> => {
+  if (!options.dedupe) {
+    return fetchUpstream(fetcher, baseUrl, options);
+  }
+
+  const { credentialIdentity } = options;
+  const headers = [...new Headers(options.headers)]
+    .filter(([name]) => credentialIdentity === undefined || !CREDENTIAL_HEADERS.includes(name))
+    .map(([name, value]) => `${name}:${value}`)
+    .sort()
+    .join('\n');
+  const identity = credentialIdentity === undefined ? '' : `\ncredentials:${credentialIdentity}`;
+  const key = `${cacheKey(baseUrl, options)}\n${headers}${identity}`;
+
+  let requests = inFlight.get(fetcher);
+  if (!requests) {
+    requests = new Map();
+    inFlight.set(fetcher, requests);
+  }
+
+  let pending = requests.get(key);
+  if (!pending) {
+    const shared = requests;
+    pending = fetchUpstream(fetcher, baseUrl, options)
+      .then(async (response) => ({
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: await response.arrayBuffer(),
+      }))
+      .finally(() => shared.delete(key));
+    shared.set(key, pending);
+  }
+
+  const response = await pending;
+  return new Response(response.status === 204 || response.status === 304 ? null : response.body.slice(0), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers),
+  });
+};
+
+/**
+ * Performs a fetch operation using a provided fetcher function.
+ *
+ * When a response cache is configured, fresh entries are served from the cache and
+ * successful responses are stored. Stale entries within the stale-while-revalidate
+ * window are served immediately while the cache is refreshed in the background, with a
+ * single refresh per entry however many stale hits arrive meanwhile. Entries are keyed on
+ * the request credentials too, so a store can be shared across API keys.
+ *
+ * @param fetcher The fetch-compatible function to use for the request.
+ * @param baseUrl The URL to fetch.
+ * @param options Standard RequestInit options, potentially including a custom 'timeout'.
+ *                If the fetcher is Cloudflare's, 'cf' can be included in options.
+ * @returns A Promise resolving to the fetch Response.
+ * @throws {TimeoutError} If the request does not complete within the timeout.
+ * @throws {NetworkError} If the request fails before a response is received.
+ * @throws {CircuitOpenError} If the circuit breaker of the host is open.
+ */
+export const fetchApi = async (
+  fetcher: FetchFunction,
+  baseUrl: string,
+  options: FetchApiOptions = {}
+): Promise<Response> => {
+  const { responseCache } = options;
+  if (!responseCache) {
+    return fetchShared(fetcher, baseUrl, options);
+  }
+
+  const { store, ttl, staleWhileRevalidate = 0, bypass = false } = responseCache;
+  const key = cacheKey(baseUrl, options, await credentialFingerprint(options.headers, options.credentialIdentity));
+
+  const fetchAndStore = async (): Promise<Response> => {
+    const response = await fetchShared(fetcher, baseUrl, options);
+    if (!response.ok) {
+      return response;
+    }
+
+    const entry = await toCacheEntry(response, ttl, staleWhileRevalidate);
+    await store.set(key, entry);
+    return fromCacheEntry(entry);
+  };
+
+  const cacheHit = (entry: CacheEntry, stale: boolean): Response => {
+    const time = Date.now();
+    emitHook(options.hooks, 'onCacheHit', {
+      ...hookContext(baseUrl, options),
+      time,
+      age: time - entry.storedAt,
+      stale,
+      bytes: new TextEncoder().encode(entry.body).length,
+    });
+    return fromCacheEntry(entry);
+  };
+
+  if (!bypass) {
+    const entry = await store.get(key);
+    if (entry) {
+      if (entry.expiresAt > Date.now()) {
+        return cacheHit(entry, false);
+      }
+
+      if (entry.staleUntil > Date.now()) {
+        // Serve the stale entry, errors during revalidation keep the stale entry in place
+        let keys = revalidating.get(store);
+        if (!keys) {
+          keys = new Set();
+          revalidating.set(store, keys);
+        }
+        if (!keys.has(key)) {
+          const pending = keys;
+          pending.add(key);
+          fetchAndStore().catch(() => undefined).finally(() => pending.delete(key));
+        }
+        return cacheHit(entry, true);
+      }
+    }
+  }
+
+  return fetchAndStore();
+};
+
+/**
+ * Parse the JSON body of a response.
+ *
+ * @param response The response to read.
+ * @param serviceName The name of the upstream service, used in errors.
+ * @param endpoint The requested URL, used in errors.
+ * @param options The request options, used in errors.
+ * @returns A Promise resolving to the parsed body.
+ * @throws {ResponseParseError} If the body is not valid JSON.
+ */
+export const parseJsonResponse = async <T>(
+  response: Response,
+  serviceName: string,
+  endpoint: string,
+  options?: FetchApiOptions
+): Promise<T> => {
+  const body = await response.text();
+  try {
+    return JSON.parse(body) as T;
+  } catch (error) {
+    throw new ResponseParseError(serviceName, endpoint, options, response.headers.get('content-type'), error);
+  }
 };
@@ -0,0 +1,519 @@
+import { isICAO, normalizeICAO, NotamPriority, NotamScope, NotamType, type Notam } from "flight-planner";
+import { type AltitudeLimit } from "./openaip-units.js";
+
+const METERS_TO_FEET = 3.28084;
+const UNLIMITED_FL = 999;
+
+/**
+ * Enumeration of ICAO NOTAM message types.
+ */
+export enum IcaoNotamKind {
+  New = 'NOTAMN',
+  Replace = 'NOTAMR',
+  Cancel = 'NOTAMC',
+}
+
+/**
+ * Represents the decoded Q-line of an ICAO NOTAM.
+ *
+ * @property fir - ICAO code of the FIR.
+ * @property code - The full NOTAM code (e.g. "QMRLC").
+ * @property subject - The two-letter subject code (e.g. "MR" for runway).
+ * @property condition - The two-letter condition code (e.g. "LC" for closed).
+ * @property traffic - Affected traffic: I (IFR), V (VFR), K (checklist).
+ * @property purpose - Purpose: N (immediate attention), B (PIB), O (flight operations), M (miscellaneous), K (checklist).
+ * @property scope - Scope: A (aerodrome), E (en-route), W (navigation warning), K (checklist).
+ * @property lowerLimit - Lower limit as a flight level.
+ * @property upperLimit - Upper limit as a flight level, 999 meaning unlimited.
+ * @property coordinates - Centre of the area of influence with its radius in nautical miles.
+ */
+export interface NotamQLine {
+  fir: string;
+  code: string;
+  subject: string;
+  condition: string;
+  traffic: string[];
+  purpose: string[];
+  scope: string[];
+  lowerLimit?: number;
+  upperLimit?: number;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+    radius?: number;
+  };
+}
+
+/**
+ * Represents a decoded ICAO NOTAM.
+ *
+ * @property id - The NOTAM identifier (e.g. "A1234/24").
+ * @property series - The series letter.
+ * @property number - The number within the series.
+ * @property year - The four digit year of issue.
+ * @property kind - New, replacing or cancelling NOTAM.
+ * @property reference - Identifier of the NOTAM replaced or cancelled by this one.
+ * @property qLine - The decoded Q-line, if present.
+ * @property locations - Item A, the ICAO location indicators affected.
+ * @property validFrom - Item B, start of validity.
+ * @property validUntil - Item C, end of validity. Undefined for permanent NOTAMs.
+ * @property estimated - Whether the end of validity is estimated (EST).
+ * @property permanent - Whether the NOTAM is permanent (PERM).
+ * @property schedule - Item D, the schedule within the validity period.
+ * @property text - Item E, the NOTAM text.
+ * @property lowerLimit - Item F, lower limit in feet with its datum.
+ * @property upperLimit - Item G, upper limit in feet with its datum. UNL is reported as FL999.
+ * @property raw - The raw NOTAM text.
+ */
+export interface IcaoNotam {
+  id: string;
+  series: string;
+  number: number;
+  year: number;
+  kind: IcaoNotamKind;
+  reference?: string;
+  qLine?: NotamQLine;
+  locations: string[];
+  validFrom?: Date;
+  validUntil?: Date;
+  estimated?: boolean;
+  permanent?: boolean;
+  schedule?: string;
+  text: string;
+  lowerLimit?: AltitudeLimit;
+  upperLimit?: AltitudeLimit;
+  raw: string;
+}
+
+/** Q-code subject descriptions, ICAO Doc 8126 */
+const QCODE_SUBJECTS: Record<string, string> = {
+  AA: 'Minimum altitude',
+  AC: 'Control zone',
+  AD: 'Air defence identification zone',
+  AE: 'Control area',
+  AF: 'Flight information region',
+  AH: 'Upper control area',
+  AN: 'Area navigation route',
+  AO: 'Oceanic control area',
+  AP: 'Reporting point',
+  AR: 'ATS route',
+  AT: 'Terminal control area',
+  AU: 'Upper flight information region',
+  AX: 'Intersection',
+  AZ: 'Aerodrome traffic zone',
+  CA: 'Air/ground facility',
+  CG: 'Ground controlled approach system',
+  CS: 'Secondary surveillance radar',
+  FA: 'Aerodrome',
+  FF: 'Fire fighting and rescue',
+  FH: 'Helicopter alighting area',
+  FU: 'Fuel availability',
+  GA: 'GNSS airfield-specific operations',
+  GW: 'GNSS area-wide operations',
+  IC: 'Instrument landing system',
+  ID: 'DME associated with ILS',
+  IG: 'Glide path (ILS)',
+  IL: 'Localizer (ILS)',
+  LA: 'Approach lighting system',
+  LC: 'Runway centre line lights',
+  LH: 'High intensity runway lights',
+  LI: 'Runway end identifier lights',
+  LL: 'Low intensity runway lights',
+  LP: 'Precision approach path indicator',
+  LR: 'All landing area lighting facilities',
+  LX: 'Taxiway centre line lights',
+  MA: 'Movement area',
+  MD: 'Declared distances',
+  MK: 'Parking area',
+  MN: 'Apron',
+  MR: 'Runway',
+  MT: 'Threshold',
+  MX: 'Taxiway',
+  NA: 'All radio navigation facilities',
+  NB: 'Non-directional radio beacon',
+  ND: 'Distance measuring equipment',
+  NL: 'Locator',
+  NN: 'TACAN',
+  NT: 'VORTAC',
+  NV: 'VOR',
+  OA: 'Aeronautical information service',
+  OB: 'Obstacle',
+  OL: 'Obstacle lights',
+  PA: 'Standard instrument arrival',
+  PD: 'Standard instrument departure',
+  PH: 'Holding procedure',
+  PI: 'Instrument approach procedure',
+  PO: 'Obstacle clearance altitude and height',
+  RA: 'Airspace reservation',
+  RD: 'Danger area',
+  RM: 'Military operating area',
+  RO: 'Overflying of',
+  RP: 'Prohibited area',
+  RR: 'Restricted area',
+  RT: 'Temporary restricted area',
+  SA: 'Automatic terminal information service',
+  SC: 'Area control centre',
+  SE: 'Flight information service',
+  SF: 'Aerodrome flight information service',
+  SP: 'Approach control service',
+  ST: 'Aerodrome control tower',
+  WA: 'Air display',
+  WB: 'Aerobatics',
+  WC: 'Captive balloon or kite',
+  WD: 'Demolition of explosives',
+  WE: 'Exercises',
+  WF: 'Air refuelling',
+  WG: 'Glider flying',
+  WH: 'Blasting',
+  WJ: 'Banner/target towing',
+  WL: 'Ascent of free balloon',
+  WM: 'Missile, gun or rocket firing',
+  WP: 'Parachute jumping exercise',
+  WR: 'Radioactive materials or toxic chemicals',
+  WS: 'Burning or blowing gas',
+  WT: 'Mass movement of aircraft',
+  WU: 'Unmanned aircraft',
+  WV: 'Formation flight',
+  WZ: 'Model flying',
+};
+
+/** Q-code condition descriptions, ICAO Doc 8126 */
+const QCODE_CONDITIONS: Record<string, string> = {
+  AC: 'Withdrawn for maintenance',
+  AD: 'Available for daylight operation',
+  AF: 'Flight checked and found reliable',
+  AG: 'Operating but ground checked only',
+  AH: 'Hours of service changed',
+  AK: 'Resumed normal operation',
+  AL: 'Operative subject to previously published limitations',
+  AM: 'Military operations only',
+  AN: 'Available for night operation',
+  AO: 'Operational',
+  AP: 'Prior permission required',
+  AR: 'Available on request',
+  AS: 'Unserviceable',
+  AU: 'Not available',
+  AW: 'Completely withdrawn',
+  AX: 'Previously promulgated shutdown cancelled',
+  CA: 'Activated',
+  CC: 'Completed',
+  CD: 'Deactivated',
+  CE: 'Erected',
+  CF: 'Operating frequency changed',
+  CG: 'Downgraded',
+  CH: 'Changed',
+  CI: 'Identification or radio call sign changed',
+  CL: 'Realigned',
+  CM: 'Displaced',
+  CN: 'Cancelled',
+  CO: 'Operating',
+  CP: 'Operating on reduced power',
+  CR: 'Temporarily replaced',
+  CS: 'Installed',
+  CT: 'On test, do not use',
+  HA: 'Braking action',
+  HW: 'Work in progress',
+  HX: 'Concentration of birds',
+  LA: 'Operating on auxiliary power supply',
+  LB: 'Reserved for aircraft based therein',
+  LC: 'Closed',
+  LD: 'Unsafe',
+  LH: 'Unserviceable for aircraft heavier than',
+  LI: 'Closed to IFR operations',
+  LK: 'Operating as a fixed light',
+  LL: 'Usable for length and width',
+  LP: 'Prohibited',
+  LR: 'Aircraft restricted to runways and taxiways',
+  LT: 'Limited to',
+  LV: 'Closed to VFR operations',
+  LW: 'Will take place',
+  LX: 'Operating but caution advised',
+  XX: 'Plain language',
+};
+
+/** Mapping of the first Q-code subject letter to the NOTAM type */
+const QCODE_TYPES: Record<string, NotamType> = {
+  A: NotamType.A,
+  R: NotamType.A,
+  C: NotamType.C,
+  G: NotamType.C,
+  I: NotamType.C,
+  N: NotamType.C,
+  F: NotamType.F,
+  L: NotamType.F,
+  P: NotamType.I,
+  M: NotamType.R,
+  S: NotamType.S,
+  W: NotamType.W,
+};
+
+/**
+ * Parse an ICAO NOTAM date-time group (YYMMDDHHMM) in UTC.
+ *
+ * @param value - The date-time group.
+ * @returns The date, or undefined if invalid.
+ */
+function parseNotamDateTime(value: string): Date | undefined {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours, minutes] = match.map((part) => parseInt(part, 10));
+  const date = new Date(Date.UTC(2000 + year, month - 1, day, hours, minutes));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a coordinate in degrees and minutes (DDMMN or DDDMME).
+ */
+function parseDegreesMinutes(degrees: string, minutes: string, hemisphere: string): number {
+  const value = parseInt(degrees, 10) + parseInt(minutes, 10) / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -value : value;
+}
+
+/**
+ * Parse the Q-line of an ICAO NOTAM.
+ *
+ * @param line - The Q-line content, without the "Q)" marker.
+ * @returns The decoded Q-line, or undefined if it is malformed.
+ */
+export function parseQLine(line: string): NotamQLine | undefined {
+  const fields = line.replace(/\s+/g, '').split('/');
+  if (fields.length < 5) {
+    return undefined;
+  }
+
+  const [fir, code, traffic = '', purpose = '', scope = '', lower, upper, position] = fields;
+  if (!/^Q[A-Z]{4}$/.test(code)) {
+    return undefined;
+  }
+
+  const qLine: NotamQLine = {
+    fir,
+    code,
+    subject: code.substring(1, 3),
+    condition: code.substring(3, 5),
+    traffic: traffic.split(''),
+    purpose: purpose.split(''),
+    scope: scope.split(''),
+    lowerLimit: lower && /^\d{3}$/.test(lower) ? parseInt(lower, 10) : undefined,
+    upperLimit: upper && /^\d{3}$/.test(upper) ? parseInt(upper, 10) : undefined,
+  };
+
+  const match = position?.match(/^(\d{2})(\d{2})([NS])(\d{3})(\d{2})([EW])(\d{3})?$/);
+  if (match) {
+    qLine.coordinates = {
+      latitude: parseDegreesMinutes(match[1], match[2], match[3]),
+      longitude: parseDegreesMinutes(match[4], match[5], match[6]),
+      radius: match[7] ? parseInt(match[7], 10) : undefined,
+    };
+  }
+
+  return qLine;
+}
+
+/**
+ * Parse a vertical limit from item F or G.
+ *
+ * @param value - The limit (e.g. "SFC", "FL195", "1500FT AMSL", "300M AGL", "UNL").
+ * @returns The limit in feet with its datum, or undefined if it cannot be parsed.
+ */
+export function parseNotamLimit(value: string): AltitudeLimit | undefined {
+  const limit = value.trim().toUpperCase();
+  if (limit === 'SFC' || limit === 'GND') {
+    return { value: 0, datum: 'GND' };
+  }
+  if (limit === 'UNL') {
+    return { value: UNLIMITED_FL * 100, datum: 'STD' };
+  }
+
+  const flightLevel = limit.match(/^FL\s*(\d{1,3})$/);
+  if (flightLevel) {
+    return { value: parseInt(flightLevel[1], 10) * 100, datum: 'STD' };
+  }
+
+  const height = limit.match(/^(\d+)\s*(FT|M)\s*(AMSL|MSL|AGL|SFC|GND)?$/);
+  if (height) {
+    const value = parseInt(height[1], 10);
+    const datum = height[3] === 'AGL' || height[3] === 'SFC' || height[3] === 'GND' ? 'GND' : 'MSL';
+    return { value: height[2] === 'M' ? Math.round(value * METERS_TO_FEET) : value, datum };
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a NOTAM body into its items, keyed by item letter.
+ *
+ * Item markers are only accepted in the order Q, A to G, so text in item E
+ * that looks like a marker is not mistaken for one.
+ *
+ * @param body - The NOTAM body following the header.
+ * @returns The item contents.
+ */
+function splitItems(body: string): Record<string, string> {
+  const order = 'QABCDEFG';
+  const markers: Array<{ item: string; start: number; end: number }> = [];
+
+  let last = -1;
+  for (const match of body.matchAll(/(?:^|\s)([QA-G])\)\s*/g)) {
+    const position = order.indexOf(match[1]);
+    if (position > last) {
+      markers.push({ item: match[1], start: match.index!, end: match.index! + match[0].length });
+      last = position;
+    }
+  }
+
+  const items: Record<string, string> = {};
+  markers.forEach((marker, index) => {
+    const next = markers[index + 1];
+    items[marker.item] = body.substring(marker.end, next ? next.start : body.length).trim();
+  });
+  return items;
+}
+
+/**
+ * Parse a NOTAM in ICAO format.
+ *
+ * @param raw - The raw NOTAM text, optionally enclosed in parentheses.
+ * @returns The decoded NOTAM, or undefined if the header cannot be parsed.
+ */
+export function parseIcaoNotam(raw: string): IcaoNotam | undefined {
+  if (!raw) {
+    return undefined;
+  }
+
+  const message = raw.trim().replace(/^\(/, '').replace(/\)\s*$/, '');
+  const header = message.match(/^([A-Z])(\d{4})\/(\d{2})\s+NOTAM([NRC])(?:\s+([A-Z]\d{4}\/\d{2}))?/);
+  if (!header) {
+    return undefined;
+  }
+
+  const [, series, number, year, kind, reference] = header;
+  const items = splitItems(message.substring(header[0].length));
+
+  const validity = items['C']?.trim().toUpperCase() ?? '';
+  const permanent = validity === 'PERM' || undefined;
+  const estimated = /EST$/.test(validity) || undefined;
+
+  return {
+    id: `${series}${number}/${year}`,
+    series,
+    number: parseInt(number, 10),
+    year: 2000 + parseInt(year, 10),
+    kind: `NOTAM${kind}` as IcaoNotamKind,
+    reference,
+    qLine: items['Q'] ? parseQLine(items['Q']) : undefined,
+    locations: (items['A'] ?? '').split(/\s+/).filter(Boolean),
+    validFrom: items['B'] ? parseNotamDateTime(items['B'].trim()) : undefined,
+    validUntil: permanent ? undefined : parseNotamDateTime(validity.replace(/\s*EST$/, '')),
+    estimated,
+    permanent,
+    schedule: items['D'] || undefined,
+    text: (items['E'] ?? '').replace(/\s+/g, ' ').trim(),
+    lowerLimit: items['F'] ? parseNotamLimit(items['F']) : undefined,
+    upperLimit: items['G'] ? parseNotamLimit(items['G']) : undefined,
+    raw,
+  };
+}
+
+/**
+ * Describe a Q-code subject.
+ *
+ * @param subject - The two-letter subject code.
+ * @returns The description, or the code itself if unknown.
+ */
+export function describeQCodeSubject(subject: string): string {
+  return QCODE_SUBJECTS[subject] ?? subject;
+}
+
+/**
+ * Describe a Q-code condition.
+ *
+ * @param condition - The two-letter condition code.
+ * @returns The description, or the code itself if unknown.
+ */
+export function describeQCodeCondition(condition: string): string {
+  return QCODE_CONDITIONS[condition] ?? condition;
+}
+
+/**
+ * Derive the NOTAM type from a Q-line.
+ */
+function notamType(qLine?: NotamQLine): NotamType {
+  if (!qLine) {
+    return NotamType.M;
+  }
+  if (qLine.subject === 'OB' || qLine.subject === 'OL') {
+    return NotamType.O;
+  }
+  return QCODE_TYPES[qLine.subject[0]] ?? NotamType.M;
+}
+
+/**
+ * Derive the NOTAM scope from a Q-line. Combined scopes use the first letter.
+ */
+function notamScope(qLine?: NotamQLine): NotamScope {
+  const scope = qLine?.scope[0];
+  return scope && Object.values(NotamScope).includes(scope as NotamScope) ? scope as NotamScope : NotamScope.A;
+}
+
+/**
+ * Derive the NOTAM priority from a decoded NOTAM.
+ *
+ * NOTAMs for the whole FIR have FIR priority, those flagged for immediate attention are urgent.
+ */
+function notamPriority(notam: IcaoNotam): NotamPriority {
+  if (notam.qLine && notam.locations.length > 0 && notam.locations.every((location) => location === notam.qLine!.fir)) {
+    return NotamPriority.FIR;
+  }
+  if (notam.qLine?.purpose.includes('N')) {
+    return NotamPriority.URGENT;
+  }
+  return NotamPriority.NORMAL;
+}
+
+/**
+ * Convert a decoded ICAO NOTAM to a Notam.
+ *
+ * Limits come from items F and G, falling back to the Q-line flight levels.
+ * ICAO NOTAMs carry no issue time, so it defaults to the start of validity.
+ *
+ * @param notam - The decoded ICAO NOTAM.
+ * @param issued - When the NOTAM was issued, if known.
+ * @returns The Notam object.
+ */
+export function icaoNotamToNotam(notam: IcaoNotam, issued?: Date): Notam {
+  const location = notam.locations.find((candidate) => isICAO(candidate));
+  const lowerLimit = notam.lowerLimit?.value ?? (notam.qLine?.lowerLimit !== undefined ? notam.qLine.lowerLimit * 100 : undefined);
+  const upperLimit = notam.upperLimit?.value ?? (notam.qLine?.upperLimit !== undefined ? notam.qLine.upperLimit * 100 : undefined);
+
+  return {
+    id: notam.id,
+    icao: location ? normalizeICAO(location) : undefined,
+    type: notamType(notam.qLine),
+    scope: notamScope(notam.qLine),
+    priority: notamPriority(notam),
+    subject: notam.qLine ? describeQCodeSubject(notam.qLine.subject) : '',
+    text: notam.text,
+    condition: notam.qLine ? describeQCodeCondition(notam.qLine.condition) : undefined,
+    coordinates: notam.qLine?.coordinates,
+    lowerLimit,
+    upperLimit,
+    schedule: {
+      effectiveFrom: notam.validFrom ?? issued ?? new Date(),
+      effectiveUntil: notam.validUntil,
+      schedule: notam.schedule,
+      estimated: notam.estimated,
+      permanent: notam.permanent,
+    },
+    issued: issued ?? notam.validFrom ?? new Date(),
+    raw: notam.raw,
+    series: notam.series,
+    number: notam.number,
+    year: notam.year,
+    replacement: notam.kind === IcaoNotamKind.Replace ? notam.reference : undefined,
+    cancels: notam.kind === IcaoNotamKind.Cancel && notam.reference ? [notam.reference] : undefined,
+  };
+}
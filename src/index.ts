@@ -2,34 +2,321 @@ export {
   default as notamProvider,
   getNotamsByIcao,
   getNotamsByTransactionId,
-  type FAANotamOptions
+  getNotamsByBbox,
+  getNotamsByCorridor,
+  searchNotams,
+  searchRawNotams,
+  iterateRawNotams,
+  faaNotamRecordSchema,
+  type FAANotamOptions,
+  type NotamSearch,
+  type FAARawNotam,
+  type FAANotamRecord,
+  type NotamProvider
 } from "./faa-notam.js";
 
+export {
+  default as nmsNotamProvider,
+  getNmsNotamsByIcao,
+  getNmsNotamsByBbox,
+  getNmsNotamsByCorridor,
+  getNmsNotamByTransactionId,
+  searchNmsNotams,
+  searchRawNmsNotams,
+  iterateRawNmsNotams,
+  nmsNotamRecordSchema,
+  type NmsNotamRecord,
+  type NmsOptions,
+  type NmsResponseFormat
+} from "./faa-nms.js";
+
 export {
   default as metarProvider,
   getMetarStationsByIcao,
   getMetarStationsByBbox,
-  type MetarOptions
+  getMetarStationsByCorridor,
+  aviationWeatherMetarSchema,
+  type AviationWeatherMetar,
+  type MetarOptions,
+  type MetarStationProvider,
+  type CorridorMetarStation
 } from "./aviationweather.js";
 
+export {
+  default as noaaMetarProvider,
+  getNoaaMetarStationsByIcao,
+  getNoaaMetarStationsByBbox,
+  getNoaaMetarStationsByCorridor,
+  parseNoaaReports,
+  createStationLocator,
+  aerodromeStationLocator,
+  type NoaaOptions,
+  type NoaaReport,
+  type StationLocator
+} from "./noaa-weather.js";
+
+export {
+  default as batchMetarProvider,
+  METAR_BATCH_CONFIG,
+  type MetarBatchOptions
+} from "./metar-batch.js";
+
+export {
+  default as failoverMetarProvider,
+  type MetarFailoverOptions
+} from "./metar-failover.js";
+
+export {
+  corridorPolygon,
+  corridorBboxes,
+  routePosition,
+  type Route,
+  type RoutePosition
+} from "./corridor.js";
+
+export {
+  parseTaf,
+  forecastAt,
+  TafChangeType,
+  type Taf,
+  type TafConditions,
+  type TafChangeGroup,
+  type TafCloud,
+  type TafForecast,
+  type MetarStationWithTaf
+} from "./taf.js";
+
 export {
   default as aerodromeProvider,
   getAerodromeByIcao,
   getAerodromeByIata,
+  getAerodromeByIdentifier,
+  searchAerodromes,
   getAerodromeByRadius,
+  iterateAerodromeByRadius,
+  iterateAerodromeByBbox,
+  iterateAerodromeByCountry,
+  findNearestAerodromes,
+  type AerodromeDetails,
+  type AerodromeQueryOptions,
+  type AerodromeCandidate,
+  type NearestAerodrome,
+  type NearestAerodromeOptions,
+  type AerodromeProvider,
   type OpenAipOptions
 } from "./aerodrome.js";
 
 export {
   default as navaidProvider,
   getNavaidByIcao,
+  getNavaidByRadius,
+  getNavaidByBbox,
+  iterateNavaidByRadius,
+  iterateNavaidByBbox,
+  iterateNavaidByCountry,
+  NavaidType,
+  type Navaid,
+  type NavaidFrequency,
+  type NavaidProvider
 } from "./navaid.js";
 
 export {
-  ApiError
+  createOpenAipSnapshot,
+  serializeOpenAipSnapshot,
+  parseOpenAipSnapshot,
+  diffOpenAipSnapshots,
+  offlineAerodromeProvider,
+  offlineNavaidProvider,
+  OPENAIP_SNAPSHOT_CONFIG,
+  type OpenAipSnapshot,
+  type SnapshotArea,
+  type SnapshotFormat,
+  type SnapshotDelta,
+  type SnapshotRecordDelta,
+  type SnapshotChange
+} from "./openaip-snapshot.js";
+
+export {
+  createSpatialIndex,
+  type SpatialIndex,
+  type SpatialMatch
+} from "./spatial-index.js";
+
+export {
+  default as airspaceProvider,
+  getAirspaceByBbox,
+  getAirspaceByPoint,
+  getAirspaceByRadius,
+  airspacesAtPoint,
+  airspacesAlongRoute,
+  isWithinVerticalLimits,
+  limitToAltitude,
+  AirspaceType,
+  type Airspace,
+  type AirspaceClass,
+  type AirspaceProperties,
+  type AirspaceActivity,
+  type AirspacePenetration,
+  type AirspaceProvider,
+  type AltitudeLimit,
+  type AltitudeDatum,
+  type AltitudeReference
+} from "./airspace.js";
+
+export {
+  parseIcaoNotam,
+  parseQLine,
+  parseNotamLimit,
+  icaoNotamToNotam,
+  describeQCodeSubject,
+  describeQCodeCondition,
+  IcaoNotamKind,
+  type IcaoNotam,
+  type NotamQLine
+} from "./icao-notam.js";
+
+export {
+  parseNotamGeometry,
+  notamGeometry,
+  notamCircle,
+  notamFeature,
+  notamFeatureCollection,
+  notamsInBbox,
+  notamsAlongRoute,
+  geometryCenter,
+  type GeoNotam,
+  type CorridorNotam
+} from "./notam-geometry.js";
+
+export {
+  decodeNotamText,
+  expandContraction,
+  type DecodedNotamText,
+  type NotamToken,
+  type NotamTokenKind
+} from "./notam-decoder.js";
+
+export {
+  ICAO_CONTRACTIONS,
+  FAA_CONTRACTIONS
+} from "./notam-contractions.js";
+
+export {
+  filterNotams,
+  classifyNotam,
+  isNotamActive,
+  NotamCategory,
+  NOTAM_FILTER_PRESETS,
+  type NotamFilterOptions
+} from "./notam-filter.js";
+
+export {
+  default as runwayWindProvider,
+  analyzeRunwayWind,
+  getRunwayWindByIcao,
+  reciprocalDesignator,
+  type RunwayWindOptions,
+  type RunwayWindSources,
+  type RunwayWindAdvisory,
+  type RunwayEndWind,
+  type WindComponents,
+  type RunwayWindProvider
+} from "./runway-wind.js";
+
+export {
+  toMeters,
+  toFeet,
+  toNauticalMiles,
+  normalizeElevation,
+  normalizeAltitude,
+  OpenAipUnit,
+  OpenAipDatum
+} from "./openaip-units.js";
+
+export {
+  ApiError,
+  HttpStatusError,
+  AuthenticationError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  ResponseParseError,
+  SchemaValidationError,
+  CircuitOpenError,
+  InvalidInputError,
+  type ApiErrorCode
 } from "./error.js";
 
 export {
   fetchApi,
-  type FetchFunction
+  parseJsonResponse,
+  type FetchFunction,
+  type FetchApiOptions
 } from "./http.js";
+
+export {
+  createMemoryCache,
+  type CacheStore,
+  type CacheEntry,
+  type CacheOptions,
+  type CallOptions,
+  type MemoryCacheOptions
+} from "./cache.js";
+
+export {
+  DEFAULT_RETRY_POLICY,
+  type RetryOptions
+} from "./retry.js";
+
+export {
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitHealth,
+  type CircuitState,
+  type LatencyPercentiles
+} from "./circuit-breaker.js";
+
+export {
+  registerHooks,
+  withOperation,
+  type RequestHooks,
+  type RequestEvent,
+  type ResponseEvent,
+  type RequestErrorEvent,
+  type CacheHitEvent,
+  type RequestOperation,
+  type HookOptions
+} from "./hooks.js";
+
+export {
+  createTracingHooks,
+  SPAN_KIND_CLIENT,
+  SPAN_STATUS,
+  type Tracer,
+  type TracingSpan,
+  type TracingOptions,
+  type SpanAttributes
+} from "./tracing.js";
+
+export {
+  schema,
+  validateRecords,
+  withWarnings,
+  type Schema,
+  type SchemaIssue,
+  type SchemaWarning,
+  type ValidationMode,
+  type ValidationOptions,
+  type ValidatedResult,
+  type ValidationContext,
+  type Infer
+} from "./schema.js";
+
+export {
+  paginate,
+  collect,
+  type Page,
+  type PaginationOptions
+} from "./pagination.js";
@@ -0,0 +1,119 @@
+import { normalizeICAO, type ICAO } from "flight-planner";
+import { type Route } from "./corridor.js";
+import { type MetarStationProvider } from "./aviationweather.js";
+import { type CallOptions } from "./cache.js";
+import { type MetarStationWithTaf } from "./taf.js";
+import { type ValidatedResult } from "./schema.js";
+
+export const METAR_BATCH_CONFIG = {
+  WINDOW: 10, // Milliseconds to collect calls before sending the batch
+  MAX_BATCH_SIZE: 100, // Stations per batch, a full batch is sent right away
+} as const;
+
+/**
+ * Options for METAR batching.
+ *
+ * @property window - Milliseconds to collect calls before sending them as one request (default: 10).
+ * @property maxBatchSize - Maximum number of stations per batch (default: 100).
+ */
+export interface MetarBatchOptions {
+  window?: number;
+  maxBatchSize?: number;
+}
+
+interface BatchCaller {
+  icao: ICAO[];
+  resolve: (stations: ValidatedResult<MetarStationWithTaf>) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Batch {
+  date?: Date;
+  icao: Set<ICAO>;
+  callers: BatchCaller[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Factory function to create a METAR station provider batching ICAO lookups.
+ *
+ * Calls to getByIcao made within the batch window, for the same date, are merged into a
+ * single lookup. Each caller receives only the stations it asked for, in the order asked.
+ * Bounding box and corridor lookups, and lookups bypassing the cache, are passed through.
+ *
+ * @param provider - The provider to batch, e.g. the aviationweather.gov provider.
+ * @param options - Optional batching options.
+ * @returns A METAR station provider.
+ */
+export default function batchMetarProvider(provider: MetarStationProvider, options: MetarBatchOptions = {}): MetarStationProvider {
+  const { window = METAR_BATCH_CONFIG.WINDOW, maxBatchSize = METAR_BATCH_CONFIG.MAX_BATCH_SIZE } = options;
+  const batches = new Map<string, Batch>();
+
+  const flush = async (key: string, batch: Batch): Promise<void> => {
+    clearTimeout(batch.timer);
+    if (batches.get(key) === batch) {
+      batches.delete(key);
+    }
+
+    try {
+      const result = await provider.getByIcao([...batch.icao], batch.date);
+      const stations = new Map<string, MetarStationWithTaf>();
+      for (const station of result) {
+        stations.set(station.station, station);
+      }
+      for (const caller of batch.callers) {
+        const own: ValidatedResult<MetarStationWithTaf> = caller.icao.map((icao) => stations.get(icao)).filter((station) => station !== undefined);
+        // Skipped records cannot always be attributed to a station, so every caller sees them
+        if (result.warnings) {
+          own.warnings = result.warnings;
+        }
+        caller.resolve(own);
+      }
+    } catch (error) {
+      for (const caller of batch.callers) {
+        caller.reject(error);
+      }
+    }
+  };
+
+  const createBatch = (key: string, date?: Date): Batch => {
+    const batch: Batch = { date, icao: new Set(), callers: [] };
+    batch.timer = setTimeout(() => void flush(key, batch), window);
+    batches.set(key, batch);
+    return batch;
+  };
+
+  const getByIcao = (icao: ICAO[], date?: Date, call?: CallOptions): Promise<ValidatedResult<MetarStationWithTaf>> => {
+    if (call?.bypass) {
+      // A call bypassing the cache must not be served the result of a batched, cached lookup
+      return provider.getByIcao(icao, date, call);
+    }
+
+    const codes = [...new Set(icao.map((code) => normalizeICAO(code) as ICAO))];
+    if (!codes.length) {
+      return Promise.resolve([]);
+    }
+
+    return new Promise((resolve, reject) => {
+      const key = date ? date.toISOString() : 'latest';
+      const current = batches.get(key);
+      const fits = !current || current.icao.size + codes.filter((code) => !current.icao.has(code)).length <= maxBatchSize;
+      if (current && !fits) {
+        // The caller does not fit, send the pending batch now and start a new one
+        void flush(key, current);
+      }
+      const batch = current && fits ? current : createBatch(key, date);
+
+      codes.forEach((code) => batch.icao.add(code));
+      batch.callers.push({ icao: codes, resolve, reject });
+      if (batch.icao.size >= maxBatchSize) {
+        void flush(key, batch);
+      }
+    });
+  };
+
+  return {
+    getByIcao,
+    getByBbox: (bbox: GeoJSON.BBox, date?: Date, call?: CallOptions) => provider.getByBbox(bbox, date, call),
+    getByCorridor: (route: Route, widthNm: number, date?: Date, call?: CallOptions) => provider.getByCorridor(route, widthNm, date, call)
+  };
+}
@@ -0,0 +1,56 @@
+import { type ICAO } from "flight-planner";
+import { ApiError, InvalidInputError } from "./error.js";
+import { type Route } from "./corridor.js";
+import { type MetarStationProvider } from "./aviationweather.js";
+import { type CallOptions } from "./cache.js";
+
+/**
+ * Options for METAR failover.
+ *
+ * @property onFailover - Called when a provider fails and the next one is tried.
+ */
+export interface MetarFailoverOptions {
+  onFailover?: (error: ApiError, index: number) => void;
+}
+
+/**
+ * Call the providers in order until one succeeds.
+ *
+ * Only upstream failures fail over, invalid input is rejected by the first provider.
+ *
+ * @throws {ApiError} The error of the last provider if all fail.
+ */
+async function withFailover<T>(
+  providers: MetarStationProvider[],
+  options: MetarFailoverOptions,
+  call: (provider: MetarStationProvider) => Promise<T>
+): Promise<T> {
+  for (let index = 0; ; index++) {
+    try {
+      return await call(providers[index]);
+    } catch (error) {
+      if (!(error instanceof ApiError) || error instanceof InvalidInputError || index >= providers.length - 1) {
+        throw error;
+      }
+      options.onFailover?.(error, index);
+    }
+  }
+}
+
+/** Factory function to create a METAR station provider failing over between sources.
+ *
+ * @param providers - The providers in order of preference, e.g. aviationweather.gov then NOAA.
+ * @param options - Optional failover options.
+ * @returns An object with methods to get METAR data by ICAO codes, bounding box or route corridor.
+ */
+export default function failoverMetarProvider(providers: MetarStationProvider[], options: MetarFailoverOptions = {}): MetarStationProvider {
+  if (providers.length === 0) {
+    throw new InvalidInputError('METAR', 'At least one provider is required', 'providers');
+  }
+
+  return {
+    getByIcao: (icao: ICAO[], date?: Date, call?: CallOptions) => withFailover(providers, options, (provider) => provider.getByIcao(icao, date, call)),
+    getByBbox: (bbox: GeoJSON.BBox, date?: Date, call?: CallOptions) => withFailover(providers, options, (provider) => provider.getByBbox(bbox, date, call)),
+    getByCorridor: (route: Route, widthNm: number, date?: Date, call?: CallOptions) => withFailover(providers, options, (provider) => provider.getByCorridor(route, widthNm, date, call))
+  };
+}
@@ -1,35 +1,139 @@
-import { type Aerodrome } from "flight-planner";
-import { fetchApi, type FetchFunction } from "./http.js";
-import { ApiError } from "./error.js";
-import { OPENAIP_API_CONFIG, type OpenAipNavaidItem, type OpenAipResponse } from "./openaip-config.js";
-
-export interface OpenAipOptions {
-  apiKey: string;
-  fetcher?: FetchFunction;
+import { WaypointVariant, type Waypoint } from "flight-planner";
+import { fetchApi, parseJsonResponse, type FetchApiOptions } from "./http.js";
+import { createHttpStatusError, InvalidInputError } from "./error.js";
+import { capitalizeWords } from "flight-planner/utils";
+import { paginate, collect, type Page } from "./pagination.js";
+import { normalizeElevation, toNauticalMiles } from "./openaip-units.js";
+import { normalizeSearchTerm, OPENAIP_API_CONFIG, openAipNavaidSchema, openAipPage, type OpenAipNavaidItem, type OpenAipResponse, type OpenAipOptions } from "./openaip-config.js";
+import { validateRecords, withWarnings, type ValidatedResult } from "./schema.js";
+import { withOperation } from "./hooks.js";
+import { withCallOptions, type CallOptions } from "./cache.js";
+
+export type { OpenAipOptions };
+
+/**
+ * Enumeration of radio navigation aid types.
+ */
+export enum NavaidType {
+  VOR = 'VOR',
+  VOR_DME = 'VOR-DME',
+  VORTAC = 'VORTAC',
+  NDB = 'NDB',
+  DME = 'DME',
+  TACAN = 'TACAN',
+}
+
+/**
+ * Represents a navaid frequency.
+ *
+ * @property value - The frequency value in the given unit (e.g. 114.3 MHz, 352 kHz).
+ * @property unit - kHz for NDB, MHz for VOR and DME.
+ */
+export interface NavaidFrequency {
+  value: number;
+  unit: 'kHz' | 'MHz';
+}
+
+/**
+ * Represents a radio navigation aid.
+ *
+ * @property identifier - The navaid identifier (e.g. "SPY").
+ * @property type - The navaid type.
+ * @property doppler - Whether the VOR is a Doppler VOR.
+ * @property frequency - The navaid frequency, if any. TACAN and DME are tuned by channel.
+ * @property channel - TACAN/DME channel (e.g. "89X").
+ * @property elevation - Elevation in feet MSL.
+ * @property declination - Magnetic variation at the navaid in degrees, east positive.
+ * @property range - Service range in nautical miles.
+ * @property alignedTrueNorth - Whether the radials are aligned to true north instead of magnetic north.
+ * @property country - ISO country code.
+ */
+export interface Navaid extends Waypoint {
+  readonly identifier: string;
+  readonly type: NavaidType;
+  readonly doppler?: boolean;
+  readonly frequency?: NavaidFrequency;
+  readonly channel?: string;
+  readonly range?: number;
+  readonly alignedTrueNorth?: boolean;
+  readonly country?: string;
+  readonly waypointVariant: WaypointVariant.Waypoint;
 }
 
 export interface NavaidProvider {
-  getByIcao(identifier: string): Promise<Aerodrome[]>;
+  getByIcao(identifier: string, call?: CallOptions): Promise<ValidatedResult<Navaid>>;
+  getByRadius(location: GeoJSON.Position, distance?: number, call?: CallOptions): Promise<ValidatedResult<Navaid>>;
+  getByBbox(bbox: GeoJSON.BBox, call?: CallOptions): Promise<ValidatedResult<Navaid>>;
+  iterateByRadius(location: GeoJSON.Position, distance?: number, call?: CallOptions): AsyncGenerator<Navaid, void, undefined>;
+  iterateByBbox(bbox: GeoJSON.BBox, call?: CallOptions): AsyncGenerator<Navaid, void, undefined>;
+}
+
+/** OpenAIP navaid type codes, with the Doppler flag for DVOR variants */
+const OPENAIP_NAVAID_TYPES: Record<number, [NavaidType, boolean]> = {
+  0: [NavaidType.DME, false],
+  1: [NavaidType.TACAN, false],
+  2: [NavaidType.NDB, false],
+  3: [NavaidType.VOR, false],
+  4: [NavaidType.VOR_DME, false],
+  5: [NavaidType.VORTAC, false],
+  6: [NavaidType.VOR, true],
+  7: [NavaidType.VOR_DME, true],
+  8: [NavaidType.VORTAC, true],
+};
+
+/**
+ * Map an OpenAIP navaid item to a Navaid.
+ *
+ * @param navaid - The OpenAIP navaid item.
+ * @returns The Navaid object.
+ */
+function transformNavaid(navaid: OpenAipNavaidItem): Navaid {
+  const [type, doppler] = OPENAIP_NAVAID_TYPES[navaid.type ?? 3] ?? [NavaidType.VOR, false];
+
+  let frequency: NavaidFrequency | undefined;
+  if (navaid.frequency && navaid.frequency.value !== undefined) {
+    const value = parseFloat(String(navaid.frequency.value));
+    const unit = navaid.frequency.unit !== undefined
+      ? (navaid.frequency.unit === OPENAIP_API_CONFIG.FREQUENCY_UNIT_KHZ ? 'kHz' : 'MHz')
+      : (type === NavaidType.NDB ? 'kHz' : 'MHz');
+    frequency = isNaN(value) ? undefined : { value, unit };
+  }
+
+  return {
+    identifier: navaid.identifier.toUpperCase(),
+    name: navaid.name ? capitalizeWords(navaid.name) : navaid.identifier,
+    type,
+    doppler: doppler || undefined,
+    coords: navaid.geometry.coordinates, // [lon, lat]
+    elevation: normalizeElevation(navaid.elevation),
+    frequency,
+    channel: navaid.channel || undefined,
+    declination: navaid.magneticDeclination,
+    range: toNauticalMiles(navaid.range?.value, navaid.range?.unit),
+    alignedTrueNorth: navaid.alignedTrueNorth,
+    country: navaid.country,
+    waypointVariant: WaypointVariant.Waypoint,
+  };
 }
 
 /**
  * Base API function for fetching OpenAIP navaid data.
  *
  * @param uri - The URI path to append to the base URL.
- * @param apiKey - The OpenAIP API key for authentication.
- * @param options - Additional fetch options.
- * @param fetcher - Custom fetch function (defaults to global fetch).
- * @returns Promise resolving to an array of navaid objects (mapped to Aerodrome structure until Navaid type is available).
- * @throws Will throw an error if the API request fails.
+ * @param options - Provider options including API key, custom fetcher and response cache.
+ * @param init - Additional fetch options.
+ * @returns Promise resolving to a page of Navaid objects.
+ * @throws {ApiError} Will throw an ApiError subclass if the API request fails.
  */
 async function baseApi(
   uri: string,
-  apiKey: string,
-  options: RequestInit = {},
-  fetcher: FetchFunction = fetch
-): Promise<Aerodrome[]> {
-  const apiOptions: RequestInit & { timeout?: number; cf?: object } = {
-    ...options,
+  options: OpenAipOptions,
+  init: RequestInit = {}
+): Promise<Page<Navaid>> {
+  const { fetcher = fetch, apiKey, cache, retry, circuitBreaker, hooks, operation } = options;
+  const apiOptions: FetchApiOptions = {
+    ...init,
+    service: 'OpenAIP',
     headers: {
       "x-openaip-api-key": apiKey
     },
@@ -37,56 +141,157 @@ async function baseApi(
       cacheTtl: OPENAIP_API_CONFIG.CACHE_TTL,
       cacheEverything: true,
     },
+    responseCache: cache ? { ...cache, ttl: cache.ttl ?? OPENAIP_API_CONFIG.CACHE_TTL } : undefined,
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
+    dedupe: true,
     timeout: OPENAIP_API_CONFIG.TIMEOUT
   };
 
-  const response = await fetchApi(fetcher, `${OPENAIP_API_CONFIG.API_URL}${uri}`, apiOptions);
+  const endpoint = `${OPENAIP_API_CONFIG.API_URL}${uri}`;
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
   if (!response.ok) {
     await response.body?.cancel();
-    throw new ApiError('OpenAIP', `${OPENAIP_API_CONFIG.API_URL}${uri}`, apiOptions, `HTTP ${response.status} - ${response.statusText}`);
+    throw createHttpStatusError('OpenAIP', endpoint, apiOptions, response);
   }
 
-  const data = await response.json() as OpenAipResponse<OpenAipNavaidItem>;
+  const data = await parseJsonResponse<OpenAipResponse<OpenAipNavaidItem>>(response, 'OpenAIP', endpoint, apiOptions);
   if (!data || !data.items || data.items.length === 0) {
-    return [];
+    return openAipPage(data, []);
   }
 
-  // Map OpenAIP navaid to Aerodrome structure (best effort)
-  return data.items
-    .filter((navaid) => navaid.identifier)
-    .map((navaid) => ({
-      icao: navaid.identifier,
-      name: navaid.name || navaid.identifier,
-      coords: navaid.geometry.coordinates, // [lon, lat]
-      elevation: navaid.elevation?.value || 0,
-      runways: [], // Navaids don't have runways
-      frequencies: navaid.frequency ? [{
-        type: 'NAV', // Generic NAV type
-        frequency: navaid.frequency.value,
-        name: navaid.name
-      }] : [],
-    } as unknown as Aerodrome));
+  return openAipPage(data, validateRecords(data.items, openAipNavaidSchema, transformNavaid, { service: 'OpenAIP', endpoint, requestOptions: apiOptions, options }));
 }
 
 /**
  * Get navaid information for a specific identifier.
  *
+ * Only navaids whose identifier matches exactly are returned.
+ *
  * @param identifier - The identifier of the navaid to fetch.
- * @returns Promise resolving to an array of navaid objects.
+ * @returns Promise resolving to an array of Navaid objects.
+ * @throws {InvalidInputError} If the identifier is empty.
+ */
+export async function getNavaidByIcao(identifier: string, options: OpenAipOptions): Promise<ValidatedResult<Navaid>> {
+  const term = normalizeSearchTerm(identifier);
+  if (!term) {
+    throw new InvalidInputError('OpenAIP', "Identifier must not be empty", 'identifier');
+  }
+
+  return withWarnings(options, async (options) => {
+    const { items } = await baseApi(`navaids?search=${encodeURIComponent(identifier.trim())}&limit=${OPENAIP_API_CONFIG.CANDIDATE_LIMIT}`, options);
+    return items.filter((navaid) => normalizeSearchTerm(navaid.identifier) === term);
+  });
+}
+
+/**
+ * Iterate over navaids within a radius from a location, fetching pages as needed.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param distance - Distance in kilometers (default: 50).
+ * @returns An async iterator of Navaid objects, limited by the pagination options.
+ * @throws {InvalidInputError} If distance is negative or location format is invalid.
+ */
+export async function* iterateNavaidByRadius(
+  location: GeoJSON.Position,
+  distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM,
+  options: OpenAipOptions
+): AsyncGenerator<Navaid, void, undefined> {
+  if (distance <= 0) {
+    throw new InvalidInputError('OpenAIP', "Distance must be a positive number", 'distance');
+  }
+  if (location.length !== 2) {
+    throw new InvalidInputError('OpenAIP', "Location must be a 2D coordinate", 'location');
+  }
+
+  const distanceInMeters = distance * OPENAIP_API_CONFIG.KM_TO_METERS;
+  const lat = parseFloat(location[1].toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION));
+  const lon = parseFloat(location[0].toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION));
+
+  yield* paginate(
+    (page) => baseApi(`navaids?pos=${lat},${lon}&dist=${distanceInMeters}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}&page=${page}`, options),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  );
+}
+
+/**
+ * Get navaids within a radius from a location.
+ *
+ * All result pages are fetched, up to the limits in the pagination options.
+ *
+ * @param location - GeoJSON Position [longitude, latitude].
+ * @param distance - Distance in kilometers (default: 50).
+ * @returns Promise resolving to an array of Navaid objects.
+ * @throws {InvalidInputError} If distance is negative or location format is invalid.
  */
-export async function getNavaidByIcao(identifier: string, options: OpenAipOptions): Promise<Aerodrome[]> {
-  const { fetcher = fetch, apiKey } = options;
-  return baseApi(`navaids?search=${encodeURIComponent(identifier)}&limit=${OPENAIP_API_CONFIG.SEARCH_LIMIT}`, apiKey, {}, fetcher);
+export async function getNavaidByRadius(
+  location: GeoJSON.Position,
+  distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM,
+  options: OpenAipOptions
+): Promise<ValidatedResult<Navaid>> {
+  return withWarnings(options, (options) => collect(iterateNavaidByRadius(location, distance, options)));
+}
+
+/**
+ * Iterate over navaids within a bounding box, fetching pages as needed.
+ *
+ * @param bbox - GeoJSON bounding box [west, south, east, north].
+ * @returns An async iterator of Navaid objects, limited by the pagination options.
+ */
+export async function* iterateNavaidByBbox(bbox: GeoJSON.BBox, options: OpenAipOptions): AsyncGenerator<Navaid, void, undefined> {
+  const bboxParam = bbox.slice(0, 4).map((value) => parseFloat(value.toFixed(OPENAIP_API_CONFIG.COORDINATE_PRECISION))).join(',');
+  yield* paginate(
+    (page) => baseApi(`navaids?bbox=${bboxParam}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}&page=${page}`, options),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  );
+}
+
+/**
+ * Iterate over the navaids of a country, fetching pages as needed.
+ *
+ * @param country - ISO 3166-1 alpha-2 country code, e.g. "NL".
+ * @returns An async iterator of Navaid objects, limited by the pagination options.
+ * @throws {InvalidInputError} If the country code is invalid.
+ */
+export async function* iterateNavaidByCountry(country: string, options: OpenAipOptions): AsyncGenerator<Navaid, void, undefined> {
+  if (!/^[A-Z]{2}$/i.test(country)) {
+    throw new InvalidInputError('OpenAIP', "Country must be an ISO 3166-1 alpha-2 code", 'country');
+  }
+
+  yield* paginate(
+    (page) => baseApi(`navaids?country=${country.toUpperCase()}&limit=${OPENAIP_API_CONFIG.RADIUS_LIMIT}&page=${page}`, options),
+    { maxPages: OPENAIP_API_CONFIG.MAX_PAGES, ...options.pagination }
+  );
+}
+
+/**
+ * Get navaids within a bounding box.
+ *
+ * All result pages are fetched, up to the limits in the pagination options.
+ *
+ * @param bbox - GeoJSON bounding box [west, south, east, north].
+ * @returns Promise resolving to an array of Navaid objects.
+ */
+export async function getNavaidByBbox(bbox: GeoJSON.BBox, options: OpenAipOptions): Promise<ValidatedResult<Navaid>> {
+  return withWarnings(options, (options) => collect(iterateNavaidByBbox(bbox, options)));
 }
 
 /**
  * Navaid data provider.
  *
  * @param options - Configuration options including API key and optional custom fetcher.
- * @returns An object with methods to fetch navaid data by ICAO code.
+ * @returns An object with methods to fetch navaid data by identifier, radius or bounding box.
  */
 export default function navaidProvider(options: OpenAipOptions): NavaidProvider {
+  const callOptions = (operation: string, call?: CallOptions): OpenAipOptions => withCallOptions(withOperation(options, 'navaid', operation), call);
+
   return {
-    getByIcao: (identifier: string) => getNavaidByIcao(identifier, options),
+    getByIcao: (identifier: string, call?: CallOptions) => getNavaidByIcao(identifier, callOptions('getByIcao', call)),
+    getByRadius: (location: GeoJSON.Position, distance?: number, call?: CallOptions) => getNavaidByRadius(location, distance, callOptions('getByRadius', call)),
+    getByBbox: (bbox: GeoJSON.BBox, call?: CallOptions) => getNavaidByBbox(bbox, callOptions('getByBbox', call)),
+    iterateByRadius: (location: GeoJSON.Position, distance?: number, call?: CallOptions) => iterateNavaidByRadius(location, distance, callOptions('iterateByRadius', call)),
+    iterateByBbox: (bbox: GeoJSON.BBox, call?: CallOptions) => iterateNavaidByBbox(bbox, callOptions('iterateByBbox', call)),
   };
 }
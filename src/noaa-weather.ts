@@ -0,0 +1,370 @@
+import { createMetarFromString, isICAO, normalizeICAO, type ICAO } from "flight-planner";
+import { fetchApi, type FetchApiOptions } from "./http.js";
+import { createHttpStatusError, InvalidInputError } from "./error.js";
+import { parseTaf, type MetarStationWithTaf } from "./taf.js";
+import { corridorBboxes, corridorPolygon, isInCorridor, routePosition, type Route } from "./corridor.js";
+import { bboxCircle } from "./notam-geometry.js";
+import { type AerodromeProvider } from "./aerodrome.js";
+import { type CorridorMetarStation, type MetarOptions, type MetarStationProvider } from "./aviationweather.js";
+import { withOperation } from "./hooks.js";
+import { withCallOptions, type CallOptions } from "./cache.js";
+
+const NOAA_API_CONFIG = {
+  API_URL: 'https://tgftp.nws.noaa.gov/data/',
+  METAR_STATIONS: 'observations/metar/stations/',
+  METAR_CYCLES: 'observations/metar/cycles/',
+  TAF_STATIONS: 'forecasts/taf/stations/',
+  TAF_CYCLES: 'forecasts/taf/cycles/',
+  CACHE_TTL: 60, // 1 minute for weather data
+  TIMEOUT: 10000, // 10 seconds
+  METAR_CYCLE_HOURS: 2, // Hourly cycle files read for the latest METAR
+  TAF_CYCLE_HOURS: 6, // Hourly cycle files read for the latest TAF
+  HISTORY_HOURS: 24, // Cycle files only cover the last day
+  NM_TO_KM: 1.852,
+} as const;
+
+/**
+ * Locates weather stations, as the NOAA text files carry no coordinates.
+ */
+export interface StationLocator {
+  /** Coordinates [longitude, latitude] of the given stations. Unknown stations are left out. */
+  locate(stations: ICAO[]): Promise<Map<ICAO, GeoJSON.Position>>;
+  /** Stations with their coordinates [longitude, latitude] within a bounding box. */
+  search(bbox: GeoJSON.BBox): Promise<Map<ICAO, GeoJSON.Position>>;
+}
+
+/**
+ * Options for the NOAA text file provider.
+ *
+ * @property stations - Locator for the station coordinates.
+ */
+export interface NoaaOptions extends MetarOptions {
+  stations: StationLocator;
+}
+
+/**
+ * Represents a report from a NOAA text file.
+ *
+ * @property station - The station ICAO code.
+ * @property time - Time the report was observed or issued, from the file header.
+ * @property raw - The report on a single line.
+ */
+export interface NoaaReport {
+  station: ICAO;
+  time: Date;
+  raw: string;
+}
+
+/**
+ * Create a station locator from a list of stations.
+ *
+ * @param stations - The stations with their coordinates [longitude, latitude].
+ * @returns The station locator.
+ */
+export function createStationLocator(stations: Iterable<{ station: string; coords: GeoJSON.Position }>): StationLocator {
+  const coordinates = new Map<ICAO, GeoJSON.Position>();
+  for (const { station, coords } of stations) {
+    if (isICAO(station)) {
+      coordinates.set(normalizeICAO(station), coords);
+    }
+  }
+
+  return {
+    locate: async (icao: ICAO[]) => new Map(icao
+      .map(normalizeICAO)
+      .filter((station) => coordinates.has(station))
+      .map((station) => [station, coordinates.get(station)!])),
+    search: async ([west, south, east, north]: GeoJSON.BBox) => new Map([...coordinates]
+      .filter(([, [longitude, latitude]]) => longitude >= west && longitude <= east && latitude >= south && latitude <= north)),
+  };
+}
+
+/**
+ * Create a station locator backed by an aerodrome provider.
+ *
+ * @param aerodromes - The aerodrome provider, e.g. from OpenAIP.
+ * @returns The station locator.
+ */
+export function aerodromeStationLocator(aerodromes: Pick<AerodromeProvider, 'getByIcao' | 'getByRadius'>): StationLocator {
+  return {
+    locate: async (icao: ICAO[]): Promise<Map<ICAO, GeoJSON.Position>> => {
+      const results = await Promise.all(icao.map((station) => aerodromes.getByIcao(station)));
+      return new Map(results.flatMap((found) => found[0]?.icao ? [[found[0].icao, found[0].coords] as [ICAO, GeoJSON.Position]] : []));
+    },
+    search: async (bbox: GeoJSON.BBox): Promise<Map<ICAO, GeoJSON.Position>> => {
+      const { center, radius } = bboxCircle(bbox);
+      const found = await aerodromes.getByRadius(center, radius * NOAA_API_CONFIG.NM_TO_KM);
+      const [west, south, east, north] = bbox;
+      return new Map(found
+        .filter((aerodrome) => aerodrome.icao)
+        .filter(({ coords: [longitude, latitude] }) => longitude >= west && longitude <= east && latitude >= south && latitude <= north)
+        .map((aerodrome) => [aerodrome.icao!, aerodrome.coords]));
+    },
+  };
+}
+
+/**
+ * Parse a NOAA station or cycle text file.
+ *
+ * Each report is preceded by a "YYYY/MM/DD HH:MM" UTC header line. Reports may span
+ * several lines, as TAFs do, and are separated by blank lines in cycle files.
+ *
+ * @param text - The file content.
+ * @returns The reports, in file order.
+ */
+export function parseNoaaReports(text: string): NoaaReport[] {
+  const reports: NoaaReport[] = [];
+
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    const header = lines[0]?.match(/^(\d{4})\/(\d{2})\/(\d{2})\s+(\d{2}):(\d{2})$/);
+    if (!header || lines.length < 2) {
+      continue;
+    }
+
+    const [, year, month, day, hours, minutes] = header.map((part) => parseInt(part, 10));
+    const time = new Date(Date.UTC(year, month - 1, day, hours, minutes));
+    const raw = lines.slice(1).join(' ').replace(/\s+/g, ' ');
+    const station = raw.match(/^(?:(?:METAR|SPECI|TAF)\s+)?(?:(?:AMD|COR|RTD)\s+)?([A-Z][A-Z0-9]{3})\b/)?.[1];
+    if (station && isICAO(station) && !isNaN(time.getTime())) {
+      reports.push({ station: normalizeICAO(station), time, raw });
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Base API function for fetching a NOAA text file.
+ *
+ * @param path - The path of the file below the base URL.
+ * @param options - Provider options including custom fetcher and response cache.
+ * @returns Promise resolving to the file content, or undefined if the file does not exist.
+ * @throws {ApiError} Will throw an ApiError subclass if the request fails.
+ */
+async function baseApi(path: string, options: MetarOptions = {}): Promise<string | undefined> {
+  const { fetcher = fetch, cache, retry, circuitBreaker, hooks, operation } = options;
+  const apiOptions: FetchApiOptions = {
+    service: 'NOAA',
+    cf: {
+      cacheTtl: NOAA_API_CONFIG.CACHE_TTL,
+      cacheEverything: true,
+    },
+    responseCache: cache ? { ...cache, ttl: cache.ttl ?? NOAA_API_CONFIG.CACHE_TTL } : undefined,
+    retry,
+    circuitBreaker,
+    hooks,
+    operation,
+    timeout: NOAA_API_CONFIG.TIMEOUT
+  };
+
+  const endpoint = `${NOAA_API_CONFIG.API_URL}${path}`;
+  const response = await fetchApi(fetcher, endpoint, apiOptions);
+  if (response.status === 404) {
+    await response.body?.cancel();
+    return undefined;
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw createHttpStatusError('NOAA', endpoint, apiOptions, response);
+  }
+
+  return await response.text();
+}
+
+/**
+ * Keep the latest report of each station, optionally not after a date.
+ */
+function latestByStation(reports: NoaaReport[], date?: Date): Map<ICAO, NoaaReport> {
+  const latest = new Map<ICAO, NoaaReport>();
+  for (const report of reports) {
+    if (date && report.time > date) {
+      continue;
+    }
+    const current = latest.get(report.station);
+    if (!current || report.time >= current.time) {
+      latest.set(report.station, report);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Read the hourly cycle files for the hours up to a date.
+ */
+async function getCycleReports(path: string, hours: number, date: Date, options: MetarOptions): Promise<NoaaReport[]> {
+  const files = await Promise.all(Array.from({ length: hours }, (_, index) => {
+    const hour = new Date(date.getTime() - index * 3600 * 1000).getUTCHours();
+    return baseApi(`${path}${String(hour).padStart(2, '0')}Z.TXT`, options);
+  }));
+  return files.flatMap((file) => file ? parseNoaaReports(file) : []);
+}
+
+/**
+ * Check that a date is covered by the cycle files.
+ *
+ * @throws {InvalidInputError} If the date is not within the last 24 hours.
+ */
+function validateDate(date: Date): void {
+  const now = Date.now();
+  if (date.getTime() > now || date.getTime() < now - NOAA_API_CONFIG.HISTORY_HOURS * 3600 * 1000) {
+    throw new InvalidInputError('NOAA', `Date must be within the last ${NOAA_API_CONFIG.HISTORY_HOURS} hours`, 'date');
+  }
+}
+
+/**
+ * Combine the reports of located stations. Stations without METAR or with an unreadable METAR are left out,
+ * stations with an unreadable TAF keep the raw TAF without the decoded forecast.
+ */
+function toStations(
+  located: Map<ICAO, GeoJSON.Position>,
+  metars: Map<ICAO, NoaaReport>,
+  tafs: Map<ICAO, NoaaReport>
+): MetarStationWithTaf[] {
+  const stations: MetarStationWithTaf[] = [];
+  for (const [station, coords] of located) {
+    const report = metars.get(station);
+    if (!report) {
+      continue;
+    }
+
+    let metar;
+    try {
+      metar = { ...createMetarFromString(report.raw), observationTime: report.time };
+    } catch {
+      continue;
+    }
+
+    // An unreadable TAF only loses the decoded forecast, the raw TAF is kept
+    const tafRaw = tafs.get(station)?.raw;
+    let taf;
+    try {
+      taf = tafRaw ? parseTaf(tafRaw, metar.observationTime) : undefined;
+    } catch {
+      taf = undefined;
+    }
+
+    stations.push({
+      station,
+      metar,
+      tafRaw,
+      taf,
+      coords
+    });
+  }
+  return stations;
+}
+
+/**
+ * Get METARs and TAFs of located stations from the cycle files.
+ *
+ * TAFs are only included for the current time, as the TAF valid at a past date is not known.
+ */
+async function getStationsFromCycles(located: Map<ICAO, GeoJSON.Position>, date: Date | undefined, options: NoaaOptions): Promise<MetarStationWithTaf[]> {
+  if (located.size === 0) {
+    return [];
+  }
+
+  const [metars, tafs] = await Promise.all([
+    getCycleReports(NOAA_API_CONFIG.METAR_CYCLES, NOAA_API_CONFIG.METAR_CYCLE_HOURS, date ?? new Date(), options),
+    date ? Promise.resolve([]) : getCycleReports(NOAA_API_CONFIG.TAF_CYCLES, NOAA_API_CONFIG.TAF_CYCLE_HOURS, new Date(), options),
+  ]);
+  return toStations(located, latestByStation(metars, date), latestByStation(tafs));
+}
+
+/**
+ * Get METAR information for specific ICAO codes from the NOAA text files.
+ *
+ * The latest reports are read from the station files, reports at a past date from the cycle files.
+ * Stations unknown to the station locator are left out, as the files carry no coordinates.
+ *
+ * @param icao - Array of ICAO airport codes.
+ * @param date - Optional date within the last 24 hours to fetch METARs for a specific time.
+ * @param options - Provider options including the station locator.
+ * @returns Promise resolving to an array of MetarStation objects with decoded TAF.
+ * @throws {InvalidInputError} If the date is not within the last 24 hours.
+ */
+export async function getNoaaMetarStationsByIcao(icao: ICAO[], date: Date | undefined, options: NoaaOptions): Promise<MetarStationWithTaf[]> {
+  if (!icao.length) { return []; }
+  if (date) {
+    validateDate(date);
+  }
+
+  const located = await options.stations.locate(icao.map(normalizeICAO));
+  if (date) {
+    return getStationsFromCycles(located, date, options);
+  }
+
+  const stations = [...located.keys()];
+  const files = await Promise.all(stations.flatMap((station) => [
+    baseApi(`${NOAA_API_CONFIG.METAR_STATIONS}${station}.TXT`, options),
+    baseApi(`${NOAA_API_CONFIG.TAF_STATIONS}${station}.TXT`, options),
+  ]));
+  const reports = (kind: number): NoaaReport[] => files
+    .filter((_, index) => index % 2 === kind)
+    .flatMap((file) => file ? parseNoaaReports(file) : []);
+
+  return toStations(located, latestByStation(reports(0)), latestByStation(reports(1)));
+}
+
+/**
+ * Get METAR information for airports within a bounding box from the NOAA cycle files.
+ *
+ * @param bbox - GeoJSON bounding box [west, south, east, north].
+ * @param date - Optional date within the last 24 hours to fetch METARs for a specific time.
+ * @param options - Provider options including the station locator.
+ * @returns Promise resolving to an array of MetarStation objects with decoded TAF.
+ * @throws {InvalidInputError} If the date is not within the last 24 hours.
+ */
+export async function getNoaaMetarStationsByBbox(bbox: GeoJSON.BBox, date: Date | undefined, options: NoaaOptions): Promise<MetarStationWithTaf[]> {
+  if (date) {
+    validateDate(date);
+  }
+  return getStationsFromCycles(await options.stations.search(bbox), date, options);
+}
+
+/**
+ * Get METAR information for airports within a corridor along a route from the NOAA cycle files.
+ *
+ * @param route - GeoJSON LineString or array of positions [longitude, latitude].
+ * @param widthNm - Total corridor width in nautical miles.
+ * @param date - Optional date within the last 24 hours to fetch METARs for a specific time.
+ * @param options - Provider options including the station locator.
+ * @returns Promise resolving to an array of stations with distance along the route and cross-track offset in nautical miles.
+ * @throws {InvalidInputError} If the route, width or date is invalid.
+ */
+export async function getNoaaMetarStationsByCorridor(route: Route, widthNm: number, date: Date | undefined, options: NoaaOptions): Promise<CorridorMetarStation[]> {
+  if (date) {
+    validateDate(date);
+  }
+
+  const corridor = corridorPolygon(route, widthNm);
+  const results = await Promise.all(corridorBboxes(route, widthNm).map((bbox) => options.stations.search(bbox)));
+
+  const located = new Map<ICAO, GeoJSON.Position>();
+  for (const [station, coords] of results.flatMap((result) => [...result])) {
+    if (isInCorridor(corridor, coords)) {
+      located.set(station, coords);
+    }
+  }
+
+  const stations = await getStationsFromCycles(located, date, options);
+  return stations
+    .map((station) => ({ ...station, ...routePosition(route, station.coords) }))
+    .sort((a, b) => a.distanceAlong - b.distanceAlong);
+}
+
+/** Factory function to create a METAR station provider reading the NOAA text files.
+ *
+ * @param options - Provider options including the station locator and a custom fetcher.
+ * @returns An object with methods to get METAR data by ICAO codes, bounding box or route corridor.
+ */
+export default function noaaMetarProvider(options: NoaaOptions): MetarStationProvider {
+  const callOptions = (operation: string, call?: CallOptions): NoaaOptions => withCallOptions(withOperation(options, 'noaa-metar', operation), call);
+
+  return {
+    getByIcao: (icao: ICAO[], date?: Date, call?: CallOptions) => getNoaaMetarStationsByIcao(icao, date, callOptions('getByIcao', call)),
+    getByBbox: (bbox: GeoJSON.BBox, date?: Date, call?: CallOptions) => getNoaaMetarStationsByBbox(bbox, date, callOptions('getByBbox', call)),
+    getByCorridor: (route: Route, widthNm: number, date?: Date, call?: CallOptions) => getNoaaMetarStationsByCorridor(route, widthNm, date, callOptions('getByCorridor', call))
+  };
+}
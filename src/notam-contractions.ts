@@ -0,0 +1,834 @@
+/**
+ * ICAO Doc 8400 abbreviations and codes used in NOTAM text.
+ *
+ * Contractions that are also plain English words (AT, IF, TO, ...) and weather
+ * codes that clash with common NOTAM usage are left out.
+ */
+export const ICAO_CONTRACTIONS: Readonly<Record<string, string>> = {
+  AAL: 'ABOVE AERODROME LEVEL',
+  ABM: 'ABEAM',
+  ABN: 'AERODROME BEACON',
+  ABT: 'ABOUT',
+  ABV: 'ABOVE',
+  ACAS: 'AIRBORNE COLLISION AVOIDANCE SYSTEM',
+  ACC: 'AREA CONTROL CENTRE',
+  ACCID: 'NOTIFICATION OF AN AIRCRAFT ACCIDENT',
+  ACFT: 'AIRCRAFT',
+  ACK: 'ACKNOWLEDGE',
+  ACL: 'ALTIMETER CHECK LOCATION',
+  ACN: 'AIRCRAFT CLASSIFICATION NUMBER',
+  ACPT: 'ACCEPTED',
+  ACT: 'ACTIVE',
+  AD: 'AERODROME',
+  ADA: 'ADVISORY AREA',
+  ADC: 'AERODROME CHART',
+  ADDN: 'ADDITIONAL',
+  ADIZ: 'AIR DEFENCE IDENTIFICATION ZONE',
+  ADJ: 'ADJACENT',
+  ADR: 'ADVISORY ROUTE',
+  'ADS-B': 'AUTOMATIC DEPENDENT SURVEILLANCE - BROADCAST',
+  'ADS-C': 'AUTOMATIC DEPENDENT SURVEILLANCE - CONTRACT',
+  ADVS: 'ADVISORY SERVICE',
+  ADZ: 'ADVISE',
+  AES: 'AIRCRAFT EARTH STATION',
+  AFIL: 'FLIGHT PLAN FILED IN THE AIR',
+  AFIS: 'AERODROME FLIGHT INFORMATION SERVICE',
+  AFM: 'AFFIRMATIVE',
+  AFS: 'AERONAUTICAL FIXED SERVICE',
+  AFT: 'AFTER',
+  AFTN: 'AERONAUTICAL FIXED TELECOMMUNICATION NETWORK',
+  AGA: 'AERODROMES, AIR ROUTES AND GROUND AIDS',
+  AGL: 'ABOVE GROUND LEVEL',
+  AGN: 'AGAIN',
+  AIC: 'AERONAUTICAL INFORMATION CIRCULAR',
+  AIP: 'AERONAUTICAL INFORMATION PUBLICATION',
+  AIRAC: 'AERONAUTICAL INFORMATION REGULATION AND CONTROL',
+  AIREP: 'AIR-REPORT',
+  AIS: 'AERONAUTICAL INFORMATION SERVICES',
+  ALA: 'ALIGHTING AREA',
+  ALERFA: 'ALERT PHASE',
+  ALR: 'ALERTING',
+  ALRS: 'ALERTING SERVICE',
+  ALS: 'APPROACH LIGHTING SYSTEM',
+  ALT: 'ALTITUDE',
+  ALTN: 'ALTERNATE',
+  AMA: 'AREA MINIMUM ALTITUDE',
+  AMD: 'AMENDED',
+  AMDT: 'AMENDMENT',
+  AMS: 'AERONAUTICAL MOBILE SERVICE',
+  AMSL: 'ABOVE MEAN SEA LEVEL',
+  ANS: 'ANSWER',
+  AOC: 'AERODROME OBSTACLE CHART',
+  AP: 'AIRPORT',
+  APCH: 'APPROACH',
+  APDC: 'AIRCRAFT PARKING/DOCKING CHART',
+  APN: 'APRON',
+  APP: 'APPROACH CONTROL',
+  APR: 'APRIL',
+  APRX: 'APPROXIMATELY',
+  APSG: 'AFTER PASSING',
+  APV: 'APPROVED',
+  ARC: 'AREA CHART',
+  ARNG: 'ARRANGE',
+  ARO: 'AIR TRAFFIC SERVICES REPORTING OFFICE',
+  ARP: 'AERODROME REFERENCE POINT',
+  ARR: 'ARRIVAL',
+  ARS: 'SPECIAL AIR-REPORT',
+  ARST: 'ARRESTING',
+  ASC: 'ASCENDING TO',
+  ASDA: 'ACCELERATE-STOP DISTANCE AVAILABLE',
+  ASPH: 'ASPHALT',
+  ATA: 'ACTUAL TIME OF ARRIVAL',
+  ATC: 'AIR TRAFFIC CONTROL',
+  ATD: 'ACTUAL TIME OF DEPARTURE',
+  ATFM: 'AIR TRAFFIC FLOW MANAGEMENT',
+  ATIS: 'AUTOMATIC TERMINAL INFORMATION SERVICE',
+  ATM: 'AIR TRAFFIC MANAGEMENT',
+  ATN: 'AERONAUTICAL TELECOMMUNICATION NETWORK',
+  ATS: 'AIR TRAFFIC SERVICES',
+  ATTN: 'ATTENTION',
+  ATZ: 'AERODROME TRAFFIC ZONE',
+  AUG: 'AUGUST',
+  AUTH: 'AUTHORIZED',
+  AUW: 'ALL UP WEIGHT',
+  AUX: 'AUXILIARY',
+  AVBL: 'AVAILABLE',
+  AVG: 'AVERAGE',
+  AVGAS: 'AVIATION GASOLINE',
+  AWTA: 'ADVISE AT WHAT TIME ABLE',
+  AWY: 'AIRWAY',
+  AZM: 'AZIMUTH',
+  BA: 'BRAKING ACTION',
+  BCFG: 'FOG PATCHES',
+  BCN: 'BEACON',
+  BCST: 'BROADCAST',
+  BDRY: 'BOUNDARY',
+  BECMG: 'BECOMING',
+  BFR: 'BEFORE',
+  BKN: 'BROKEN',
+  BLDG: 'BUILDING',
+  BLO: 'BELOW CLOUDS',
+  BLW: 'BELOW',
+  BR: 'MIST',
+  BRF: 'SHORT',
+  BRG: 'BEARING',
+  BRKG: 'BRAKING',
+  BTL: 'BETWEEN LAYERS',
+  BTN: 'BETWEEN',
+  CAT: 'CATEGORY',
+  CAVOK: 'VISIBILITY, CLOUD AND PRESENT WEATHER BETTER THAN PRESCRIBED VALUES',
+  CB: 'CUMULONIMBUS',
+  CD: 'CANDELA',
+  CDN: 'COORDINATION',
+  CF: 'CHANGE FREQUENCY TO',
+  CFM: 'CONFIRM',
+  CGL: 'CIRCLING GUIDANCE LIGHTS',
+  CH: 'CHANNEL',
+  CHG: 'MODIFICATION',
+  CIT: 'NEAR OR OVER LARGE TOWNS',
+  CIV: 'CIVIL',
+  CK: 'CHECK',
+  CL: 'CENTRE LINE',
+  CLBR: 'CALIBRATION',
+  CLD: 'CLOUD',
+  CLG: 'CALLING',
+  CLR: 'CLEARED',
+  CLSD: 'CLOSED',
+  CM: 'CENTIMETRES',
+  CMB: 'CLIMB TO',
+  CMPL: 'COMPLETED',
+  CNL: 'CANCELLED',
+  CNS: 'COMMUNICATIONS, NAVIGATION AND SURVEILLANCE',
+  COM: 'COMMUNICATIONS',
+  CONC: 'CONCRETE',
+  COND: 'CONDITION',
+  CONS: 'CONTINUOUS',
+  CONST: 'CONSTRUCTION',
+  CONT: 'CONTINUED',
+  COOR: 'COORDINATION',
+  COORD: 'COORDINATES',
+  COP: 'CHANGE-OVER POINT',
+  COR: 'CORRECTED',
+  COT: 'AT THE COAST',
+  COV: 'COVERED',
+  CPDLC: 'CONTROLLER-PILOT DATA LINK COMMUNICATIONS',
+  CPL: 'CURRENT FLIGHT PLAN',
+  CRZ: 'CRUISE',
+  CTA: 'CONTROL AREA',
+  CTAM: 'CLIMB TO AND MAINTAIN',
+  CTC: 'CONTACT',
+  CTL: 'CONTROL',
+  CTN: 'CAUTION',
+  CTR: 'CONTROL ZONE',
+  CUF: 'CUMULIFORM',
+  CUST: 'CUSTOMS',
+  CW: 'CONTINUOUS WAVE',
+  CWY: 'CLEARWAY',
+  DA: 'DECISION ALTITUDE',
+  DCKG: 'DOCKING',
+  DCP: 'DATUM CROSSING POINT',
+  DCPC: 'DIRECT CONTROLLER-PILOT COMMUNICATIONS',
+  DCT: 'DIRECT',
+  DEC: 'DECEMBER',
+  DEG: 'DEGREES',
+  DEP: 'DEPARTURE',
+  DER: 'DEPARTURE END OF THE RUNWAY',
+  DES: 'DESCENDING TO',
+  DEST: 'DESTINATION',
+  DETRESFA: 'DISTRESS PHASE',
+  DEV: 'DEVIATION',
+  DFDR: 'DIGITAL FLIGHT DATA RECORDER',
+  DFTI: 'DISTANCE FROM TOUCHDOWN INDICATOR',
+  DH: 'DECISION HEIGHT',
+  DIF: 'DIFFUSE',
+  DIST: 'DISTANCE',
+  DIV: 'DIVERTING',
+  DLA: 'DELAYED',
+  DLY: 'DAILY',
+  DME: 'DISTANCE MEASURING EQUIPMENT',
+  DNG: 'DANGEROUS',
+  DOM: 'DOMESTIC',
+  DPT: 'DEPTH',
+  DRG: 'DURING',
+  DS: 'DUSTSTORM',
+  DSB: 'DOUBLE SIDEBAND',
+  DTAM: 'DESCEND TO AND MAINTAIN',
+  DTG: 'DATE-TIME GROUP',
+  DTHR: 'DISPLACED RUNWAY THRESHOLD',
+  DTRT: 'DETERIORATING',
+  DTW: 'DUAL TANDEM WHEELS',
+  DUC: 'DENSE UPPER CLOUD',
+  DUR: 'DURATION',
+  DVOR: 'DOPPLER VOR',
+  DZ: 'DRIZZLE',
+  EAT: 'EXPECTED APPROACH TIME',
+  EB: 'EASTBOUND',
+  EET: 'ESTIMATED ELAPSED TIME',
+  EFC: 'EXPECT FURTHER CLEARANCE',
+  ELBA: 'EMERGENCY LOCATION BEACON - AIRCRAFT',
+  ELEV: 'ELEVATION',
+  ELR: 'EXTRA LONG RANGE',
+  EM: 'EMISSION',
+  EMBD: 'EMBEDDED IN A LAYER',
+  EMERG: 'EMERGENCY',
+  ENE: 'EAST-NORTH-EAST',
+  ENG: 'ENGINE',
+  ENR: 'EN ROUTE',
+  ENRT: 'EN ROUTE',
+  EOBT: 'ESTIMATED OFF-BLOCK TIME',
+  EQPT: 'EQUIPMENT',
+  ESE: 'EAST-SOUTH-EAST',
+  EST: 'ESTIMATED',
+  ETA: 'ESTIMATED TIME OF ARRIVAL',
+  ETD: 'ESTIMATED TIME OF DEPARTURE',
+  ETO: 'ESTIMATED TIME OVER SIGNIFICANT POINT',
+  EV: 'EVERY',
+  EXC: 'EXCEPT',
+  EXER: 'EXERCISES',
+  EXP: 'EXPECTED',
+  EXTD: 'EXTENDING',
+  FAC: 'FACILITIES',
+  FAF: 'FINAL APPROACH FIX',
+  FAL: 'FACILITATION OF INTERNATIONAL AIR TRANSPORT',
+  FAP: 'FINAL APPROACH POINT',
+  FATO: 'FINAL APPROACH AND TAKE-OFF AREA',
+  FAX: 'FACSIMILE TRANSMISSION',
+  FBL: 'LIGHT',
+  FCST: 'FORECAST',
+  FCT: 'FRICTION COEFFICIENT',
+  FDPS: 'FLIGHT DATA PROCESSING SYSTEM',
+  FEB: 'FEBRUARY',
+  FG: 'FOG',
+  FIC: 'FLIGHT INFORMATION CENTRE',
+  FIR: 'FLIGHT INFORMATION REGION',
+  FIS: 'FLIGHT INFORMATION SERVICE',
+  FISA: 'AUTOMATED FLIGHT INFORMATION SERVICE',
+  FL: 'FLIGHT LEVEL',
+  FLD: 'FIELD',
+  FLG: 'FLASHING',
+  FLR: 'FLARES',
+  FLT: 'FLIGHT',
+  FLTCK: 'FLIGHT CHECK',
+  FLUC: 'FLUCTUATING',
+  FLW: 'FOLLOWING',
+  FM: 'FROM',
+  FMS: 'FLIGHT MANAGEMENT SYSTEM',
+  FMU: 'FLOW MANAGEMENT UNIT',
+  FNA: 'FINAL APPROACH',
+  FPAP: 'FLIGHT PATH ALIGNMENT POINT',
+  FPL: 'FILED FLIGHT PLAN',
+  FPM: 'FEET PER MINUTE',
+  FPR: 'FLIGHT PLAN ROUTE',
+  FR: 'FUEL REMAINING',
+  FREQ: 'FREQUENCY',
+  FRI: 'FRIDAY',
+  FRNG: 'FIRING',
+  FRQ: 'FREQUENT',
+  FSL: 'FULL STOP LANDING',
+  FSS: 'FLIGHT SERVICE STATION',
+  FST: 'FIRST',
+  FT: 'FEET',
+  FZ: 'FREEZING',
+  FZDZ: 'FREEZING DRIZZLE',
+  FZFG: 'FREEZING FOG',
+  FZRA: 'FREEZING RAIN',
+  GAMET: 'AREA FORECAST FOR LOW-LEVEL FLIGHTS',
+  GCA: 'GROUND CONTROLLED APPROACH SYSTEM',
+  GEN: 'GENERAL',
+  GEO: 'GEOGRAPHIC OR TRUE',
+  GES: 'GROUND EARTH STATION',
+  GLD: 'GLIDER',
+  GND: 'GROUND',
+  GNSS: 'GLOBAL NAVIGATION SATELLITE SYSTEM',
+  GP: 'GLIDE PATH',
+  GRVL: 'GRAVEL',
+  GUND: 'GEOID UNDULATION',
+  H24: 'CONTINUOUS DAY AND NIGHT SERVICE',
+  HAPI: 'HELICOPTER APPROACH PATH INDICATOR',
+  HBN: 'HAZARD BEACON',
+  HDF: 'HIGH FREQUENCY DIRECTION-FINDING STATION',
+  HDG: 'HEADING',
+  HEL: 'HELICOPTER',
+  HF: 'HIGH FREQUENCY',
+  HGT: 'HEIGHT',
+  HJ: 'SUNRISE TO SUNSET',
+  HLDG: 'HOLDING',
+  HN: 'SUNSET TO SUNRISE',
+  HO: 'SERVICE AVAILABLE TO MEET OPERATIONAL REQUIREMENTS',
+  HOL: 'HOLIDAY',
+  HOSP: 'HOSPITAL AIRCRAFT',
+  HPA: 'HECTOPASCAL',
+  HR: 'HOURS',
+  HS: 'SERVICE AVAILABLE DURING HOURS OF SCHEDULED OPERATIONS',
+  HURCN: 'HURRICANE',
+  HVY: 'HEAVY',
+  HX: 'NO SPECIFIC WORKING HOURS',
+  HYR: 'HIGHER',
+  IAC: 'INSTRUMENT APPROACH CHART',
+  IAF: 'INITIAL APPROACH FIX',
+  IAO: 'IN AND OUT OF CLOUDS',
+  IAP: 'INSTRUMENT APPROACH PROCEDURE',
+  IAR: 'INTERSECTION OF AIR ROUTES',
+  IAS: 'INDICATED AIRSPEED',
+  IBN: 'IDENTIFICATION BEACON',
+  ICE: 'ICING',
+  ID: 'IDENTIFIER',
+  IDENT: 'IDENTIFICATION',
+  IFF: 'IDENTIFICATION FRIEND/FOE',
+  IFR: 'INSTRUMENT FLIGHT RULES',
+  IGA: 'INTERNATIONAL GENERAL AVIATION',
+  ILS: 'INSTRUMENT LANDING SYSTEM',
+  IM: 'INNER MARKER',
+  IMC: 'INSTRUMENT METEOROLOGICAL CONDITIONS',
+  IMG: 'IMMIGRATION',
+  IMPR: 'IMPROVING',
+  IMT: 'IMMEDIATELY',
+  INA: 'INITIAL APPROACH',
+  INBD: 'INBOUND',
+  INC: 'IN CLOUD',
+  INCERFA: 'UNCERTAINTY PHASE',
+  INFO: 'INFORMATION',
+  INOP: 'INOPERATIVE',
+  INP: 'IF NOT POSSIBLE',
+  INPR: 'IN PROGRESS',
+  INSTL: 'INSTALLED',
+  INSTR: 'INSTRUMENT',
+  INT: 'INTERSECTION',
+  INTL: 'INTERNATIONAL',
+  INTRG: 'INTERROGATOR',
+  INTRP: 'INTERRUPTED',
+  INTSF: 'INTENSIFYING',
+  INTST: 'INTENSITY',
+  IR: 'ICE ON RUNWAY',
+  ISA: 'INTERNATIONAL STANDARD ATMOSPHERE',
+  ISB: 'INDEPENDENT SIDEBAND',
+  ISOL: 'ISOLATED',
+  JAN: 'JANUARY',
+  JTST: 'JET STREAM',
+  JUL: 'JULY',
+  JUN: 'JUNE',
+  KG: 'KILOGRAMS',
+  KHZ: 'KILOHERTZ',
+  KM: 'KILOMETRES',
+  KMH: 'KILOMETRES PER HOUR',
+  KPA: 'KILOPASCAL',
+  KT: 'KNOTS',
+  KW: 'KILOWATTS',
+  LAM: 'LOGICAL ACKNOWLEDGEMENT',
+  LAN: 'INLAND',
+  LAT: 'LATITUDE',
+  LDA: 'LANDING DISTANCE AVAILABLE',
+  LDAH: 'LANDING DISTANCE AVAILABLE, HELICOPTER',
+  LDG: 'LANDING',
+  LDI: 'LANDING DIRECTION INDICATOR',
+  LEN: 'LENGTH',
+  LGT: 'LIGHTING',
+  LGTD: 'LIGHTED',
+  LIH: 'LIGHT INTENSITY HIGH',
+  LIL: 'LIGHT INTENSITY LOW',
+  LIM: 'LIGHT INTENSITY MEDIUM',
+  LLZ: 'LOCALIZER',
+  LM: 'LOCATOR, MIDDLE',
+  LMT: 'LOCAL MEAN TIME',
+  LNG: 'LONG',
+  LO: 'LOCATOR, OUTER',
+  LOC: 'LOCALIZER',
+  LONG: 'LONGITUDE',
+  LORAN: 'LONG RANGE AIR NAVIGATION SYSTEM',
+  LRG: 'LONG RANGE',
+  LTD: 'LIMITED',
+  LTT: 'LANDLINE TELETYPEWRITER',
+  LV: 'LIGHT AND VARIABLE',
+  LVE: 'LEAVING',
+  LVL: 'LEVEL',
+  LVP: 'LOW VISIBILITY PROCEDURES',
+  LYR: 'LAYER',
+  MAG: 'MAGNETIC',
+  MAINT: 'MAINTENANCE',
+  MAPT: 'MISSED APPROACH POINT',
+  MAR: 'MARCH',
+  MAX: 'MAXIMUM',
+  MBST: 'MICROBURST',
+  MCA: 'MINIMUM CROSSING ALTITUDE',
+  MCW: 'MODULATED CONTINUOUS WAVE',
+  MDA: 'MINIMUM DESCENT ALTITUDE',
+  MDF: 'MEDIUM FREQUENCY DIRECTION-FINDING STATION',
+  MDH: 'MINIMUM DESCENT HEIGHT',
+  MEA: 'MINIMUM EN-ROUTE ALTITUDE',
+  MEHT: 'MINIMUM EYE HEIGHT OVER THRESHOLD',
+  MET: 'METEOROLOGICAL',
+  METAR: 'AERODROME ROUTINE METEOROLOGICAL REPORT',
+  MF: 'MEDIUM FREQUENCY',
+  MHZ: 'MEGAHERTZ',
+  MID: 'MID-POINT',
+  MIL: 'MILITARY',
+  MIN: 'MINUTES',
+  MKR: 'MARKER RADIO BEACON',
+  MLS: 'MICROWAVE LANDING SYSTEM',
+  MM: 'MIDDLE MARKER',
+  MNM: 'MINIMUM',
+  MNPS: 'MINIMUM NAVIGATION PERFORMANCE SPECIFICATIONS',
+  MNT: 'MONITORING',
+  MNTN: 'MAINTAIN',
+  MOA: 'MILITARY OPERATING AREA',
+  MOC: 'MINIMUM OBSTACLE CLEARANCE',
+  MOD: 'MODERATE',
+  MON: 'MONDAY',
+  MOPS: 'MINIMUM OPERATIONAL PERFORMANCE STANDARDS',
+  MOV: 'MOVEMENT',
+  MPS: 'METRES PER SECOND',
+  MRA: 'MINIMUM RECEPTION ALTITUDE',
+  MRG: 'MEDIUM RANGE',
+  MRP: 'ATS/MET REPORTING POINT',
+  MS: 'MINUS',
+  MSA: 'MINIMUM SECTOR ALTITUDE',
+  MSAW: 'MINIMUM SAFE ALTITUDE WARNING',
+  MSG: 'MESSAGE',
+  MSL: 'MEAN SEA LEVEL',
+  MSSR: 'MONOPULSE SECONDARY SURVEILLANCE RADAR',
+  MT: 'MOUNTAIN',
+  MTU: 'METRIC UNITS',
+  MTW: 'MOUNTAIN WAVES',
+  MWO: 'METEOROLOGICAL WATCH OFFICE',
+  NADP: 'NOISE ABATEMENT DEPARTURE PROCEDURE',
+  NASC: 'NATIONAL AIS SYSTEM CENTRE',
+  NAT: 'NORTH ATLANTIC',
+  NAV: 'NAVIGATION',
+  NB: 'NORTHBOUND',
+  NBFR: 'NOT BEFORE',
+  NC: 'NO CHANGE',
+  NDB: 'NON-DIRECTIONAL RADIO BEACON',
+  NE: 'NORTH-EAST',
+  NEB: 'NORTH-EASTBOUND',
+  NEG: 'NEGATIVE',
+  NGT: 'NIGHT',
+  NIL: 'NONE',
+  NM: 'NAUTICAL MILES',
+  NML: 'NORMAL',
+  NNE: 'NORTH-NORTH-EAST',
+  NNW: 'NORTH-NORTH-WEST',
+  NOF: 'INTERNATIONAL NOTAM OFFICE',
+  NOSIG: 'NO SIGNIFICANT CHANGE',
+  NOTAM: 'NOTICE TO AIRMEN',
+  NOV: 'NOVEMBER',
+  NOZ: 'NORMAL OPERATING ZONE',
+  NR: 'NUMBER',
+  NRH: 'NO REPLY HEARD',
+  NSC: 'NIL SIGNIFICANT CLOUD',
+  NSW: 'NIL SIGNIFICANT WEATHER',
+  NW: 'NORTH-WEST',
+  NWB: 'NORTH-WESTBOUND',
+  NXT: 'NEXT',
+  'O/R': 'ON REQUEST',
+  OAC: 'OCEANIC AREA CONTROL CENTRE',
+  OAS: 'OBSTACLE ASSESSMENT SURFACE',
+  OBS: 'OBSERVED',
+  OBSC: 'OBSCURED',
+  OBST: 'OBSTACLE',
+  OCA: 'OBSTACLE CLEARANCE ALTITUDE',
+  OCC: 'OCCULTING',
+  OCH: 'OBSTACLE CLEARANCE HEIGHT',
+  OCNL: 'OCCASIONALLY',
+  OCT: 'OCTOBER',
+  OFZ: 'OBSTACLE FREE ZONE',
+  OGN: 'ORIGINATE',
+  OHD: 'OVERHEAD',
+  OM: 'OUTER MARKER',
+  OPMET: 'OPERATIONAL METEOROLOGICAL',
+  OPN: 'OPEN',
+  OPR: 'OPERATING',
+  OPS: 'OPERATIONS',
+  ORD: 'ORDER',
+  OSV: 'OCEAN STATION VESSEL',
+  OTLK: 'OUTLOOK',
+  OTP: 'ON TOP',
+  OUBD: 'OUTBOUND',
+  PA: 'PRECISION APPROACH',
+  PALS: 'PRECISION APPROACH LIGHTING SYSTEM',
+  PANS: 'PROCEDURES FOR AIR NAVIGATION SERVICES',
+  PAPI: 'PRECISION APPROACH PATH INDICATOR',
+  PAR: 'PRECISION APPROACH RADAR',
+  PARL: 'PARALLEL',
+  PATC: 'PRECISION APPROACH TERRAIN CHART',
+  PAX: 'PASSENGERS',
+  PCD: 'PROCEEDING',
+  PCN: 'PAVEMENT CLASSIFICATION NUMBER',
+  PDG: 'PROCEDURE DESIGN GRADIENT',
+  PER: 'PERFORMANCE',
+  PERM: 'PERMANENT',
+  PIB: 'PRE-FLIGHT INFORMATION BULLETIN',
+  PJE: 'PARACHUTE JUMPING EXERCISE',
+  PLA: 'PRACTICE LOW APPROACH',
+  PLN: 'FLIGHT PLAN',
+  PLVL: 'PRESENT LEVEL',
+  PN: 'PRIOR NOTICE REQUIRED',
+  PNR: 'POINT OF NO RETURN',
+  POB: 'PERSONS ON BOARD',
+  POSS: 'POSSIBLE',
+  PPR: 'PRIOR PERMISSION REQUIRED',
+  PPSN: 'PRESENT POSITION',
+  PRFG: 'AERODROME PARTIALLY COVERED BY FOG',
+  PRI: 'PRIMARY',
+  PRKG: 'PARKING',
+  PROB: 'PROBABILITY',
+  PROC: 'PROCEDURE',
+  PROV: 'PROVISIONAL',
+  PS: 'PLUS',
+  PSG: 'PASSING',
+  PSN: 'POSITION',
+  PSP: 'PIERCED STEEL PLANK',
+  PSR: 'PRIMARY SURVEILLANCE RADAR',
+  PTN: 'PROCEDURE TURN',
+  PWR: 'POWER',
+  QDM: 'MAGNETIC HEADING (ZERO WIND)',
+  QDR: 'MAGNETIC BEARING',
+  QFE: 'ATMOSPHERIC PRESSURE AT AERODROME ELEVATION',
+  QFU: 'MAGNETIC ORIENTATION OF RUNWAY',
+  QGH: 'CONTROLLED DESCENT THROUGH CLOUD',
+  QNH: 'ALTIMETER SUB-SCALE SETTING TO OBTAIN ELEVATION WHEN ON THE GROUND',
+  QTE: 'TRUE BEARING',
+  QUAD: 'QUADRANT',
+  RA: 'RAIN',
+  RAC: 'RULES OF THE AIR AND AIR TRAFFIC SERVICES',
+  RAG: 'RAGGED',
+  RAI: 'RUNWAY ALIGNMENT INDICATOR',
+  RAIM: 'RECEIVER AUTONOMOUS INTEGRITY MONITORING',
+  RASC: 'REGIONAL AIS SYSTEM CENTRE',
+  RASS: 'REMOTE ALTIMETER SETTING SOURCE',
+  RB: 'RESCUE BOAT',
+  RCA: 'REACH CRUISING ALTITUDE',
+  RCC: 'RESCUE COORDINATION CENTRE',
+  RCF: 'RADIOCOMMUNICATION FAILURE',
+  RCH: 'REACHING',
+  RCL: 'RUNWAY CENTRE LINE',
+  RCLL: 'RUNWAY CENTRE LINE LIGHTS',
+  RCLR: 'RECLEARED',
+  RDH: 'REFERENCE DATUM HEIGHT',
+  RDL: 'RADIAL',
+  RDO: 'RADIO',
+  REC: 'RECEIVER',
+  REDL: 'RUNWAY EDGE LIGHTS',
+  REF: 'REFERENCE TO',
+  REG: 'REGISTRATION',
+  RENL: 'RUNWAY END LIGHTS',
+  REP: 'REPORTING POINT',
+  REQ: 'REQUESTED',
+  RERTE: 'RE-ROUTE',
+  RESA: 'RUNWAY END SAFETY AREA',
+  RHC: 'RIGHT-HAND CIRCUIT',
+  RIF: 'RECLEARANCE IN FLIGHT',
+  RITE: 'RIGHT',
+  RL: 'REPORT LEAVING',
+  RLA: 'RELAY TO',
+  RLCE: 'REQUEST LEVEL CHANGE EN ROUTE',
+  RLLS: 'RUNWAY LEAD-IN LIGHTING SYSTEM',
+  RLNA: 'REQUESTED LEVEL NOT AVAILABLE',
+  RMK: 'REMARK',
+  RNAV: 'AREA NAVIGATION',
+  RNG: 'RADIO RANGE',
+  RNP: 'REQUIRED NAVIGATION PERFORMANCE',
+  ROC: 'RATE OF CLIMB',
+  ROD: 'RATE OF DESCENT',
+  RPL: 'REPETITIVE FLIGHT PLAN',
+  RPLC: 'REPLACED',
+  RQMNTS: 'REQUIREMENTS',
+  RR: 'REPORT REACHING',
+  RSC: 'RESCUE SUB-CENTRE',
+  RSCD: 'RUNWAY SURFACE CONDITION',
+  RSP: 'RESPONDER BEACON',
+  RSR: 'EN-ROUTE SURVEILLANCE RADAR',
+  RTD: 'DELAYED',
+  RTE: 'ROUTE',
+  RTF: 'RADIOTELEPHONE',
+  RTHL: 'RUNWAY THRESHOLD LIGHTS',
+  RTN: 'RETURN',
+  RTODAH: 'REJECTED TAKE-OFF DISTANCE AVAILABLE, HELICOPTER',
+  RTS: 'RETURN TO SERVICE',
+  RTZL: 'RUNWAY TOUCHDOWN ZONE LIGHTS',
+  RV: 'RESCUE VESSEL',
+  RVR: 'RUNWAY VISUAL RANGE',
+  RVSM: 'REDUCED VERTICAL SEPARATION MINIMUM',
+  RWY: 'RUNWAY',
+  SALS: 'SIMPLE APPROACH LIGHTING SYSTEM',
+  SAN: 'SANITARY',
+  SAP: 'AS SOON AS POSSIBLE',
+  SAR: 'SEARCH AND RESCUE',
+  SARPS: 'STANDARDS AND RECOMMENDED PRACTICES',
+  SAT: 'SATURDAY',
+  SATCOM: 'SATELLITE COMMUNICATION',
+  SB: 'SOUTHBOUND',
+  SBAS: 'SATELLITE-BASED AUGMENTATION SYSTEM',
+  SCT: 'SCATTERED',
+  SDBY: 'STAND BY',
+  SE: 'SOUTH-EAST',
+  SEB: 'SOUTH-EASTBOUND',
+  SEC: 'SECONDS',
+  SECN: 'SECTION',
+  SECT: 'SECTOR',
+  SELCAL: 'SELECTIVE CALLING SYSTEM',
+  SEP: 'SEPTEMBER',
+  SER: 'SERVICE',
+  SEV: 'SEVERE',
+  SFC: 'SURFACE',
+  SG: 'SNOW GRAINS',
+  SGL: 'SIGNAL',
+  SH: 'SHOWERS',
+  SHF: 'SUPER HIGH FREQUENCY',
+  SID: 'STANDARD INSTRUMENT DEPARTURE',
+  SIF: 'SELECTIVE IDENTIFICATION FEATURE',
+  SIG: 'SIGNIFICANT',
+  SIMUL: 'SIMULTANEOUS',
+  SIWL: 'SINGLE ISOLATED WHEEL LOAD',
+  SKC: 'SKY CLEAR',
+  SKED: 'SCHEDULED',
+  SLP: 'SPEED LIMITING POINT',
+  SLW: 'SLOW',
+  SMC: 'SURFACE MOVEMENT CONTROL',
+  SMR: 'SURFACE MOVEMENT RADAR',
+  SN: 'SNOW',
+  SNOCLO: 'AERODROME CLOSED DUE TO SNOW',
+  SPECI: 'AERODROME SPECIAL METEOROLOGICAL REPORT',
+  SPI: 'SPECIAL POSITION INDICATOR',
+  SPL: 'SUPPLEMENTARY FLIGHT PLAN',
+  SQ: 'SQUALL',
+  SQL: 'SQUALL LINE',
+  SR: 'SUNRISE',
+  SRA: 'SURVEILLANCE RADAR APPROACH',
+  SRE: 'SURVEILLANCE RADAR ELEMENT OF PRECISION APPROACH RADAR SYSTEM',
+  SRG: 'SHORT RANGE',
+  SRR: 'SEARCH AND RESCUE REGION',
+  SRY: 'SECONDARY',
+  SS: 'SUNSET',
+  SSB: 'SINGLE SIDEBAND',
+  SSE: 'SOUTH-SOUTH-EAST',
+  SSR: 'SECONDARY SURVEILLANCE RADAR',
+  SST: 'SUPERSONIC TRANSPORT',
+  SSW: 'SOUTH-SOUTH-WEST',
+  STA: 'STRAIGHT-IN APPROACH',
+  STAR: 'STANDARD INSTRUMENT ARRIVAL',
+  STD: 'STANDARD',
+  STF: 'STRATIFORM',
+  STN: 'STATION',
+  STNR: 'STATIONARY',
+  STOL: 'SHORT TAKE-OFF AND LANDING',
+  STS: 'STATUS',
+  STWL: 'STOPWAY LIGHTS',
+  SUBJ: 'SUBJECT TO',
+  SUN: 'SUNDAY',
+  SUP: 'SUPPLEMENT',
+  SUPPS: 'REGIONAL SUPPLEMENTARY PROCEDURES',
+  SVC: 'SERVICE MESSAGE',
+  SVCBL: 'SERVICEABLE',
+  SW: 'SOUTH-WEST',
+  SWB: 'SOUTH-WESTBOUND',
+  SWY: 'STOPWAY',
+  TA: 'TRANSITION ALTITUDE',
+  TACAN: 'UHF TACTICAL AIR NAVIGATION AID',
+  TAF: 'AERODROME FORECAST',
+  TAR: 'TERMINAL AREA SURVEILLANCE RADAR',
+  TAS: 'TRUE AIRSPEED',
+  TAX: 'TAXIING',
+  TC: 'TROPICAL CYCLONE',
+  TCAS: 'TRAFFIC ALERT AND COLLISION AVOIDANCE SYSTEM',
+  TCU: 'TOWERING CUMULUS',
+  TDO: 'TORNADO',
+  TDZ: 'TOUCHDOWN ZONE',
+  TECR: 'TECHNICAL REASON',
+  TEL: 'TELEPHONE',
+  TEMPO: 'TEMPORARILY',
+  TFC: 'TRAFFIC',
+  TGL: 'TOUCH-AND-GO LANDING',
+  TGS: 'TAXIING GUIDANCE SYSTEM',
+  THR: 'THRESHOLD',
+  THRU: 'THROUGH',
+  THU: 'THURSDAY',
+  TIBA: 'TRAFFIC INFORMATION BROADCAST BY AIRCRAFT',
+  TIL: 'UNTIL',
+  TIP: 'UNTIL PAST',
+  TKOF: 'TAKE-OFF',
+  TL: 'TRANSITION LEVEL',
+  TMA: 'TERMINAL CONTROL AREA',
+  TNA: 'TURN ALTITUDE',
+  TNH: 'TURN HEIGHT',
+  TOC: 'TOP OF CLIMB',
+  TODA: 'TAKE-OFF DISTANCE AVAILABLE',
+  TODAH: 'TAKE-OFF DISTANCE AVAILABLE, HELICOPTER',
+  TORA: 'TAKE-OFF RUN AVAILABLE',
+  TOX: 'TOXIC',
+  TP: 'TURNING POINT',
+  TR: 'TRACK',
+  TRA: 'TEMPORARY RESERVED AIRSPACE',
+  TRANS: 'TRANSMITTER',
+  TRL: 'TRANSITION LEVEL',
+  TROP: 'TROPOPAUSE',
+  TS: 'THUNDERSTORM',
+  TUE: 'TUESDAY',
+  TURB: 'TURBULENCE',
+  TVOR: 'TERMINAL VOR',
+  TWR: 'AERODROME CONTROL TOWER',
+  TWY: 'TAXIWAY',
+  TWYL: 'TAXIWAY-LINK',
+  TYP: 'TYPE OF AIRCRAFT',
+  TYPH: 'TYPHOON',
+  'U/S': 'UNSERVICEABLE',
+  UAB: 'UNTIL ADVISED BY',
+  UAC: 'UPPER AREA CONTROL CENTRE',
+  UAR: 'UPPER AIR ROUTE',
+  UDF: 'ULTRA HIGH FREQUENCY DIRECTION-FINDING STATION',
+  UFN: 'UNTIL FURTHER NOTICE',
+  UHDT: 'UNABLE HIGHER DUE TRAFFIC',
+  UHF: 'ULTRA HIGH FREQUENCY',
+  UIC: 'UPPER INFORMATION CENTRE',
+  UIR: 'UPPER FLIGHT INFORMATION REGION',
+  ULR: 'ULTRA LONG RANGE',
+  UNA: 'UNABLE',
+  UNAP: 'UNABLE TO APPROVE',
+  UNL: 'UNLIMITED',
+  UNREL: 'UNRELIABLE',
+  UTA: 'UPPER CONTROL AREA',
+  UTC: 'COORDINATED UNIVERSAL TIME',
+  VA: 'VOLCANIC ASH',
+  VAC: 'VISUAL APPROACH CHART',
+  VAL: 'IN VALLEYS',
+  VAN: 'RUNWAY CONTROL VAN',
+  VAR: 'MAGNETIC VARIATION',
+  VASIS: 'VISUAL APPROACH SLOPE INDICATOR SYSTEM',
+  VC: 'VICINITY',
+  VCY: 'VICINITY',
+  VDF: 'VERY HIGH FREQUENCY DIRECTION-FINDING STATION',
+  VER: 'VERTICAL',
+  VFR: 'VISUAL FLIGHT RULES',
+  VHF: 'VERY HIGH FREQUENCY',
+  VIP: 'VERY IMPORTANT PERSON',
+  VIS: 'VISIBILITY',
+  VLF: 'VERY LOW FREQUENCY',
+  VLR: 'VERY LONG RANGE',
+  VMC: 'VISUAL METEOROLOGICAL CONDITIONS',
+  VOLMET: 'METEOROLOGICAL INFORMATION FOR AIRCRAFT IN FLIGHT',
+  VOR: 'VHF OMNIDIRECTIONAL RADIO RANGE',
+  VORTAC: 'VOR AND TACAN COMBINATION',
+  VOT: 'VOR AIRBORNE EQUIPMENT TEST FACILITY',
+  VRB: 'VARIABLE',
+  VSA: 'BY VISUAL REFERENCE TO THE GROUND',
+  VSP: 'VERTICAL SPEED',
+  VTOL: 'VERTICAL TAKE-OFF AND LANDING',
+  WAC: 'WORLD AERONAUTICAL CHART',
+  WAFC: 'WORLD AREA FORECAST CENTRE',
+  WB: 'WESTBOUND',
+  WBAR: 'WING BAR LIGHTS',
+  WDI: 'WIND DIRECTION INDICATOR',
+  WDSPR: 'WIDESPREAD',
+  WED: 'WEDNESDAY',
+  WEF: 'WITH EFFECT FROM',
+  WI: 'WITHIN',
+  WID: 'WIDTH',
+  WIE: 'WITH IMMEDIATE EFFECT',
+  WILCO: 'WILL COMPLY',
+  WINTEM: 'FORECAST UPPER WIND AND TEMPERATURE FOR AVIATION',
+  WIP: 'WORK IN PROGRESS',
+  WKN: 'WEAKENING',
+  WNW: 'WEST-NORTH-WEST',
+  WO: 'WITHOUT',
+  WPT: 'WAY-POINT',
+  WRNG: 'WARNING',
+  WS: 'WIND SHEAR',
+  WSW: 'WEST-SOUTH-WEST',
+  WT: 'WEIGHT',
+  WTSPT: 'WATERSPOUT',
+  WX: 'WEATHER',
+  XBAR: 'CROSSBAR',
+  XNG: 'CROSSING',
+  XS: 'ATMOSPHERICS',
+  YCZ: 'YELLOW CAUTION ZONE',
+  YR: 'YOUR',
+};
+
+/**
+ * FAA contractions from domestic NOTAMs that are not in Doc 8400, or
+ * whose FAA meaning is the one used in NOTAM text (e.g. OTS, GS).
+ */
+export const FAA_CONTRACTIONS: Readonly<Record<string, string>> = {
+  AFD: 'AIRPORT/FACILITY DIRECTORY',
+  APPX: 'APPROXIMATELY',
+  APT: 'AIRPORT',
+  ARFF: 'AIRCRAFT RESCUE AND FIRE FIGHTING',
+  ARPT: 'AIRPORT',
+  ASR: 'AIRPORT SURVEILLANCE RADAR',
+  ATCT: 'AIRPORT TRAFFIC CONTROL TOWER',
+  BC: 'BACK COURSE',
+  CLNC: 'CLEARANCE',
+  CTAF: 'COMMON TRAFFIC ADVISORY FREQUENCY',
+  DP: 'DEPARTURE PROCEDURE',
+  ELEC: 'ELECTRICAL',
+  FDC: 'FLIGHT DATA CENTER',
+  FICON: 'FIELD CONDITION',
+  GPS: 'GLOBAL POSITIONING SYSTEM',
+  GS: 'GLIDE SLOPE',
+  HIRL: 'HIGH INTENSITY RUNWAY LIGHTS',
+  LCL: 'LOCAL',
+  LGTG: 'LIGHTING',
+  LIRL: 'LOW INTENSITY RUNWAY LIGHTS',
+  LNAV: 'LATERAL NAVIGATION',
+  LPV: 'LOCALIZER PERFORMANCE WITH VERTICAL GUIDANCE',
+  MALSR: 'MEDIUM INTENSITY APPROACH LIGHTING SYSTEM WITH RUNWAY ALIGNMENT INDICATOR LIGHTS',
+  MIRL: 'MEDIUM INTENSITY RUNWAY LIGHTS',
+  NA: 'NOT AUTHORIZED',
+  NAVAID: 'NAVIGATIONAL AID',
+  OBSCN: 'OBSCURATION',
+  OBSTN: 'OBSTRUCTION',
+  ODP: 'OBSTACLE DEPARTURE PROCEDURE',
+  OPNL: 'OPERATIONAL',
+  OTS: 'OUT OF SERVICE',
+  PAEW: 'PERSONNEL AND EQUIPMENT WORKING',
+  REIL: 'RUNWAY END IDENTIFIER LIGHTS',
+  SIAP: 'STANDARD INSTRUMENT APPROACH PROCEDURE',
+  SYS: 'SYSTEM',
+  TDZL: 'TOUCHDOWN ZONE LIGHTS',
+  TEMP: 'TEMPORARY',
+  TFR: 'TEMPORARY FLIGHT RESTRICTION',
+  UAS: 'UNMANNED AIRCRAFT SYSTEM',
+  VASI: 'VISUAL APPROACH SLOPE INDICATOR',
+  VGSI: 'VISUAL GLIDE SLOPE INDICATOR',
+  VNAV: 'VERTICAL NAVIGATION',
+  WAAS: 'WIDE AREA AUGMENTATION SYSTEM',
+};
@@ -0,0 +1,173 @@
+import { FAA_CONTRACTIONS, ICAO_CONTRACTIONS } from "./notam-contractions.js";
+
+/**
+ * Kind of a token in NOTAM text.
+ *
+ * Only contractions are expanded. Coordinates, frequencies, times, numbers and
+ * designators (runways, taxiways, navaid idents, NOTAM numbers) are kept verbatim.
+ */
+export type NotamTokenKind = 'contraction' | 'word' | 'designator' | 'coordinate' | 'frequency' | 'time' | 'number';
+
+/**
+ * Represents a token of NOTAM text.
+ *
+ * @property text - The token as written in the NOTAM.
+ * @property kind - The token kind.
+ * @property expansion - The decoded contraction, for contractions only.
+ * @property start - Offset of the token in the verbatim text.
+ * @property end - Offset just past the token in the verbatim text.
+ * @property decodedStart - Offset of the token in the decoded text.
+ * @property decodedEnd - Offset just past the token in the decoded text.
+ */
+export interface NotamToken {
+  text: string;
+  kind: NotamTokenKind;
+  expansion?: string;
+  start: number;
+  end: number;
+  decodedStart: number;
+  decodedEnd: number;
+}
+
+/**
+ * Represents decoded NOTAM text.
+ *
+ * @property verbatim - The text exactly as received.
+ * @property decoded - The text with contractions expanded and whitespace collapsed.
+ * @property tokens - The tokens of the text, in order.
+ */
+export interface DecodedNotamText {
+  verbatim: string;
+  decoded: string;
+  tokens: NotamToken[];
+}
+
+const CONTRACTIONS: Readonly<Record<string, string>> = { ...ICAO_CONTRACTIONS, ...FAA_CONTRACTIONS };
+
+/** Tokens after which an unknown identifier is a designator rather than a word */
+const DESIGNATED = new Set(['RWY', 'TWY', 'APN', 'STAND', 'GATE', 'WPT', 'FIX']);
+
+/** Navaid types, followed by an ident that may clash with a contraction (e.g. VOR AMS) */
+const NAVAIDS = new Set(['VOR', 'DME', 'NDB', 'TACAN', 'VORTAC', 'VOR/DME', 'LOC', 'LLZ', 'VOT']);
+
+/** Contractions that describe the state of a facility rather than identify it */
+const FACILITY_STATES = new Set(['ACT', 'AVBL', 'CLSD', 'NA', 'OPN', 'OPR', 'OTS', 'U/S', 'WIP']);
+
+const COORDINATE = /^\d{4,6}(?:\.\d+)?[NS](?:\d{5,7}(?:\.\d+)?[EW])?$|^\d{5,7}(?:\.\d+)?[EW]$/;
+const FREQUENCY = /^\d{2,5}(?:\.\d{1,3})?(?:MHZ|KHZ)$|^\d{3}\.\d{1,3}$/;
+const TIME = /^\d{4}(?:Z|UTC)?$|^\d{4}-\d{4}$|^\d{6}Z$|^\d{10}(?:EST)?(?:-\d{10}(?:EST)?)?$/;
+const NUMBER = /^[-+]?\d+(?:[.,]\d+)*(?:[A-Z]{1,3})?$/;
+
+/** Opening and closing punctuation around a token */
+const EDGES = /^([("'[]*)(.*?)([)\]"'.,;:!?]*)$/s;
+
+type RawToken = Omit<NotamToken, 'decodedStart' | 'decodedEnd'>;
+
+/**
+ * Look up a NOTAM contraction.
+ *
+ * @param contraction - The contraction, e.g. "CLSD" or "U/S".
+ * @returns The expansion, or undefined if the contraction is unknown.
+ */
+export function expandContraction(contraction: string): string | undefined {
+  const key = contraction.toUpperCase();
+  return Object.prototype.hasOwnProperty.call(CONTRACTIONS, key) ? CONTRACTIONS[key] : undefined;
+}
+
+/**
+ * Classify a token without surrounding punctuation.
+ *
+ * Tokens combining contractions with "/" or "-" (e.g. "VOR/DME", "MON-FRI") are split into parts.
+ */
+function classify(text: string, start: number, previous: string | undefined): RawToken[] {
+  const end = start + text.length;
+
+  if (COORDINATE.test(text)) {
+    return [{ text, kind: 'coordinate', start, end }];
+  }
+  if (FREQUENCY.test(text)) {
+    return [{ text, kind: 'frequency', start, end }];
+  }
+  if (TIME.test(text)) {
+    return [{ text, kind: 'time', start, end }];
+  }
+  if (NUMBER.test(text)) {
+    return [{ text, kind: 'number', start, end }];
+  }
+
+  if (previous && NAVAIDS.has(previous) && /^[A-Z]{2,3}$/.test(text) && !FACILITY_STATES.has(text)) {
+    return [{ text, kind: 'designator', start, end }];
+  }
+
+  // Contractions are only expanded in upper case text, lower case words are prose
+  const expansion = text === text.toUpperCase() ? expandContraction(text) : undefined;
+  if (expansion) {
+    return [{ text, kind: 'contraction', expansion, start, end }];
+  }
+
+  if (/\d/.test(text) || (previous && DESIGNATED.has(previous) && /^[A-Z]{1,5}$/.test(text))) {
+    return [{ text, kind: 'designator', start, end }];
+  }
+
+  const parts = text.split(/([/-])/);
+  if (parts.length > 1 && parts.every((part, index) => index % 2 === 1 || /^[A-Za-z]+$/.test(part))) {
+    const tokens: RawToken[] = [];
+    let offset = start;
+    parts.forEach((part, index) => {
+      if (index % 2 === 0) {
+        tokens.push(...classify(part, offset, undefined));
+      }
+      offset += part.length;
+    });
+    return tokens;
+  }
+
+  return [{ text, kind: 'word', start, end }];
+}
+
+/**
+ * Decode NOTAM text.
+ *
+ * The text is split into tokens and each contraction from ICAO Doc 8400, or the FAA
+ * contractions used in domestic NOTAMs, is expanded. Coordinates, frequencies,
+ * times, numbers and designators are never expanded, so "AD" in a coordinate or
+ * a runway designator stays as written.
+ *
+ * @param text - The NOTAM text, typically item E.
+ * @returns The verbatim text, the decoded text and the token spans in both.
+ */
+export function decodeNotamText(text: string): DecodedNotamText {
+  const verbatim = text ?? '';
+  const tokens: NotamToken[] = [];
+  const chunks: string[] = [];
+  let length = 0;
+  let previous: string | undefined;
+
+  for (const match of verbatim.matchAll(/\S+/g)) {
+    const chunkStart = match.index ?? 0;
+    const [, prefix, core] = EDGES.exec(match[0]) ?? ['', '', match[0]];
+    const coreStart = chunkStart + prefix.length;
+
+    // Offset of the decoded chunk, accounting for the joining space
+    let decodedLength = length + (chunks.length > 0 ? 1 : 0);
+    let chunk = '';
+    let cursor = chunkStart;
+
+    for (const token of core ? classify(core, coreStart, previous) : []) {
+      const between = verbatim.slice(cursor, token.start);
+      const replacement = token.expansion ?? token.text;
+      chunk += between + replacement;
+      decodedLength += between.length;
+      tokens.push({ ...token, decodedStart: decodedLength, decodedEnd: decodedLength + replacement.length });
+      decodedLength += replacement.length;
+      cursor = token.end;
+    }
+    chunk += verbatim.slice(cursor, chunkStart + match[0].length);
+
+    chunks.push(chunk);
+    length += chunk.length + (chunks.length > 1 ? 1 : 0);
+    previous = core ? core.toUpperCase() : previous;
+  }
+
+  return { verbatim, decoded: chunks.join(' '), tokens };
+}
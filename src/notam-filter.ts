@@ -0,0 +1,385 @@
+import { calculateSunEvents, type Notam } from "flight-planner";
+import { parseIcaoNotam } from "./icao-notam.js";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60_000;
+const MAX_SCHEDULE_DAYS = 366; // Longer windows are only checked against the validity period
+
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Enumeration of NOTAM relevance categories.
+ */
+export enum NotamCategory {
+  RunwayClosure = 'RUNWAY_CLOSURE',
+  TaxiwayClosure = 'TAXIWAY_CLOSURE',
+  MovementArea = 'MOVEMENT_AREA',
+  Lighting = 'LIGHTING',
+  InstrumentLanding = 'INSTRUMENT_LANDING',
+  NavaidOutage = 'NAVAID_OUTAGE',
+  Obstacle = 'OBSTACLE',
+  AirspaceActivation = 'AIRSPACE_ACTIVATION',
+  ProcedureChange = 'PROCEDURE_CHANGE',
+  Communications = 'COMMUNICATIONS',
+  Services = 'SERVICES',
+  Other = 'OTHER',
+}
+
+/**
+ * Options for filtering NOTAMs.
+ *
+ * @property from - Start of the time window. NOTAMs that ended before are dropped.
+ * @property to - End of the time window. NOTAMs that start after are dropped. Defaults to `from`.
+ * @property categories - Only keep NOTAMs in these categories.
+ * @property suppress - Drop NOTAMs in these categories.
+ */
+export interface NotamFilterOptions {
+  from?: Date;
+  to?: Date;
+  categories?: NotamCategory[];
+  suppress?: NotamCategory[];
+}
+
+/**
+ * Category presets for common flight phases and rules.
+ */
+export const NOTAM_FILTER_PRESETS = {
+  /** VFR by day: no instrument approaches, procedures or night lighting */
+  VFR_DAY: [NotamCategory.InstrumentLanding, NotamCategory.ProcedureChange, NotamCategory.Lighting],
+  /** VFR by night: lighting matters, instrument approaches and procedures do not */
+  VFR_NIGHT: [NotamCategory.InstrumentLanding, NotamCategory.ProcedureChange],
+  /** En-route: aerodrome surface NOTAMs are not relevant */
+  EN_ROUTE: [NotamCategory.RunwayClosure, NotamCategory.TaxiwayClosure, NotamCategory.MovementArea, NotamCategory.Lighting],
+} as const satisfies Record<string, readonly NotamCategory[]>;
+
+/** A time of day in minutes since midnight UTC, or relative to sunrise or sunset */
+type ScheduleTime = number | { event: 'SR' | 'SS'; offset: number };
+
+interface ScheduleRule {
+  weekdays?: Set<number>;
+  excluded: Set<number>;
+  dates?: Array<{ month: number; day: number }>;
+  ranges: Array<[ScheduleTime, ScheduleTime]>;
+}
+
+/** Keyword heuristics for NOTAMs without a Q-code, checked in order */
+const CATEGORY_KEYWORDS: Array<[NotamCategory, RegExp]> = [
+  [NotamCategory.ProcedureChange, /\b(IAP|SID|STAR|ODP|DP|AMDT|PROC|PROCEDURES?|CHART|MINIMUMS?|TAKEOFF MINIMUMS)\b/],
+  [NotamCategory.InstrumentLanding, /\b(ILS|LOC|GP|GS|GLIDE ?PATH|LOCALI[SZ]ER|MLS|GBAS|GLS)\b/],
+  [NotamCategory.Obstacle, /\b(OBST|OBSTACLE|OBSTN|CRANE|CRANES|TOWER LGT|WIND TURBINE)\b/],
+  [NotamCategory.Lighting, /\b(LGT|LGTS|LIGHTS?|LIGHTING|PAPI|VASI|ALS|ALSF|MALSR|REIL|RCLL|HIRL|MIRL|LIRL|TDZL|ABN|BCN|PCL)\b/],
+  [NotamCategory.RunwayClosure, /\b(RWY|RUNWAY)\b.*\b(CLSD|CLOSED)\b/],
+  [NotamCategory.TaxiwayClosure, /\b(TWY|TAXIWAY|APRON|APN|RAMP)\b.*\b(CLSD|CLOSED)\b/],
+  [NotamCategory.MovementArea, /\b(RWY|RUNWAY|TWY|TAXIWAY|APRON|APN|RAMP|THR|DTHR|TORA|TODA|ASDA|LDA)\b/],
+  [NotamCategory.NavaidOutage, /\b(VOR|VORTAC|VOR\/DME|DME|NDB|TACAN|GPS|GNSS|RAIM|WAAS|EGNOS)\b/],
+  [NotamCategory.AirspaceActivation, /\b(TFR|AIRSPACE|RESTRICTED|DANGER|PROHIBITED|MOA|TRA|TSA|CTR|TMA|ATZ|PJE|PARACHUTE|UAS|DRONE|AEROBATICS?|EXERCISE|FIREWORKS?|LASER)\b/],
+  [NotamCategory.Communications, /\b(FREQ|FREQUENCY|ATIS|AFIS|COM|RADIO|CTAF|UNICOM)\b/],
+  [NotamCategory.Services, /\b(FUEL|FIRE|RFF|ARFF|CUSTOMS|ATC|TWR|OPR HR|HR SER|HOURS|PPR)\b/],
+];
+
+/**
+ * Classify a NOTAM by its Q-code.
+ *
+ * @param subject - The two-letter Q-code subject, e.g. "MR".
+ * @param condition - The two-letter Q-code condition, e.g. "LC".
+ * @returns The category, or undefined if the code is not specific enough.
+ */
+function classifyQCode(subject: string, condition: string): NotamCategory | undefined {
+  if (subject === 'OB' || subject === 'OL') {
+    return NotamCategory.Obstacle;
+  }
+
+  switch (subject[0]) {
+    case 'M':
+      if (condition === 'LC' && (subject === 'MR' || subject === 'MT' || subject === 'MD')) {
+        return NotamCategory.RunwayClosure;
+      }
+      if (condition === 'LC') {
+        return NotamCategory.TaxiwayClosure;
+      }
+      return NotamCategory.MovementArea;
+    case 'L':
+      return NotamCategory.Lighting;
+    case 'I':
+      return NotamCategory.InstrumentLanding;
+    case 'N':
+    case 'G':
+      return NotamCategory.NavaidOutage;
+    case 'A':
+    case 'R':
+    case 'W':
+      return NotamCategory.AirspaceActivation;
+    case 'P':
+      return NotamCategory.ProcedureChange;
+    case 'C':
+      return NotamCategory.Communications;
+    case 'S':
+    case 'F':
+      return NotamCategory.Services;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Classify a NOTAM into a relevance category.
+ *
+ * The Q-code from the raw ICAO message is used when available, keyword
+ * heuristics on the NOTAM text otherwise.
+ *
+ * @param notam - The NOTAM.
+ * @returns The category.
+ */
+export function classifyNotam(notam: Notam): NotamCategory {
+  const qLine = parseIcaoNotam(notam.raw)?.qLine;
+  const category = qLine ? classifyQCode(qLine.subject, qLine.condition) : undefined;
+  if (category) {
+    return category;
+  }
+
+  const text = (notam.text || '').toUpperCase();
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? NotamCategory.Other;
+}
+
+/**
+ * Parse a schedule time token (HHMM, SR, SS, SRm30, SSp15).
+ */
+function parseScheduleTime(token: string): ScheduleTime | undefined {
+  const time = token.match(/^(\d{2})(\d{2})$/);
+  if (time) {
+    const hours = parseInt(time[1], 10);
+    const minutes = parseInt(time[2], 10);
+    return hours <= 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+  }
+
+  const event = token.match(/^(SR|SS)(?:([mp])(\d+))?$/);
+  if (event) {
+    const offset = event[3] ? parseInt(event[3], 10) * (event[2] === 'm' ? -1 : 1) : 0;
+    return { event: event[1] as 'SR' | 'SS', offset };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse the item D schedule of a NOTAM.
+ *
+ * Supports weekdays and weekday ranges, DAILY, H24, EXC, month-day lists,
+ * times in UTC and sunrise/sunset with offsets, e.g. "MON-FRI 0700-1600",
+ * "DAILY SR MINUS30-SS PLUS30", "SEP 02 04 0600-1800".
+ *
+ * @param schedule - The schedule text.
+ * @returns The schedule rules, or undefined if the schedule cannot be parsed.
+ */
+function parseSchedule(schedule: string): ScheduleRule[] | undefined {
+  const tokens = schedule
+    .toUpperCase()
+    .replace(/\b(SR|SS)\s*(MINUS|PLUS)\s*(\d+)(MIN)?/g, (_, event, sign, minutes) => `${event}${sign === 'MINUS' ? 'm' : 'p'}${minutes}`)
+    .replace(/\s*-\s*/g, '-')
+    .replace(/[,.]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const rules: ScheduleRule[] = [];
+  let rule: ScheduleRule = { excluded: new Set(), ranges: [] };
+  let excluding = false;
+  let month: number | undefined;
+
+  const startRule = (): void => {
+    if (rule.ranges.length > 0) {
+      rules.push(rule);
+      rule = { excluded: new Set(), ranges: [] };
+      excluding = false;
+    }
+  };
+
+  for (const token of tokens) {
+    if (token === 'DAILY' || token === 'DLY') {
+      startRule();
+      continue;
+    }
+    if (token === 'EXC' || token === 'EXCEPT') {
+      excluding = true;
+      continue;
+    }
+    if (token === 'H24') {
+      rule.ranges.push([0, MINUTES_PER_DAY]);
+      continue;
+    }
+
+    const weekdays = token.match(/^([A-Z]{3})(?:-([A-Z]{3}))?$/);
+    if (weekdays && WEEKDAYS.includes(weekdays[1]) && (!weekdays[2] || WEEKDAYS.includes(weekdays[2]))) {
+      if (!excluding) {
+        startRule();
+      }
+      const first = WEEKDAYS.indexOf(weekdays[1]);
+      const last = weekdays[2] ? WEEKDAYS.indexOf(weekdays[2]) : first;
+      for (let day = first; ; day = (day + 1) % 7) {
+        if (excluding) {
+          rule.excluded.add(day);
+        } else {
+          (rule.weekdays ??= new Set()).add(day);
+        }
+        if (day === last) {
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (MONTHS.includes(token)) {
+      startRule();
+      month = MONTHS.indexOf(token);
+      continue;
+    }
+
+    const days = token.match(/^(\d{2})(?:-(\d{2}))?$/);
+    if (days && month !== undefined) {
+      startRule();
+      const first = parseInt(days[1], 10);
+      const last = days[2] ? parseInt(days[2], 10) : first;
+      for (let day = first; day <= last; day++) {
+        (rule.dates ??= []).push({ month, day });
+      }
+      continue;
+    }
+
+    const range = token.match(/^([^-]+)-([^-]+)$/);
+    const start = range ? parseScheduleTime(range[1]) : undefined;
+    const end = range ? parseScheduleTime(range[2]) : undefined;
+    if (start !== undefined && end !== undefined) {
+      rule.ranges.push([start, end]);
+      continue;
+    }
+
+    return undefined;
+  }
+
+  startRule();
+  return rules.length > 0 ? rules : undefined;
+}
+
+/**
+ * Resolve a schedule time to a date on a given UTC day.
+ */
+function resolveScheduleTime(time: ScheduleTime, day: Date, position?: [number, number]): Date | undefined {
+  if (typeof time === 'number') {
+    return new Date(day.getTime() + time * MS_PER_MINUTE);
+  }
+  if (!position) {
+    return undefined;
+  }
+
+  const events = calculateSunEvents(position, new Date(day.getTime() + MINUTES_PER_DAY / 2 * MS_PER_MINUTE));
+  const event = time.event === 'SR' ? events.sunrise : events.sunset;
+  return isNaN(event.getTime()) ? undefined : new Date(event.getTime() + time.offset * MS_PER_MINUTE);
+}
+
+/**
+ * Check whether a schedule has an active period overlapping a time window.
+ *
+ * @returns True or false, or undefined if the schedule cannot be evaluated.
+ */
+function isScheduleActive(rules: ScheduleRule[], from: Date, to: Date, position?: [number, number]): boolean | undefined {
+  // Start the day before to catch periods crossing midnight
+  const firstDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()) - MINUTES_PER_DAY * MS_PER_MINUTE;
+
+  for (let index = 0; index <= MAX_SCHEDULE_DAYS; index++) {
+    const day = new Date(firstDay + index * MINUTES_PER_DAY * MS_PER_MINUTE);
+    if (day > to) {
+      return false;
+    }
+
+    for (const rule of rules) {
+      const weekday = day.getUTCDay();
+      if (rule.weekdays && !rule.weekdays.has(weekday)) {
+        continue;
+      }
+      if (rule.excluded.has(weekday)) {
+        continue;
+      }
+      if (rule.dates && !rule.dates.some((date) => date.month === day.getUTCMonth() && date.day === day.getUTCDate())) {
+        continue;
+      }
+
+      for (const [startTime, endTime] of rule.ranges) {
+        const start = resolveScheduleTime(startTime, day, position);
+        let end = resolveScheduleTime(endTime, day, position);
+        if (!start || !end) {
+          return undefined;
+        }
+        if (end <= start) {
+          end = new Date(end.getTime() + MINUTES_PER_DAY * MS_PER_MINUTE);
+        }
+        if (start <= to && end >= from) {
+          return true;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a NOTAM is active at any moment during a time window.
+ *
+ * The validity period and the daily schedule (item D) are both taken into account.
+ * Schedules that cannot be parsed or evaluated, such as sunrise times without a
+ * NOTAM position, are treated as active throughout the validity period.
+ *
+ * @param notam - The NOTAM.
+ * @param from - Start of the time window.
+ * @param to - End of the time window (default: `from`).
+ * @returns True if the NOTAM is active during the window.
+ */
+export function isNotamActive(notam: Notam, from: Date, to: Date = from): boolean {
+  const { effectiveFrom, effectiveUntil, schedule } = notam.schedule;
+  if (effectiveFrom > to || (effectiveUntil && !notam.schedule.permanent && effectiveUntil < from)) {
+    return false;
+  }
+  if (!schedule) {
+    return true;
+  }
+
+  const rules = parseSchedule(schedule);
+  if (!rules) {
+    return true;
+  }
+
+  const windowFrom = new Date(Math.max(from.getTime(), effectiveFrom.getTime()));
+  const windowTo = effectiveUntil && !notam.schedule.permanent ? new Date(Math.min(to.getTime(), effectiveUntil.getTime())) : to;
+  const position: [number, number] | undefined = notam.coordinates ? [notam.coordinates.longitude, notam.coordinates.latitude] : undefined;
+  return isScheduleActive(rules, windowFrom, windowTo, position) ?? true;
+}
+
+/**
+ * Filter NOTAMs by time window and category.
+ *
+ * @param notams - The NOTAMs, e.g. the GeoNotam or CorridorNotam results of a provider.
+ * @param options - Time window, categories to keep and categories to suppress.
+ * @returns The NOTAMs matching all criteria, in their original order and of the same type.
+ */
+export function filterNotams<T extends Notam>(notams: T[], options: NotamFilterOptions = {}): T[] {
+  const { from, to, categories, suppress } = options;
+
+  return notams.filter((notam) => {
+    if (from && !isNotamActive(notam, from, to ?? from)) {
+      return false;
+    }
+    if (!from && to && notam.schedule.effectiveFrom > to) {
+      return false;
+    }
+    if (categories || suppress) {
+      const category = classifyNotam(notam);
+      if (categories && !categories.includes(category)) {
+        return false;
+      }
+      if (suppress && suppress.includes(category)) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
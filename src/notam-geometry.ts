@@ -0,0 +1,297 @@
+import { bboxPolygon, booleanIntersects, centroid, circle, distance, feature, featureCollection, point } from "@turf/turf";
+import { type Notam } from "flight-planner";
+import { corridorPolygon, routePosition, type Route, type RoutePosition } from "./corridor.js";
+import { type DecodedNotamText } from "./notam-decoder.js";
+
+export const NOTAM_GEOMETRY_CONFIG = {
+  CIRCLE_STEPS: 64, // Polygon vertices used to approximate a circle
+} as const;
+
+/**
+ * Represents a NOTAM with the geometry of its area of influence.
+ *
+ * @property geometry - The area of influence as GeoJSON: a point, a polygon, a multipolygon
+ * or a polygon approximating the Q-line circle.
+ * @property decodedText - The NOTAM text as written, its decoded form and the token spans in both.
+ */
+export interface GeoNotam extends Notam {
+  geometry?: GeoJSON.Geometry;
+  decodedText?: DecodedNotamText;
+}
+
+/**
+ * Represents a NOTAM along a route, with its position relative to the route.
+ */
+export interface CorridorNotam extends GeoNotam, RoutePosition { }
+
+const WKT_TYPES = ['POINT', 'LINESTRING', 'POLYGON', 'MULTIPOINT', 'MULTILINESTRING', 'MULTIPOLYGON', 'GEOMETRYCOLLECTION'] as const;
+type WktType = typeof WKT_TYPES[number];
+
+const NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?';
+const WKT_POSITION = new RegExp(`(${NUMBER})\\s+(${NUMBER})(?:\\s+${NUMBER})*`, 'g');
+
+/**
+ * Check that every position of a coordinate array is a valid [longitude, latitude] pair.
+ */
+function isValidCoordinates(coordinates: unknown): boolean {
+  if (!Array.isArray(coordinates) || coordinates.length === 0) {
+    return false;
+  }
+  if (typeof coordinates[0] === 'number') {
+    const [longitude, latitude] = coordinates as number[];
+    return coordinates.length >= 2 && Math.abs(longitude) <= 180 && Math.abs(latitude) <= 90;
+  }
+  return coordinates.every(isValidCoordinates);
+}
+
+/**
+ * Check a GeoJSON geometry, including the geometries of a collection.
+ */
+function isValidGeometry(geometry: GeoJSON.Geometry): boolean {
+  if (geometry.type === 'GeometryCollection') {
+    return Array.isArray(geometry.geometries) && geometry.geometries.length > 0 && geometry.geometries.every(isValidGeometry);
+  }
+  return isValidCoordinates(geometry.coordinates);
+}
+
+/**
+ * Split a WKT geometry collection body into its member geometries.
+ */
+function splitWktCollection(body: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '(') {
+      depth++;
+    } else if (body[i] === ')') {
+      depth--;
+    } else if (body[i] === ',' && depth === 0) {
+      members.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  members.push(body.slice(start));
+  return members.map((member) => member.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a WKT geometry. Z and M values are dropped.
+ */
+function parseWkt(wkt: string): GeoJSON.Geometry | undefined {
+  const match = wkt.trim().match(/^([A-Z]+)\s*(?:ZM|Z|M)?\s*\((.*)\)$/is);
+  const type = match?.[1].toUpperCase() as WktType | undefined;
+  if (!match || !type || !WKT_TYPES.includes(type)) {
+    return undefined;
+  }
+
+  const body = match[2];
+  if (type === 'GEOMETRYCOLLECTION') {
+    const geometries = splitWktCollection(body).map(parseWkt);
+    return geometries.every((geometry) => geometry !== undefined)
+      ? { type: 'GeometryCollection', geometries: geometries as GeoJSON.Geometry[] }
+      : undefined;
+  }
+
+  let coordinates: unknown;
+  try {
+    coordinates = JSON.parse(`[${body
+      .replace(WKT_POSITION, (_, longitude, latitude) => `[${Number(longitude)},${Number(latitude)}]`)
+      .replace(/\(/g, '[')
+      .replace(/\)/g, ']')}]`);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(coordinates)) {
+    return undefined;
+  }
+
+  switch (type) {
+    case 'POINT':
+      return { type: 'Point', coordinates: coordinates[0] };
+    case 'LINESTRING':
+      return { type: 'LineString', coordinates };
+    case 'POLYGON':
+      return { type: 'Polygon', coordinates };
+    case 'MULTIPOINT':
+      // Both MULTIPOINT(1 2, 3 4) and MULTIPOINT((1 2), (3 4)) are valid
+      return { type: 'MultiPoint', coordinates: coordinates.map((position) => Array.isArray(position[0]) ? position[0] : position) };
+    case 'MULTILINESTRING':
+      return { type: 'MultiLineString', coordinates };
+    case 'MULTIPOLYGON':
+      return { type: 'MultiPolygon', coordinates };
+  }
+}
+
+/**
+ * Parse a NOTAM geometry.
+ *
+ * The FAA reports geometries in several forms, all of which are accepted:
+ * - WKT, e.g. "POINT(-73.78 40.65)", "POLYGON((...))", "MULTIPOLYGON(((...)))" or "GEOMETRYCOLLECTION(...)".
+ * - A [longitude, latitude] array, or its JSON string "[-73.78,40.65]".
+ * - A GeoJSON geometry, feature or feature collection, or its JSON string.
+ *
+ * @param value - The geometry.
+ * @returns The GeoJSON geometry, or undefined if the value is not a valid geometry.
+ */
+export function parseNotamGeometry(value: unknown): GeoJSON.Geometry | undefined {
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (!text) {
+      return undefined;
+    }
+    if (text.startsWith('[') || text.startsWith('{')) {
+      try {
+        return parseNotamGeometry(JSON.parse(text));
+      } catch {
+        return undefined;
+      }
+    }
+    const geometry = parseWkt(text);
+    return geometry && isValidGeometry(geometry) ? geometry : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length >= 2 && value.every((coordinate) => typeof coordinate === 'number') && isValidCoordinates(value)
+      ? { type: 'Point', coordinates: [value[0], value[1]] }
+      : undefined;
+  }
+
+  if (value && typeof value === 'object') {
+    const object = value as Partial<GeoJSON.GeoJSON>;
+    if (object.type === 'Feature') {
+      return parseNotamGeometry((object as GeoJSON.Feature).geometry);
+    }
+    if (object.type === 'FeatureCollection') {
+      const geometries = (object as GeoJSON.FeatureCollection).features.map((member) => parseNotamGeometry(member.geometry));
+      if (geometries.length === 0 || geometries.some((geometry) => geometry === undefined)) {
+        return undefined;
+      }
+      return geometries.length === 1 ? geometries[0] : { type: 'GeometryCollection', geometries: geometries as GeoJSON.Geometry[] };
+    }
+    const geometry = object as GeoJSON.Geometry;
+    if (['Point', 'LineString', 'Polygon', 'MultiPoint', 'MultiLineString', 'MultiPolygon', 'GeometryCollection'].includes(geometry.type)) {
+      return isValidGeometry(geometry) ? geometry : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Approximate a circle as a polygon.
+ *
+ * @param center - The centre [longitude, latitude].
+ * @param radiusNm - The radius in nautical miles.
+ * @returns The polygon.
+ */
+export function notamCircle(center: GeoJSON.Position, radiusNm: number): GeoJSON.Polygon {
+  return circle([center[0], center[1]], radiusNm, { steps: NOTAM_GEOMETRY_CONFIG.CIRCLE_STEPS, units: 'nauticalmiles' }).geometry;
+}
+
+/**
+ * Circle enclosing a bounding box, used to search sources that only support radius queries.
+ *
+ * @param bbox - The bounding box [west, south, east, north].
+ * @returns The centre [longitude, latitude] and the radius in whole nautical miles.
+ */
+export function bboxCircle(bbox: GeoJSON.BBox): { center: GeoJSON.Position; radius: number } {
+  const [west, south, east, north] = bbox;
+  const center = [(west + east) / 2, (south + north) / 2];
+  const radius = Math.ceil(distance(center, [west, south], { units: 'nauticalmiles' }));
+  return { center, radius: Math.max(radius, 1) };
+}
+
+/**
+ * Representative position of a geometry: the point itself or the centroid of an area.
+ *
+ * @param geometry - The geometry.
+ * @returns The position [longitude, latitude].
+ */
+export function geometryCenter(geometry: GeoJSON.Geometry): GeoJSON.Position {
+  return geometry.type === 'Point' ? geometry.coordinates : centroid(geometry).geometry.coordinates;
+}
+
+/**
+ * Get the area of influence of a NOTAM.
+ *
+ * An area geometry takes precedence. Otherwise a point with a Q-line radius becomes a circle
+ * around the point, and a point without radius is returned as is.
+ *
+ * @param notam - The NOTAM.
+ * @returns The geometry, or undefined if the NOTAM has no location.
+ */
+export function notamGeometry(notam: GeoNotam): GeoJSON.Geometry | undefined {
+  if (notam.geometry && notam.geometry.type !== 'Point') {
+    return notam.geometry;
+  }
+
+  const center = notam.geometry?.type === 'Point'
+    ? notam.geometry.coordinates
+    : notam.coordinates ? [notam.coordinates.longitude, notam.coordinates.latitude] : undefined;
+  if (!center) {
+    return undefined;
+  }
+
+  const radius = notam.coordinates?.radius;
+  return radius && radius > 0 ? notamCircle(center, radius) : point([center[0], center[1]]).geometry;
+}
+
+/**
+ * Convert a NOTAM to a GeoJSON feature.
+ *
+ * @param notam - The NOTAM.
+ * @returns The feature with the NOTAM as properties, or undefined if the NOTAM has no location.
+ */
+export function notamFeature(notam: GeoNotam): GeoJSON.Feature<GeoJSON.Geometry, Notam> | undefined {
+  const geometry = notamGeometry(notam);
+  if (!geometry) {
+    return undefined;
+  }
+
+  const { geometry: _, ...properties } = notam;
+  return feature(geometry, properties, { id: notam.id || undefined });
+}
+
+/**
+ * Convert NOTAMs to a GeoJSON feature collection. NOTAMs without location are left out.
+ *
+ * @param notams - The NOTAMs.
+ * @returns The feature collection.
+ */
+export function notamFeatureCollection(notams: GeoNotam[]): GeoJSON.FeatureCollection<GeoJSON.Geometry, Notam> {
+  return featureCollection(notams.map(notamFeature).filter((item) => item !== undefined));
+}
+
+/**
+ * Select the NOTAMs whose area of influence intersects a bounding box.
+ *
+ * @param notams - The NOTAMs.
+ * @param bbox - The bounding box [west, south, east, north].
+ * @returns The NOTAMs intersecting the bounding box, in their original order.
+ */
+export function notamsInBbox<T extends GeoNotam>(notams: T[], bbox: GeoJSON.BBox): T[] {
+  const area = bboxPolygon(bbox);
+  return notams.filter((notam) => {
+    const geometry = notamGeometry(notam);
+    return geometry !== undefined && booleanIntersects(area, geometry);
+  });
+}
+
+/**
+ * Select the NOTAMs whose area of influence intersects the corridor around a route.
+ *
+ * @param notams - The NOTAMs.
+ * @param route - The route.
+ * @param widthNm - Total corridor width in nautical miles.
+ * @returns The NOTAMs with their distance along the route and cross-track offset, in flight order.
+ * @throws {InvalidInputError} If the route or width is invalid.
+ */
+export function notamsAlongRoute<T extends GeoNotam>(notams: T[], route: Route, widthNm: number): Array<T & RoutePosition> {
+  const corridor = corridorPolygon(route, widthNm);
+  return notams
+    .map((notam) => ({ notam, geometry: notamGeometry(notam) }))
+    .filter((item): item is { notam: T; geometry: GeoJSON.Geometry } => item.geometry !== undefined && booleanIntersects(corridor, item.geometry))
+    .map(({ notam, geometry }) => ({ ...notam, ...routePosition(route, geometryCenter(geometry)) }))
+    .sort((a, b) => a.distanceAlong - b.distanceAlong);
+}
@@ -1,21 +1,52 @@
+import { type FetchFunction } from "./http.js";
+import { type CacheOptions } from "./cache.js";
+import { type RetryOptions } from "./retry.js";
+import { type CircuitBreaker } from "./circuit-breaker.js";
+import { type HookOptions } from "./hooks.js";
+import { type Page, type PaginationOptions } from "./pagination.js";
+import { schema, type Schema, type ValidationOptions } from "./schema.js";
+
 export const OPENAIP_API_CONFIG = {
   API_URL: 'https://api.core.openaip.net/api/',
   CACHE_TTL: 3600 * 24 * 7, // 1 week for airport data
   TIMEOUT: 10000, // 10 seconds
-  SEARCH_LIMIT: 1,
+  CANDIDATE_LIMIT: 20, // Results fetched for exact-match and name searches
   RADIUS_LIMIT: 200,
+  MAX_PAGES: 25, // Default cap for paginated searches
   DEFAULT_RADIUS_KM: 50,
+  NEAREST_COUNT: 5,
+  NEAREST_START_NM: 25, // Initial radius of nearest searches, doubled until enough aerodromes are found
+  NEAREST_MAX_NM: 200, // Default cap for nearest searches
   COORDINATE_PRECISION: 2,
-  METERS_TO_FEET: 3.28084,
   KM_TO_METERS: 1_000,
-  AIRPORT_TYPES: [0, 1, 2, 3, 9, 5]
+  AIRPORT_TYPES: [0, 1, 2, 3, 9, 5],
+  NON_ICAO_AIRPORT_TYPES: [4, 6, 7, 10, 11, 12, 13], // Heliports, ultralight sites, water fields and strips
+  FREQUENCY_UNIT_KHZ: 1,
+  AIRSPACE_POINT_DIST_M: 1_000,
 } as const;
 
+/**
+ * Options shared by all OpenAIP providers.
+ *
+ * Aerodrome and navaid items are validated against their declared schema, see ValidationOptions.
+ */
+export interface OpenAipOptions extends ValidationOptions, HookOptions {
+  apiKey: string;
+  fetcher?: FetchFunction;
+  cache?: CacheOptions;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
+  pagination?: PaginationOptions;
+}
+
 /** OpenAIP API response item for airports */
 export interface OpenAipAirportItem {
   icaoCode?: string;
   iataCode?: string;
+  altIdentifier?: string;
   name: string;
+  type?: number;
+  country?: string;
   geometry: {
     coordinates: [number, number];
   };
@@ -30,15 +61,15 @@ export interface OpenAipAirportItem {
     designator: string;
     trueHeading: number;
     dimension?: {
-      length: { value: number; unit: number };
-      width: { value: number; unit: number };
+      length?: { value: number; unit: number };
+      width?: { value: number; unit: number };
     };
-    surface: { mainComposite: string };
+    surface?: { mainComposite: number };
   }>;
   frequencies?: Array<{
     type: number;
     name?: string;
-    value: number;
+    value: number | string;
   }>;
 }
 
@@ -46,19 +77,167 @@ export interface OpenAipAirportItem {
 export interface OpenAipNavaidItem {
   identifier: string;
   name?: string;
+  type?: number;
+  country?: string;
   geometry: {
     coordinates: [number, number];
   };
   elevation?: {
     value: number;
+    unit?: number;
+    referenceDatum?: number;
   };
   frequency?: {
+    value: number | string;
+    unit?: number;
+  };
+  channel?: string;
+  magneticDeclination?: number;
+  range?: {
     value: number;
+    unit: number;
+  };
+  alignedTrueNorth?: boolean;
+}
+
+const openAipMeasurementSchema = schema.object({
+  value: schema.number(),
+  unit: schema.number(),
+});
+
+/** Declared schema of an OpenAIP airport item */
+export const openAipAirportSchema: Schema<OpenAipAirportItem> = schema.object({
+  icaoCode: schema.optional(schema.string()),
+  iataCode: schema.optional(schema.string()),
+  altIdentifier: schema.optional(schema.string()),
+  name: schema.string({ nonEmpty: true }),
+  type: schema.optional(schema.number()),
+  country: schema.optional(schema.string()),
+  geometry: schema.object({ coordinates: schema.position() }),
+  elevation: schema.optional(schema.object({
+    value: schema.number(),
+    unit: schema.number(),
+    referenceDatum: schema.number(),
+  })),
+  magneticDeclination: schema.optional(schema.number({ min: -180, max: 180 })),
+  ppr: schema.optional(schema.boolean()),
+  runways: schema.optional(schema.array(schema.object({
+    designator: schema.string({ nonEmpty: true }),
+    trueHeading: schema.number({ min: 0, max: 360 }),
+    dimension: schema.optional(schema.object({
+      length: schema.optional(openAipMeasurementSchema),
+      width: schema.optional(openAipMeasurementSchema),
+    })),
+    surface: schema.optional(schema.object({ mainComposite: schema.number() })),
+  }))),
+  frequencies: schema.optional(schema.array(schema.object({
+    type: schema.number(),
+    name: schema.optional(schema.string()),
+    value: schema.union(schema.number(), schema.string({ nonEmpty: true })),
+  }))),
+});
+
+/** Declared schema of an OpenAIP navaid item */
+export const openAipNavaidSchema: Schema<OpenAipNavaidItem> = schema.object({
+  identifier: schema.string({ nonEmpty: true }),
+  name: schema.optional(schema.string()),
+  type: schema.optional(schema.number()),
+  country: schema.optional(schema.string()),
+  geometry: schema.object({ coordinates: schema.position() }),
+  elevation: schema.optional(schema.object({
+    value: schema.number(),
+    unit: schema.optional(schema.number()),
+    referenceDatum: schema.optional(schema.number()),
+  })),
+  frequency: schema.optional(schema.object({
+    value: schema.union(schema.number(), schema.string({ nonEmpty: true })),
+    unit: schema.optional(schema.number()),
+  })),
+  channel: schema.optional(schema.string()),
+  magneticDeclination: schema.optional(schema.number({ min: -180, max: 180 })),
+  range: schema.optional(openAipMeasurementSchema),
+  alignedTrueNorth: schema.optional(schema.boolean()),
+});
+
+/** OpenAIP vertical limit, see OpenAipUnit and OpenAipDatum for the codes */
+export interface OpenAipVerticalLimit {
+  value: number;
+  unit: number;
+  referenceDatum: number;
+}
+
+/** OpenAIP API response item for airspaces */
+export interface OpenAipAirspaceItem {
+  _id: string;
+  name: string;
+  type: number;
+  icaoClass: number;
+  activity?: number;
+  onDemand?: boolean;
+  onRequest?: boolean;
+  byNotam?: boolean;
+  country?: string;
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  upperLimit: OpenAipVerticalLimit;
+  lowerLimit: OpenAipVerticalLimit;
+  hoursOfOperation?: {
+    operatingHours?: Array<{
+      dayOfWeek: number;
+      startTime: string;
+      endTime: string;
+      byNotam?: boolean;
+      sunrise?: boolean;
+      sunset?: boolean;
+    }>;
   };
 }
 
 /** OpenAIP API response wrapper */
 export interface OpenAipResponse<T> {
   items: T[];
+  limit?: number;
   totalCount?: number;
+  totalPages?: number;
+  page?: number;
+  nextPage?: number | null;
+}
+
+/**
+ * Create a page from an OpenAIP response, determining whether more pages follow.
+ *
+ * @param data - The OpenAIP response.
+ * @param items - The transformed items of this page.
+ * @returns The page.
+ */
+export function openAipPage<T, U>(data: OpenAipResponse<T> | undefined, items: U[]): Page<U> {
+  if (!data || !data.items || data.items.length === 0) {
+    return { items, hasMore: false };
+  }
+
+  const page = data.page ?? 1;
+  if (data.nextPage !== undefined) {
+    return { items, hasMore: data.nextPage !== null && data.nextPage > page };
+  }
+  if (data.totalPages !== undefined) {
+    return { items, hasMore: page < data.totalPages };
+  }
+  if (data.totalCount !== undefined && data.limit) {
+    return { items, hasMore: page * data.limit < data.totalCount };
+  }
+  return { items, hasMore: false };
+}
+
+/**
+ * Normalize a name or identifier for comparison.
+ *
+ * @param value - The value to normalize.
+ * @returns Upper case value without diacritics and punctuation.
+ */
+export function normalizeSearchTerm(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
 }
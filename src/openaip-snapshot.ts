@@ -0,0 +1,376 @@
+import { isICAO, normalizeICAO, type ICAO } from "flight-planner";
+import { InvalidInputError } from "./error.js";
+import { collect } from "./pagination.js";
+import { createSpatialIndex } from "./spatial-index.js";
+import { normalizeSearchTerm, OPENAIP_API_CONFIG, type OpenAipOptions } from "./openaip-config.js";
+import {
+  aerodromeTypes,
+  iterateAerodromeByBbox,
+  iterateAerodromeByCountry,
+  nearestAerodromes,
+  scoreCandidate,
+  type AerodromeCandidate,
+  type AerodromeDetails,
+  type AerodromeProvider,
+  type AerodromeQueryOptions,
+  type NearestAerodromeOptions
+} from "./aerodrome.js";
+import { iterateNavaidByBbox, iterateNavaidByCountry, type Navaid, type NavaidProvider } from "./navaid.js";
+
+export const OPENAIP_SNAPSHOT_CONFIG = {
+  FORMAT: 'byteflight-openaip-snapshot',
+  VERSION: 1, // Snapshot schema version, bumped on incompatible changes
+} as const;
+
+/**
+ * Area covered by a snapshot, either a country or a bounding box.
+ *
+ * @property country - ISO 3166-1 alpha-2 country code, e.g. "NL".
+ * @property bbox - GeoJSON bounding box [west, south, east, north].
+ */
+export type SnapshotArea = { country: string } | { bbox: GeoJSON.BBox };
+
+/**
+ * Offline snapshot of OpenAIP aerodromes and navaids.
+ *
+ * @property format - Always "byteflight-openaip-snapshot".
+ * @property version - The snapshot schema version.
+ * @property buildDate - When the snapshot was built, as an ISO 8601 date.
+ * @property area - The area covered by the snapshot.
+ * @property aerodromes - All aerodromes in the area, including those without an ICAO code.
+ * @property navaids - All navaids in the area.
+ */
+export interface OpenAipSnapshot {
+  format: typeof OPENAIP_SNAPSHOT_CONFIG.FORMAT;
+  version: number;
+  buildDate: string;
+  area: SnapshotArea;
+  aerodromes: AerodromeDetails[];
+  navaids: Navaid[];
+}
+
+export type SnapshotFormat = 'json' | 'geojson';
+
+/**
+ * A record that differs between two snapshots.
+ *
+ * @property before - The record in the previous snapshot.
+ * @property after - The record in the next snapshot.
+ * @property fields - The names of the fields that changed.
+ */
+export interface SnapshotChange<T> {
+  before: T;
+  after: T;
+  fields: string[];
+}
+
+/**
+ * Changes to one kind of record between two snapshots.
+ */
+export interface SnapshotRecordDelta<T> {
+  added: T[];
+  removed: T[];
+  changed: SnapshotChange<T>[];
+}
+
+/**
+ * Changes between two snapshots.
+ *
+ * @property from - Build date of the previous snapshot.
+ * @property to - Build date of the next snapshot.
+ * @property aerodromes - Aerodrome changes.
+ * @property navaids - Navaid changes.
+ */
+export interface SnapshotDelta {
+  from: string;
+  to: string;
+  aerodromes: SnapshotRecordDelta<AerodromeDetails>;
+  navaids: SnapshotRecordDelta<Navaid>;
+}
+
+/** Snapshot in GeoJSON form, with the snapshot metadata as foreign members */
+type GeoJsonSnapshot = GeoJSON.FeatureCollection<GeoJSON.Point> & Omit<OpenAipSnapshot, 'aerodromes' | 'navaids'>;
+
+/**
+ * Build a snapshot of all aerodromes and navaids in a country or bounding box.
+ *
+ * Every page is fetched, unless the pagination options say otherwise. Aerodromes
+ * without an ICAO code, such as glider sites and heliports, are included.
+ *
+ * @param area - The country or bounding box.
+ * @param options - OpenAIP options including the API key.
+ * @returns Promise resolving to the snapshot.
+ * @throws {InvalidInputError} If the country code is invalid.
+ * @throws {ApiError} Will throw an ApiError subclass if an API request fails.
+ */
+export async function createOpenAipSnapshot(area: SnapshotArea, options: OpenAipOptions): Promise<OpenAipSnapshot> {
+  const exportOptions: OpenAipOptions = { ...options, pagination: { maxPages: Infinity, ...options.pagination } };
+  const query: AerodromeQueryOptions = { includeNonIcao: true };
+
+  const [aerodromes, navaids] = 'country' in area
+    ? await Promise.all([
+      collect(iterateAerodromeByCountry(area.country, exportOptions, query)),
+      collect(iterateNavaidByCountry(area.country, exportOptions)),
+    ])
+    : await Promise.all([
+      collect(iterateAerodromeByBbox(area.bbox, exportOptions, query)),
+      collect(iterateNavaidByBbox(area.bbox, exportOptions)),
+    ]);
+
+  return {
+    format: OPENAIP_SNAPSHOT_CONFIG.FORMAT,
+    version: OPENAIP_SNAPSHOT_CONFIG.VERSION,
+    buildDate: new Date().toISOString(),
+    area: 'country' in area ? { country: area.country.toUpperCase() } : { bbox: area.bbox },
+    aerodromes,
+    navaids,
+  };
+}
+
+/**
+ * Serialize a snapshot for writing to a file.
+ *
+ * In GeoJSON form every aerodrome and navaid is a point feature with a "kind" property,
+ * and the snapshot metadata are foreign members of the feature collection.
+ *
+ * @param snapshot - The snapshot.
+ * @param format - The file format (default: json).
+ * @returns The file content.
+ */
+export function serializeOpenAipSnapshot(snapshot: OpenAipSnapshot, format: SnapshotFormat = 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(snapshot);
+  }
+
+  const toFeature = (kind: 'aerodrome' | 'navaid', record: AerodromeDetails | Navaid): GeoJSON.Feature<GeoJSON.Point> => {
+    const { coords, ...properties } = record;
+    return { type: 'Feature', geometry: { type: 'Point', coordinates: [...coords] }, properties: { kind, ...properties } };
+  };
+
+  const { aerodromes, navaids, ...metadata } = snapshot;
+  const collection: GeoJsonSnapshot = {
+    type: 'FeatureCollection',
+    ...metadata,
+    features: [
+      ...aerodromes.map((aerodrome) => toFeature('aerodrome', aerodrome)),
+      ...navaids.map((navaid) => toFeature('navaid', navaid)),
+    ],
+  };
+  return JSON.stringify(collection);
+}
+
+/**
+ * Parse a snapshot file in JSON or GeoJSON form.
+ *
+ * @param content - The file content, or its parsed value.
+ * @returns The snapshot.
+ * @throws {InvalidInputError} If the content is not a snapshot, its version is not supported, or a GeoJSON feature is not a point.
+ */
+export function parseOpenAipSnapshot(content: string | object): OpenAipSnapshot {
+  let value: unknown = content;
+  if (typeof content === 'string') {
+    try {
+      value = JSON.parse(content);
+    } catch {
+      throw new InvalidInputError('OpenAIP', "Snapshot is not valid JSON", 'snapshot');
+    }
+  }
+
+  const data = value as Partial<OpenAipSnapshot & GeoJsonSnapshot> | null;
+  if (!data || typeof data !== 'object' || data.format !== OPENAIP_SNAPSHOT_CONFIG.FORMAT) {
+    throw new InvalidInputError('OpenAIP', "Content is not an OpenAIP snapshot", 'snapshot');
+  }
+  if (typeof data.version !== 'number' || data.version > OPENAIP_SNAPSHOT_CONFIG.VERSION) {
+    throw new InvalidInputError('OpenAIP', `Snapshot version ${data.version} is not supported`, 'snapshot');
+  }
+  if (!data.buildDate || isNaN(Date.parse(data.buildDate)) || !data.area) {
+    throw new InvalidInputError('OpenAIP', "Snapshot has no build date or area", 'snapshot');
+  }
+
+  const snapshot = {
+    format: data.format,
+    version: data.version,
+    buildDate: data.buildDate,
+    area: data.area,
+  };
+
+  if (data.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    const records = <T extends AerodromeDetails | Navaid>(kind: 'aerodrome' | 'navaid'): T[] => data.features!
+      .filter((feature) => feature.properties?.kind === kind)
+      .map((feature) => {
+        const geometry = feature.geometry as GeoJSON.Geometry | null;
+        if (geometry?.type !== 'Point' || geometry.coordinates.length < 2 || !geometry.coordinates.every(Number.isFinite)) {
+          throw new InvalidInputError('OpenAIP', `Snapshot ${kind} feature has no point geometry`, 'snapshot');
+        }
+        const { kind: _, ...properties } = feature.properties ?? {};
+        return { ...properties, coords: geometry.coordinates } as T;
+      });
+    return {
+      ...snapshot,
+      aerodromes: records<AerodromeDetails>('aerodrome'),
+      navaids: records<Navaid>('navaid'),
+    };
+  }
+
+  if (!Array.isArray(data.aerodromes) || !Array.isArray(data.navaids)) {
+    throw new InvalidInputError('OpenAIP', "Snapshot has no aerodromes or navaids", 'snapshot');
+  }
+  return { ...snapshot, aerodromes: data.aerodromes, navaids: data.navaids };
+}
+
+/**
+ * Identity of an aerodrome across snapshots.
+ */
+function aerodromeKey(aerodrome: AerodromeDetails): string {
+  return aerodrome.icao ?? aerodrome.localIdentifier ?? `${aerodrome.name}|${aerodrome.coords.join(',')}`;
+}
+
+/**
+ * Identity of a navaid across snapshots. Identifiers are only unique per type and country.
+ */
+function navaidKey(navaid: Navaid): string {
+  return `${navaid.identifier}|${navaid.type}|${navaid.country ?? ''}`;
+}
+
+/**
+ * Compare the records of two snapshots.
+ */
+function diffRecords<T extends object>(previous: T[], next: T[], key: (record: T) => string): SnapshotRecordDelta<T> {
+  const before = new Map(previous.map((record) => [key(record), record]));
+  const after = new Map(next.map((record) => [key(record), record]));
+
+  const changed: SnapshotChange<T>[] = [];
+  for (const [id, record] of after) {
+    const old = before.get(id);
+    if (!old) {
+      continue;
+    }
+    const fields = [...new Set([...Object.keys(old), ...Object.keys(record)])]
+      .filter((field) => JSON.stringify(old[field as keyof T]) !== JSON.stringify(record[field as keyof T]));
+    if (fields.length > 0) {
+      changed.push({ before: old, after: record, fields });
+    }
+  }
+
+  return {
+    added: [...after].filter(([id]) => !before.has(id)).map(([, record]) => record),
+    removed: [...before].filter(([id]) => !after.has(id)).map(([, record]) => record),
+    changed,
+  };
+}
+
+/**
+ * Report what changed between two snapshots of the same area.
+ *
+ * Aerodromes are matched by ICAO code, or local identifier, and navaids by identifier,
+ * type and country. A record whose identity changed is reported as removed and added.
+ *
+ * @param previous - The previous snapshot.
+ * @param next - The next snapshot.
+ * @returns The added, removed and changed aerodromes and navaids.
+ */
+export function diffOpenAipSnapshots(previous: OpenAipSnapshot, next: OpenAipSnapshot): SnapshotDelta {
+  return {
+    from: previous.buildDate,
+    to: next.buildDate,
+    aerodromes: diffRecords(previous.aerodromes, next.aerodromes, aerodromeKey),
+    navaids: diffRecords(previous.navaids, next.navaids, navaidKey),
+  };
+}
+
+/**
+ * Validate a radius query like the online providers do.
+ *
+ * @throws {InvalidInputError} If distance is negative or location format is invalid.
+ */
+function validateRadius(location: GeoJSON.Position, distance: number): void {
+  if (distance <= 0) {
+    throw new InvalidInputError('OpenAIP', "Distance must be a positive number", 'distance');
+  }
+  if (location.length !== 2) {
+    throw new InvalidInputError('OpenAIP', "Location must be a 2D coordinate", 'location');
+  }
+}
+
+/**
+ * Offline aerodrome provider reading from a snapshot.
+ *
+ * Queries behave like the online provider, except that search only matches
+ * identifiers and names.
+ *
+ * @param snapshot - The snapshot, see parseOpenAipSnapshot.
+ * @returns An object with methods to get aerodrome data by code, name or radius.
+ */
+export function offlineAerodromeProvider(snapshot: OpenAipSnapshot): AerodromeProvider {
+  const index = createSpatialIndex(snapshot.aerodromes, (aerodrome) => aerodrome.coords);
+
+  const matches = (aerodrome: AerodromeDetails, query: AerodromeQueryOptions): boolean =>
+    (query.includeNonIcao || !!aerodrome.icao) && aerodromeTypes(query).includes(aerodrome.type);
+
+  const byExactMatch = async (identifier: string, includeNonIcao: boolean, match: (aerodrome: AerodromeDetails) => Array<string | undefined>): Promise<AerodromeDetails[]> => {
+    const term = normalizeSearchTerm(identifier);
+    if (!term) {
+      throw new InvalidInputError('OpenAIP', "Identifier must not be empty", 'identifier');
+    }
+    return snapshot.aerodromes
+      .filter((aerodrome) => includeNonIcao || aerodrome.icao)
+      .filter((aerodrome) => match(aerodrome).some((code) => code && normalizeSearchTerm(code) === term));
+  };
+
+  const getByRadius = async (location: GeoJSON.Position, distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM, query: AerodromeQueryOptions = {}): Promise<AerodromeDetails[]> => {
+    validateRadius(location, distance);
+    return index.withinRadius(location, distance).map(({ item }) => item).filter((aerodrome) => matches(aerodrome, query));
+  };
+
+  return {
+    getByIcao: (icao: ICAO) => byExactMatch(isICAO(icao) ? normalizeICAO(icao) : icao, false, (aerodrome) => [aerodrome.icao]),
+    getByIata: (iata: string) => byExactMatch(iata, false, (aerodrome) => [aerodrome.iata]),
+    getByIdentifier: (identifier: string) => byExactMatch(identifier, true, (aerodrome) => [aerodrome.icao, aerodrome.iata, aerodrome.localIdentifier]),
+    search: async (name: string, query: AerodromeQueryOptions = {}): Promise<AerodromeCandidate[]> => {
+      const term = normalizeSearchTerm(name);
+      if (!term) {
+        throw new InvalidInputError('OpenAIP', "Search term must not be empty", 'name');
+      }
+      return snapshot.aerodromes
+        .filter((aerodrome) => (query.includeNonIcao || aerodrome.icao) && (!query.types || query.types.includes(aerodrome.type)))
+        .map((aerodrome) => ({ aerodrome, score: scoreCandidate(aerodrome, term) }))
+        .filter((candidate) => candidate.score > 10) // Lower scores mean a match on a field OpenAIP searches but we do not have
+        .sort((a, b) => b.score - a.score)
+        .slice(0, OPENAIP_API_CONFIG.CANDIDATE_LIMIT);
+    },
+    getByRadius,
+    iterateByRadius: async function* (location: GeoJSON.Position, distance?: number, query?: AerodromeQueryOptions): AsyncGenerator<AerodromeDetails, void, undefined> {
+      yield* await getByRadius(location, distance, query);
+    },
+    findNearest: (location: GeoJSON.Position, query: NearestAerodromeOptions = {}) =>
+      nearestAerodromes(location, query, async (radiusKm) => index.withinRadius(location, radiusKm).map(({ item }) => item).filter((aerodrome) => matches(aerodrome, query))),
+  };
+}
+
+/**
+ * Offline navaid provider reading from a snapshot.
+ *
+ * @param snapshot - The snapshot, see parseOpenAipSnapshot.
+ * @returns An object with methods to get navaid data by identifier, radius or bounding box.
+ */
+export function offlineNavaidProvider(snapshot: OpenAipSnapshot): NavaidProvider {
+  const index = createSpatialIndex(snapshot.navaids, (navaid) => navaid.coords);
+
+  const getByRadius = async (location: GeoJSON.Position, distance: number = OPENAIP_API_CONFIG.DEFAULT_RADIUS_KM): Promise<Navaid[]> => {
+    validateRadius(location, distance);
+    return index.withinRadius(location, distance).map(({ item }) => item);
+  };
+  const getByBbox = async (bbox: GeoJSON.BBox): Promise<Navaid[]> => index.withinBbox(bbox);
+
+  return {
+    getByIcao: async (identifier: string) => snapshot.navaids.filter((navaid) => navaid.identifier === identifier.trim().toUpperCase()),
+    getByRadius,
+    getByBbox,
+    iterateByRadius: async function* (location: GeoJSON.Position, distance?: number): AsyncGenerator<Navaid, void, undefined> {
+      yield* await getByRadius(location, distance);
+    },
+    iterateByBbox: async function* (bbox: GeoJSON.BBox): AsyncGenerator<Navaid, void, undefined> {
+      yield* await getByBbox(bbox);
+    },
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * OpenAIP unit codes used for distances, elevations and vertical limits.
+ */
+export enum OpenAipUnit {
+  Meter = 0,
+  Feet = 1,
+  Kilometer = 2,
+  NauticalMile = 3,
+  StatuteMile = 4,
+  FlightLevel = 6,
+}
+
+/**
+ * OpenAIP reference datum codes for elevations and vertical limits.
+ */
+export enum OpenAipDatum {
+  Ground = 0,
+  MeanSeaLevel = 1,
+  Standard = 2,
+}
+
+/**
+ * Vertical reference of an altitude.
+ *
+ * GND is height above ground, MSL is altitude above mean sea level and STD is a flight level.
+ */
+export type AltitudeDatum = 'GND' | 'MSL' | 'STD';
+
+/**
+ * Represents a vertical limit.
+ *
+ * @property value - The limit in feet relative to the datum. Flight levels are in feet too, FL95 being 9500.
+ * @property datum - The vertical reference.
+ */
+export interface AltitudeLimit {
+  value: number;
+  datum: AltitudeDatum;
+}
+
+/** OpenAIP value with a unit and optional reference datum */
+export interface OpenAipMeasurement {
+  value: number;
+  unit?: number;
+  referenceDatum?: number;
+}
+
+/** Length of each unit in meters */
+const METERS_PER_UNIT: Record<number, number> = {
+  [OpenAipUnit.Meter]: 1,
+  [OpenAipUnit.Feet]: 0.3048,
+  [OpenAipUnit.Kilometer]: 1_000,
+  [OpenAipUnit.NauticalMile]: 1_852,
+  [OpenAipUnit.StatuteMile]: 1_609.344,
+  [OpenAipUnit.FlightLevel]: 30.48,
+};
+
+const DATUMS: Record<number, AltitudeDatum> = {
+  [OpenAipDatum.Ground]: 'GND',
+  [OpenAipDatum.MeanSeaLevel]: 'MSL',
+  [OpenAipDatum.Standard]: 'STD',
+};
+
+/**
+ * Convert an OpenAIP value to meters.
+ *
+ * @param value - The value.
+ * @param unit - The OpenAIP unit code.
+ * @returns The value in meters, or undefined if the value or unit is unknown.
+ */
+export function toMeters(value: number | undefined, unit: number | undefined): number | undefined {
+  if (value === undefined || value === null || !Number.isFinite(value) || unit === undefined) {
+    return undefined;
+  }
+  const factor = METERS_PER_UNIT[unit];
+  return factor !== undefined ? value * factor : undefined;
+}
+
+/**
+ * Convert an OpenAIP value to feet.
+ *
+ * @param value - The value.
+ * @param unit - The OpenAIP unit code.
+ * @returns The value in feet, or undefined if the value or unit is unknown.
+ */
+export function toFeet(value: number | undefined, unit: number | undefined): number | undefined {
+  if (unit === OpenAipUnit.Feet) {
+    return value !== undefined && Number.isFinite(value) ? value : undefined;
+  }
+  if (unit === OpenAipUnit.FlightLevel) {
+    return value !== undefined && Number.isFinite(value) ? value * 100 : undefined;
+  }
+  const meters = toMeters(value, unit);
+  return meters !== undefined ? meters / METERS_PER_UNIT[OpenAipUnit.Feet] : undefined;
+}
+
+/**
+ * Convert an OpenAIP value to nautical miles.
+ *
+ * @param value - The value.
+ * @param unit - The OpenAIP unit code.
+ * @returns The value in nautical miles, or undefined if the value or unit is unknown.
+ */
+export function toNauticalMiles(value: number | undefined, unit: number | undefined): number | undefined {
+  const meters = toMeters(value, unit);
+  return meters !== undefined ? meters / METERS_PER_UNIT[OpenAipUnit.NauticalMile] : undefined;
+}
+
+/**
+ * Map an OpenAIP reference datum code.
+ *
+ * @param datum - The OpenAIP datum code.
+ * @returns The altitude datum, or undefined if the code is unknown.
+ */
+export function toAltitudeDatum(datum: number | undefined): AltitudeDatum | undefined {
+  return datum !== undefined ? DATUMS[datum] : undefined;
+}
+
+/**
+ * Normalise an OpenAIP elevation to feet above mean sea level.
+ *
+ * Elevations without a datum are assumed to be relative to MSL. Elevations
+ * relative to another datum cannot be expressed as MSL and are not returned.
+ *
+ * @param elevation - The OpenAIP elevation.
+ * @param defaultUnit - Unit assumed when the elevation has none.
+ * @returns The elevation in feet MSL, or undefined.
+ */
+export function normalizeElevation(
+  elevation: OpenAipMeasurement | undefined,
+  defaultUnit: OpenAipUnit = OpenAipUnit.Meter
+): number | undefined {
+  if (!elevation) {
+    return undefined;
+  }
+  if (elevation.referenceDatum !== undefined && elevation.referenceDatum !== OpenAipDatum.MeanSeaLevel) {
+    return undefined;
+  }
+  return toFeet(elevation.value, elevation.unit ?? defaultUnit);
+}
+
+/**
+ * Normalise an OpenAIP vertical limit to feet and datum.
+ *
+ * Flight levels are always on the STD datum. Limits without a known datum are assumed to be MSL.
+ *
+ * @param limit - The OpenAIP vertical limit.
+ * @returns The limit in whole feet with its datum, or undefined if the unit is unknown.
+ */
+export function normalizeAltitude(limit: OpenAipMeasurement | undefined): AltitudeLimit | undefined {
+  if (!limit) {
+    return undefined;
+  }
+
+  const feet = toFeet(limit.value, limit.unit ?? OpenAipUnit.Feet);
+  if (feet === undefined) {
+    return undefined;
+  }
+
+  const datum = limit.unit === OpenAipUnit.FlightLevel ? 'STD' : toAltitudeDatum(limit.referenceDatum) ?? 'MSL';
+  return { value: Math.round(feet), datum };
+}
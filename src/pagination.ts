@@ -0,0 +1,66 @@
+/**
+ * Limits for paginated searches.
+ *
+ * @property maxItems - Stop after this many items have been yielded.
+ * @property maxPages - Stop after this many pages have been fetched.
+ */
+export interface PaginationOptions {
+  maxItems?: number;
+  maxPages?: number;
+}
+
+/**
+ * A single page of results.
+ *
+ * @property items - The items on this page.
+ * @property hasMore - Whether the upstream service has more pages after this one.
+ */
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+/**
+ * Iterate over all items of a paginated search.
+ *
+ * @param fetchPage - Function fetching a page by its 1-based page number.
+ * @param options - Limits on the number of items and pages.
+ * @returns An async iterator yielding the items in order.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<Page<T>>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const { maxItems = Infinity, maxPages = Infinity } = options;
+
+  let count = 0;
+  for (let page = 1; page <= maxPages; page++) {
+    const result = await fetchPage(page);
+
+    for (const item of result.items) {
+      if (count >= maxItems) {
+        return;
+      }
+      count++;
+      yield item;
+    }
+
+    if (!result.hasMore) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collect all items of an async iterator into an array.
+ *
+ * @param iterator - The async iterator.
+ * @returns Promise resolving to the array of items.
+ */
+export async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
@@ -0,0 +1,107 @@
+/**
+ * Retry policy for upstream requests.
+ *
+ * @property maxAttempts - Maximum number of attempts including the first one (default: 3).
+ * @property baseDelay - Initial backoff delay in milliseconds (default: 250).
+ * @property maxDelay - Upper bound for a single backoff delay in milliseconds (default: 10000).
+ * @property jitter - Apply full jitter to the backoff delay (default: true).
+ * @property retryOnStatus - HTTP status codes considered transient.
+ * @property retryOnNetworkError - Retry when the fetcher throws, including timeouts (default: true).
+ * @property retryNonIdempotent - Also retry requests that are not idempotent, such as POST (default: false).
+ * @property respectRetryAfter - Wait as long as the Retry-After header asks (default: true).
+ * @property maxRetryAfter - Give up instead of waiting when Retry-After exceeds this many milliseconds (default: 60000).
+ */
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: boolean;
+  retryOnStatus?: number[];
+  retryOnNetworkError?: boolean;
+  retryNonIdempotent?: boolean;
+  respectRetryAfter?: boolean;
+  maxRetryAfter?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 250,
+  maxDelay: 10000,
+  jitter: true,
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+  respectRetryAfter: true,
+  maxRetryAfter: 60000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Merge retry options with the default policy.
+ *
+ * @param options - Partial retry options.
+ * @returns The complete retry policy.
+ */
+export function resolveRetryPolicy(options: RetryOptions = {}): Required<RetryOptions> {
+  return { ...DEFAULT_RETRY_POLICY, ...options };
+}
+
+/**
+ * Check whether a request may be retried under the given policy.
+ *
+ * @param policy - The retry policy.
+ * @param method - The HTTP method of the request (defaults to GET).
+ * @param idempotent - Explicitly mark the request as safe to repeat, regardless of its method.
+ * @returns True if the request may be sent more than once.
+ */
+export function isRetryableRequest(policy: Required<RetryOptions>, method: string = 'GET', idempotent?: boolean): boolean {
+  if (policy.retryNonIdempotent || idempotent) {
+    return true;
+  }
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Parse a Retry-After header value.
+ *
+ * @param value - Header value, either delay-seconds or an HTTP date.
+ * @param now - Current time in epoch milliseconds.
+ * @returns The delay in milliseconds or undefined if absent or invalid.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim(), 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the exponential backoff delay for an attempt.
+ *
+ * @param policy - The retry policy.
+ * @param attempt - The attempt that just failed, starting at 1.
+ * @returns The delay in milliseconds.
+ */
+export function backoffDelay(policy: Required<RetryOptions>, attempt: number): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Wait for the given number of milliseconds.
+ *
+ * @param ms - Delay in milliseconds.
+ * @returns A promise resolving after the delay.
+ */
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
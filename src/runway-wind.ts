@@ -0,0 +1,336 @@
+import { normalizeICAO, type Aerodrome, type ICAO, type Metar, type MetarStation, type Runway } from "flight-planner";
+import { type AerodromeProvider } from "./aerodrome.js";
+import { type MetarStationProvider } from "./aviationweather.js";
+
+export const RUNWAY_WIND_CONFIG = {
+  CROSSWIND_LIMIT_KT: 15,
+  TAILWIND_LIMIT_KT: 5,
+  VARIABLE_STEP_DEG: 5, // Resolution when scanning a variable wind direction range
+} as const;
+
+type Wind = Metar['wind'];
+
+/**
+ * Options for the runway wind analysis.
+ *
+ * @property crosswindLimit - Maximum crosswind component in knots, gusts included (default: 15).
+ * @property tailwindLimit - Maximum tailwind component in knots, gusts included (default: 5).
+ * @property headingReference - Whether runway headings are true or magnetic. OpenAIP runways use true headings (default: 'true').
+ */
+export interface RunwayWindOptions {
+  crosswindLimit?: number;
+  tailwindLimit?: number;
+  headingReference?: 'true' | 'magnetic';
+}
+
+/**
+ * Wind components relative to a runway end, in knots.
+ *
+ * @property headwind - Headwind component, zero if the wind is from behind.
+ * @property tailwind - Tailwind component, zero if the wind is from ahead.
+ * @property crosswind - Crosswind component, always positive.
+ * @property crosswindFrom - Side the crosswind blows from, undefined without crosswind or for variable winds.
+ */
+export interface WindComponents {
+  headwind: number;
+  tailwind: number;
+  crosswind: number;
+  crosswindFrom?: 'left' | 'right';
+}
+
+/**
+ * Wind analysis for a single runway end.
+ *
+ * @property designator - The runway end designator (e.g. "24L").
+ * @property trueHeading - Runway heading in degrees true.
+ * @property magneticHeading - Runway heading in degrees magnetic, if the declination is known.
+ * @property steady - Components of the mean wind.
+ * @property gust - Components of the gust, if gusts are reported.
+ * @property withinLimits - Whether crosswind and tailwind, gusts included, are within the limits.
+ * @property derived - Whether this end was derived as the reciprocal of a published runway end.
+ * @property runway - The runway this end belongs to.
+ */
+export interface RunwayEndWind {
+  designator: string;
+  trueHeading: number;
+  magneticHeading?: number;
+  steady: WindComponents;
+  gust?: WindComponents;
+  withinLimits: boolean;
+  derived: boolean;
+  runway: Runway;
+}
+
+/**
+ * Runway wind advisory for an aerodrome.
+ *
+ * @property aerodrome - The aerodrome.
+ * @property station - The METAR station the wind was taken from.
+ * @property wind - The reported wind, direction in degrees true.
+ * @property crosswindLimit - The crosswind limit applied, in knots.
+ * @property tailwindLimit - The tailwind limit applied, in knots.
+ * @property runways - All runway ends, most suitable first.
+ * @property preferred - The most suitable runway end within limits, if any.
+ */
+export interface RunwayWindAdvisory {
+  aerodrome: Aerodrome;
+  station: MetarStation;
+  wind: Wind;
+  crosswindLimit: number;
+  tailwindLimit: number;
+  runways: RunwayEndWind[];
+  preferred?: RunwayEndWind;
+}
+
+/** Sources used to look up the aerodrome and METAR by ICAO code */
+export interface RunwayWindSources {
+  aerodromes: Pick<AerodromeProvider, 'getByIcao'>;
+  metar: Pick<MetarStationProvider, 'getByIcao'>;
+}
+
+export interface RunwayWindProvider {
+  getByIcao(icao: ICAO): Promise<RunwayWindAdvisory | undefined>;
+  analyze(aerodrome: Aerodrome, station: MetarStation): RunwayWindAdvisory;
+}
+
+/**
+ * Normalize an angle to the range [0, 360).
+ */
+function normalizeHeading(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Round a wind component to one decimal, avoiding negative zero.
+ */
+function roundComponent(value: number): number {
+  return Math.round(value * 10) / 10 + 0;
+}
+
+/**
+ * Compute wind components for a single wind direction.
+ *
+ * @param heading - Runway heading in degrees true.
+ * @param direction - Wind direction in degrees true.
+ * @param speed - Wind speed in knots.
+ * @returns Signed headwind (negative is tailwind) and crosswind (positive from the right).
+ */
+function componentsFor(heading: number, direction: number, speed: number): { headwind: number; crosswind: number } {
+  const angle = (direction - heading) * Math.PI / 180;
+  return {
+    headwind: speed * Math.cos(angle),
+    crosswind: speed * Math.sin(angle),
+  };
+}
+
+/**
+ * Compute the worst-case wind components for a runway heading.
+ *
+ * A variable wind without direction is treated as a full tailwind and full crosswind.
+ * A direction range is scanned for the lowest headwind and the strongest crosswind.
+ *
+ * @param heading - Runway heading in degrees true.
+ * @param wind - The wind.
+ * @param speed - The wind speed to use, mean or gust, in knots.
+ * @returns The wind components.
+ */
+function windComponents(heading: number, wind: Wind, speed: number): WindComponents {
+  if (speed <= 0) {
+    return { headwind: 0, tailwind: 0, crosswind: 0 };
+  }
+  if (wind.direction === undefined) {
+    return { headwind: 0, tailwind: roundComponent(speed), crosswind: roundComponent(speed) };
+  }
+
+  const directions = [wind.direction];
+  if (wind.directionMin !== undefined && wind.directionMax !== undefined) {
+    const span = normalizeHeading(wind.directionMax - wind.directionMin);
+    for (let offset = 0; offset < span; offset += RUNWAY_WIND_CONFIG.VARIABLE_STEP_DEG) {
+      directions.push(wind.directionMin + offset);
+    }
+    directions.push(wind.directionMax);
+  }
+
+  const samples = directions.map((direction) => componentsFor(heading, direction, speed));
+  const headwind = Math.min(...samples.map((sample) => sample.headwind));
+  const crosswind = samples.reduce((worst, sample) => Math.abs(sample.crosswind) > Math.abs(worst) ? sample.crosswind : worst, 0);
+
+  const rounded = roundComponent(Math.abs(crosswind));
+  return {
+    headwind: roundComponent(Math.max(headwind, 0)),
+    tailwind: roundComponent(Math.max(-headwind, 0)),
+    crosswind: rounded,
+    crosswindFrom: rounded > 0 ? (crosswind > 0 ? 'right' : 'left') : undefined,
+  };
+}
+
+/**
+ * Derive the designator of the opposite runway end.
+ *
+ * @param designator - The runway end designator (e.g. "06L").
+ * @returns The reciprocal designator (e.g. "24R"), or undefined if the designator is not numeric.
+ */
+export function reciprocalDesignator(designator: string): string | undefined {
+  const match = designator.trim().toUpperCase().match(/^(\d{1,2})([LCR]?)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const number = ((parseInt(match[1], 10) + 17) % 36) + 1;
+  const side = { L: 'R', R: 'L', C: 'C' }[match[2]] ?? '';
+  return `${String(number).padStart(2, '0')}${side}`;
+}
+
+/**
+ * Expand the runways of an aerodrome to individual runway ends with true headings.
+ *
+ * Runways published as "06/24" are split, and the reciprocal end is derived
+ * for runways that only publish one end.
+ *
+ * @param runways - The runways.
+ * @param declination - Magnetic variation in degrees, east positive.
+ * @param headingReference - Whether the runway headings are true or magnetic.
+ * @returns The runway ends.
+ */
+function runwayEnds(
+  runways: Runway[],
+  declination: number,
+  headingReference: 'true' | 'magnetic'
+): Array<{ designator: string; trueHeading: number; derived: boolean; runway: Runway }> {
+  const ends: Array<{ designator: string; trueHeading: number; derived: boolean; runway: Runway }> = [];
+
+  for (const runway of runways) {
+    const designators = runway.designator.split('/').map((designator) => designator.trim().toUpperCase()).filter(Boolean);
+    const heading = Number.isFinite(runway.heading)
+      ? (headingReference === 'magnetic' ? runway.heading + declination : runway.heading)
+      : undefined;
+
+    designators.forEach((designator, index) => {
+      let trueHeading: number;
+      if (heading !== undefined) {
+        trueHeading = heading + index * 180;
+      } else {
+        // Without a heading, the designator gives the magnetic heading to the nearest 10 degrees
+        const number = parseInt(designator, 10);
+        if (isNaN(number)) {
+          return;
+        }
+        trueHeading = number * 10 + declination;
+      }
+      ends.push({ designator, trueHeading: normalizeHeading(trueHeading), derived: false, runway });
+    });
+  }
+
+  const published = new Set(ends.map((end) => end.designator));
+  for (const end of [...ends]) {
+    const reciprocal = reciprocalDesignator(end.designator);
+    if (reciprocal && !published.has(reciprocal)) {
+      published.add(reciprocal);
+      ends.push({ designator: reciprocal, trueHeading: normalizeHeading(end.trueHeading + 180), derived: true, runway: end.runway });
+    }
+  }
+
+  return ends;
+}
+
+/**
+ * Analyze the wind for every runway end of an aerodrome.
+ *
+ * METAR wind directions are relative to true north, so components are computed
+ * against true runway headings. Magnetic headings are derived using the aerodrome declination.
+ *
+ * @param aerodrome - The aerodrome with its runways.
+ * @param station - The METAR station reporting the wind.
+ * @param options - Crosswind and tailwind limits and the runway heading reference.
+ * @returns The runway wind advisory, runway ends ranked most suitable first.
+ */
+export function analyzeRunwayWind(aerodrome: Aerodrome, station: MetarStation, options: RunwayWindOptions = {}): RunwayWindAdvisory {
+  const {
+    crosswindLimit = RUNWAY_WIND_CONFIG.CROSSWIND_LIMIT_KT,
+    tailwindLimit = RUNWAY_WIND_CONFIG.TAILWIND_LIMIT_KT,
+    headingReference = 'true',
+  } = options;
+
+  const wind = station.metar.wind;
+  const declination = aerodrome.declination ?? 0;
+  const hasGust = wind.gust !== undefined && wind.gust > wind.speed;
+
+  const runways = runwayEnds(aerodrome.runways ?? [], declination, headingReference).map((end): RunwayEndWind => {
+    const steady = windComponents(end.trueHeading, wind, wind.speed);
+    const gust = hasGust ? windComponents(end.trueHeading, wind, wind.gust!) : undefined;
+    const worst = gust ?? steady;
+
+    return {
+      designator: end.designator,
+      trueHeading: Math.round(end.trueHeading),
+      magneticHeading: aerodrome.declination !== undefined ? Math.round(normalizeHeading(end.trueHeading - declination)) : undefined,
+      steady,
+      gust,
+      withinLimits: worst.crosswind <= crosswindLimit && worst.tailwind <= tailwindLimit,
+      derived: end.derived,
+      runway: end.runway,
+    };
+  });
+
+  runways.sort((a, b) => {
+    if (a.withinLimits !== b.withinLimits) {
+      return a.withinLimits ? -1 : 1;
+    }
+    const headwind = (b.steady.headwind - b.steady.tailwind) - (a.steady.headwind - a.steady.tailwind);
+    return headwind !== 0 ? headwind : a.steady.crosswind - b.steady.crosswind;
+  });
+
+  return {
+    aerodrome,
+    station,
+    wind,
+    crosswindLimit,
+    tailwindLimit,
+    runways,
+    preferred: runways.find((runway) => runway.withinLimits),
+  };
+}
+
+/**
+ * Get the runway wind advisory for an aerodrome by ICAO code.
+ *
+ * The aerodrome and its METAR are fetched in parallel.
+ *
+ * @param icao - ICAO code of the aerodrome.
+ * @param sources - Providers for the aerodrome and the METAR.
+ * @param options - Crosswind and tailwind limits and the runway heading reference.
+ * @returns Promise resolving to the advisory, or undefined if the aerodrome or its METAR is not found.
+ */
+export async function getRunwayWindByIcao(
+  icao: ICAO,
+  sources: RunwayWindSources,
+  options: RunwayWindOptions = {}
+): Promise<RunwayWindAdvisory | undefined> {
+  const code = normalizeICAO(icao);
+  const [aerodromes, stations] = await Promise.all([
+    sources.aerodromes.getByIcao(code),
+    sources.metar.getByIcao([code]),
+  ]);
+
+  const aerodrome = aerodromes[0];
+  const station = stations.find((candidate) => candidate.station === code);
+  if (!aerodrome || !station) {
+    return undefined;
+  }
+
+  return analyzeRunwayWind(aerodrome, station, options);
+}
+
+/**
+ * Runway wind advisory provider.
+ *
+ * @param sources - Providers for aerodromes and METARs.
+ * @param options - Crosswind and tailwind limits and the runway heading reference.
+ * @returns An object with methods to analyze the runway wind by ICAO code or for a given aerodrome and METAR.
+ */
+export default function runwayWindProvider(sources: RunwayWindSources, options: RunwayWindOptions = {}): RunwayWindProvider {
+  return {
+    getByIcao: (icao: ICAO) => getRunwayWindByIcao(icao, sources, options),
+    analyze: (aerodrome: Aerodrome, station: MetarStation) => analyzeRunwayWind(aerodrome, station, options),
+  };
+}
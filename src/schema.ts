@@ -0,0 +1,268 @@
+import { SchemaValidationError } from "./error.js";
+
+/**
+ * A problem found while validating a record.
+ *
+ * @property path - Path of the offending field within the record, e.g. "runways[0].designator".
+ * @property message - What is wrong with the field.
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * A record skipped in lenient mode.
+ *
+ * @property service - The upstream service, e.g. "OpenAIP".
+ * @property endpoint - The requested URL.
+ * @property index - Position of the record in the response.
+ * @property issues - Why the record was skipped.
+ * @property record - The record as received.
+ */
+export interface SchemaWarning {
+  service: string;
+  endpoint: string;
+  index: number;
+  issues: SchemaIssue[];
+  record: unknown;
+}
+
+/**
+ * How invalid upstream records are handled.
+ *
+ * - `strict` fails the whole request with a SchemaValidationError.
+ * - `lenient` skips invalid records and reports them as warnings.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * Validation options accepted by providers.
+ *
+ * @property validation - How invalid upstream records are handled (default: lenient).
+ * @property onWarning - Called for every record skipped in lenient mode.
+ */
+export interface ValidationOptions {
+  validation?: ValidationMode;
+  onWarning?: (warning: SchemaWarning) => void;
+}
+
+/**
+ * Records of a response, with the records skipped in lenient mode.
+ *
+ * @property warnings - The skipped records, absent when every record was valid.
+ */
+export type ValidatedResult<T> = T[] & { warnings?: SchemaWarning[] };
+
+/**
+ * Declared shape of an upstream record.
+ */
+export interface Schema<T> {
+  /** Type carried by the schema, never set at runtime */
+  readonly type?: T;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+}
+
+/** The type described by a schema */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+const describe = (value: unknown): string => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const join = (path: string, key: string): string => path ? `${path}.${key}` : key;
+
+/**
+ * Schema builders.
+ */
+export const schema = {
+  /** A string, optionally required to be non-empty after trimming */
+  string: (options: { nonEmpty?: boolean } = {}): Schema<string> => ({
+    check: (value, path, issues): void => {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `Expected string, received ${describe(value)}` });
+      } else if (options.nonEmpty && !value.trim()) {
+        issues.push({ path, message: 'Expected non-empty string' });
+      }
+    },
+  }),
+
+  /** A finite number, optionally within bounds */
+  number: (options: { min?: number; max?: number } = {}): Schema<number> => ({
+    check: (value, path, issues): void => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `Expected finite number, received ${describe(value)}` });
+      } else if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+        issues.push({ path, message: `Expected number between ${options.min ?? '-Infinity'} and ${options.max ?? 'Infinity'}, received ${value}` });
+      }
+    },
+  }),
+
+  boolean: (): Schema<boolean> => ({
+    check: (value, path, issues): void => {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `Expected boolean, received ${describe(value)}` });
+      }
+    },
+  }),
+
+  /** Any value, left to the transform */
+  unknown: (): Schema<unknown> => ({
+    check: (): void => undefined,
+  }),
+
+  /** A [longitude, latitude] position */
+  position: (): Schema<[number, number]> => ({
+    check: (value, path, issues): void => {
+      if (!Array.isArray(value) || value.length < 2) {
+        issues.push({ path, message: `Expected [longitude, latitude], received ${describe(value)}` });
+        return;
+      }
+      schema.number({ min: -180, max: 180 }).check(value[0], `${path}[0]`, issues);
+      schema.number({ min: -90, max: 90 }).check(value[1], `${path}[1]`, issues);
+    },
+  }),
+
+  /** A value that may be missing or null */
+  optional: <T>(item: Schema<T>): Schema<T | undefined> => ({
+    check: (value, path, issues): void => {
+      if (value !== undefined && value !== null) {
+        item.check(value, path, issues);
+      }
+    },
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    check: (value, path, issues): void => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected array, received ${describe(value)}` });
+        return;
+      }
+      value.forEach((element, index) => item.check(element, `${path}[${index}]`, issues));
+    },
+  }),
+
+  /** An object with at least the given fields, other fields are ignored */
+  object: <S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+    check: (value, path, issues): void => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `Expected object, received ${describe(value)}` });
+        return;
+      }
+      for (const [key, field] of Object.entries(shape)) {
+        field.check((value as Record<string, unknown>)[key], join(path, key), issues);
+      }
+    },
+  }),
+
+  /** A value matching any of the schemas */
+  union: <T extends Schema<unknown>[]>(...members: T): Schema<Infer<T[number]>> => ({
+    check: (value, path, issues): void => {
+      const results = members.map((member) => {
+        const memberIssues: SchemaIssue[] = [];
+        member.check(value, path, memberIssues);
+        return memberIssues;
+      });
+      if (results.every((memberIssues) => memberIssues.length > 0)) {
+        issues.push(...results[0]);
+      }
+    },
+  }),
+
+  /** A schema with an additional check, returning a message if the value is invalid */
+  refine: <T>(base: Schema<T>, refinement: (value: T) => string | undefined): Schema<T> => ({
+    check: (value, path, issues): void => {
+      const count = issues.length;
+      base.check(value, path, issues);
+      const message = issues.length === count ? refinement(value as T) : undefined;
+      if (message) {
+        issues.push({ path, message });
+      }
+    },
+  }),
+};
+
+/**
+ * Context of a validation, used in errors and warnings.
+ *
+ * @property service - The upstream service.
+ * @property endpoint - The requested URL.
+ * @property requestOptions - The request options.
+ * @property options - The validation options of the provider.
+ */
+export interface ValidationContext {
+  service: string;
+  endpoint: string;
+  requestOptions?: RequestInit & { timeout?: number; cf?: object };
+  options: ValidationOptions;
+}
+
+/**
+ * Validate the records of a response and transform the valid ones.
+ *
+ * A record is invalid when it does not match the schema, or when the transform throws,
+ * for instance because a METAR cannot be decoded.
+ *
+ * @param records - The records as received.
+ * @param recordSchema - The declared schema of a record.
+ * @param transform - Maps a valid record to the result.
+ * @param context - The service, endpoint and validation options.
+ * @returns The transformed valid records.
+ * @throws {SchemaValidationError} In strict mode, for the first invalid record.
+ */
+export function validateRecords<T, R>(
+  records: unknown[],
+  recordSchema: Schema<T>,
+  transform: (record: T) => R,
+  context: ValidationContext
+): R[] {
+  const { service, endpoint, requestOptions, options } = context;
+  const results: R[] = [];
+
+  records.forEach((record, index) => {
+    const issues: SchemaIssue[] = [];
+    recordSchema.check(record, '', issues);
+    if (issues.length === 0) {
+      try {
+        results.push(transform(record as T));
+        return;
+      } catch (error) {
+        issues.push({ path: '', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (options.validation === 'strict') {
+      throw new SchemaValidationError(service, endpoint, requestOptions, index, issues);
+    }
+    options.onWarning?.({ service, endpoint, index, issues, record });
+  });
+
+  return results;
+}
+
+/**
+ * Run a query and attach the warnings reported while it ran to its result.
+ *
+ * Warnings are still passed on to the onWarning callback of the options.
+ *
+ * @param options - The provider options.
+ * @param query - Runs the query with the options to use.
+ * @returns The result of the query, with the warnings if there were any.
+ */
+export async function withWarnings<T, O extends ValidationOptions>(
+  options: O,
+  query: (options: O) => Promise<T[]>
+): Promise<ValidatedResult<T>> {
+  const warnings: SchemaWarning[] = [];
+  const result: ValidatedResult<T> = await query({
+    ...options,
+    onWarning: (warning: SchemaWarning) => {
+      warnings.push(warning);
+      options.onWarning?.(warning);
+    },
+  });
+  if (warnings.length > 0) {
+    result.warnings = warnings;
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+import { distance } from "@turf/turf";
+
+export const SPATIAL_INDEX_CONFIG = {
+  CELL_SIZE: 1, // Grid cell size in degrees
+  KM_PER_DEGREE: 111.32, // Kilometers per degree of latitude
+  MAX_DISTANCE_KM: 20_038, // Half the circumference of the Earth
+  NEAREST_START_KM: 50, // Initial search radius of nearest queries, doubled until enough items are found
+} as const;
+
+/**
+ * An item found by a spatial query.
+ *
+ * @property item - The indexed item.
+ * @property distance - Great circle distance from the query location in kilometers.
+ */
+export interface SpatialMatch<T> {
+  item: T;
+  distance: number;
+}
+
+/**
+ * In-memory spatial index for radius and nearest queries.
+ */
+export interface SpatialIndex<T> {
+  readonly size: number;
+  /** Items within a radius in kilometers, nearest first */
+  withinRadius(location: GeoJSON.Position, radiusKm: number): SpatialMatch<T>[];
+  /** Items within a bounding box [west, south, east, north], in insertion order */
+  withinBbox(bbox: GeoJSON.BBox): T[];
+  /** The nearest items, nearest first, optionally within a maximum distance in kilometers */
+  nearest(location: GeoJSON.Position, count?: number, maxDistanceKm?: number): SpatialMatch<T>[];
+}
+
+const ROWS = Math.ceil(180 / SPATIAL_INDEX_CONFIG.CELL_SIZE);
+const COLUMNS = Math.ceil(360 / SPATIAL_INDEX_CONFIG.CELL_SIZE);
+
+const rowOf = (latitude: number): number => Math.min(ROWS - 1, Math.max(0, Math.floor((latitude + 90) / SPATIAL_INDEX_CONFIG.CELL_SIZE)));
+const columnOf = (longitude: number): number => ((Math.floor((longitude + 180) / SPATIAL_INDEX_CONFIG.CELL_SIZE) % COLUMNS) + COLUMNS) % COLUMNS;
+
+/**
+ * Create a spatial index on a fixed grid of latitude and longitude cells.
+ *
+ * @param items - The items to index.
+ * @param position - Returns the [longitude, latitude] of an item.
+ * @returns The spatial index.
+ */
+export function createSpatialIndex<T>(items: T[], position: (item: T) => GeoJSON.Position): SpatialIndex<T> {
+  const cells = new Map<number, Array<{ item: T; order: number }>>();
+  items.forEach((item, order) => {
+    const [longitude, latitude] = position(item);
+    const cell = rowOf(latitude) * COLUMNS + columnOf(longitude);
+    const entries = cells.get(cell) ?? [];
+    entries.push({ item, order });
+    cells.set(cell, entries);
+  });
+
+  const withinRadius = (location: GeoJSON.Position, radiusKm: number): SpatialMatch<T>[] => {
+    const [longitude, latitude] = location;
+    const deltaLatitude = radiusKm / SPATIAL_INDEX_CONFIG.KM_PER_DEGREE;
+    const south = latitude - deltaLatitude;
+    const north = latitude + deltaLatitude;
+
+    // Near the poles, or for large radii, every longitude is in reach
+    const cosine = Math.cos(Math.min(90, Math.max(Math.abs(south), Math.abs(north))) * Math.PI / 180);
+    const deltaLongitude = cosine > 0 ? deltaLatitude / cosine : Infinity;
+    const everyLongitude = deltaLongitude >= 180;
+    const first = everyLongitude ? 0 : columnOf(longitude - deltaLongitude);
+    const count = everyLongitude ? COLUMNS : (columnOf(longitude + deltaLongitude) - first + COLUMNS) % COLUMNS + 1;
+    const columns = Array.from({ length: count }, (_, offset) => (first + offset) % COLUMNS);
+
+    const matches: SpatialMatch<T>[] = [];
+    for (let row = rowOf(south); row <= rowOf(north); row++) {
+      for (const column of columns) {
+        for (const { item } of cells.get(row * COLUMNS + column) ?? []) {
+          const itemDistance = distance([longitude, latitude], position(item), { units: 'kilometers' });
+          if (itemDistance <= radiusKm) {
+            matches.push({ item, distance: itemDistance });
+          }
+        }
+      }
+    }
+    return matches.sort((a, b) => a.distance - b.distance);
+  };
+
+  const withinBbox = (bbox: GeoJSON.BBox): T[] => {
+    const [west, south, east, north] = bbox;
+    const crossesAntimeridian = west > east;
+    const firstColumn = columnOf(west);
+    const columnCount = west <= east && east - west >= 360 ? COLUMNS : (columnOf(east) - firstColumn + COLUMNS) % COLUMNS + 1;
+
+    const matches: Array<{ item: T; order: number }> = [];
+    for (let row = rowOf(south); row <= rowOf(north); row++) {
+      for (let offset = 0; offset < columnCount; offset++) {
+        for (const entry of cells.get(row * COLUMNS + (firstColumn + offset) % COLUMNS) ?? []) {
+          const [longitude, latitude] = position(entry.item);
+          const inLongitude = crossesAntimeridian ? longitude >= west || longitude <= east : longitude >= west && longitude <= east;
+          if (inLongitude && latitude >= south && latitude <= north) {
+            matches.push(entry);
+          }
+        }
+      }
+    }
+    return matches.sort((a, b) => a.order - b.order).map(({ item }) => item);
+  };
+
+  const nearest = (location: GeoJSON.Position, count: number = 1, maxDistanceKm: number = Infinity): SpatialMatch<T>[] => {
+    const limit = Math.min(maxDistanceKm, SPATIAL_INDEX_CONFIG.MAX_DISTANCE_KM);
+    // Everything within the radius is found, so once enough items are in reach they are the nearest
+    for (let radius = Math.min(SPATIAL_INDEX_CONFIG.NEAREST_START_KM, limit); ; radius = Math.min(radius * 2, limit)) {
+      const matches = withinRadius(location, radius);
+      if (matches.length >= count || radius >= limit) {
+        return matches.slice(0, count);
+      }
+    }
+  };
+
+  return {
+    size: items.length,
+    withinRadius,
+    withinBbox,
+    nearest,
+  };
+}
@@ -0,0 +1,455 @@
+import { normalizeICAO, type ICAO, type Metar, type MetarStation } from "flight-planner";
+
+const KMH_TO_KNOTS = 0.539957;
+const MPS_TO_KNOTS = 1.943844;
+const STATUTE_MILES_TO_METERS = 1609.344;
+const MAX_VISIBILITY_METERS = 10000;
+
+export type TafWind = Metar['wind'];
+export type TafWeather = NonNullable<Metar['weatherPhenomena']>[number];
+
+/**
+ * Represents a cloud layer in a TAF.
+ *
+ * @property quantity - The cloud coverage, 'VV' for vertical visibility into an obscured sky.
+ * @property height - The height of the layer in feet above ground level.
+ * @property type - Convective cloud type, if reported.
+ */
+export interface TafCloud {
+  quantity: NonNullable<Metar['clouds']>[number]['quantity'] | 'VV';
+  height?: number;
+  type?: 'CB' | 'TCU';
+}
+
+/**
+ * Forecast conditions of a TAF group. Fields not forecast in the group are undefined.
+ *
+ * @property wind - Wind with speeds in knots.
+ * @property visibility - Prevailing visibility in meters, 10000 meaning 10 km or more.
+ * @property cavok - Ceiling and visibility OK.
+ * @property weather - Forecast weather phenomena.
+ * @property nsw - No significant weather, ends previously forecast phenomena.
+ * @property clouds - Forecast cloud layers.
+ */
+export interface TafConditions {
+  wind?: TafWind;
+  visibility?: number;
+  cavok?: boolean;
+  weather?: TafWeather[];
+  nsw?: boolean;
+  clouds?: TafCloud[];
+}
+
+/**
+ * Enumeration of TAF change group indicators.
+ */
+export enum TafChangeType {
+  FM = 'FM',
+  BECMG = 'BECMG',
+  TEMPO = 'TEMPO',
+  PROB = 'PROB',
+}
+
+/**
+ * Represents a TAF change group.
+ *
+ * @property type - The change indicator. PROBxx TEMPO groups have type TEMPO with a probability.
+ * @property probability - Probability in percent for PROBxx groups.
+ * @property validFrom - Start of the group period.
+ * @property validTo - End of the group period. FM groups last until the next FM group or the end of the TAF.
+ * @property raw - The raw text of the group.
+ */
+export interface TafChangeGroup extends TafConditions {
+  type: TafChangeType;
+  probability?: number;
+  validFrom: Date;
+  validTo: Date;
+  raw: string;
+}
+
+/**
+ * Represents a decoded TAF (Terminal Aerodrome Forecast).
+ *
+ * @property station - The ICAO identifier of the station.
+ * @property raw - The raw TAF text.
+ * @property issued - When the forecast was issued.
+ * @property validFrom - Start of the validity period.
+ * @property validTo - End of the validity period.
+ * @property amended - Whether this is an amended forecast.
+ * @property corrected - Whether this is a corrected forecast.
+ * @property cancelled - Whether the forecast has been cancelled.
+ * @property base - Conditions of the base forecast group.
+ * @property changes - Change groups in order of appearance.
+ */
+export interface Taf {
+  station: ICAO;
+  raw: string;
+  issued: Date;
+  validFrom: Date;
+  validTo: Date;
+  amended?: boolean;
+  corrected?: boolean;
+  cancelled?: boolean;
+  base: TafConditions;
+  changes: TafChangeGroup[];
+}
+
+/**
+ * Conditions expected at a given time.
+ *
+ * @property prevailing - Prevailing conditions after applying the base, FM and BECMG groups.
+ * @property temporary - TEMPO and PROBxx groups in effect, as well as BECMG groups still in transition.
+ */
+export interface TafForecast {
+  prevailing: TafConditions;
+  temporary: TafChangeGroup[];
+}
+
+/**
+ * Represents a METAR station with its decoded TAF, if available.
+ */
+export interface MetarStationWithTaf extends MetarStation {
+  taf?: Taf;
+}
+
+/**
+ * Resolve a TAF day and time to a Date, picking the month closest to the reference date.
+ *
+ * @param day - Day of month.
+ * @param hour - Hour (24 is accepted as midnight at the end of the day).
+ * @param minute - Minute.
+ * @param reference - Reference date near the forecast.
+ * @returns The resolved Date in UTC, or undefined if the day exists in none of the months around the reference.
+ */
+function resolveDate(day: number, hour: number, minute: number, reference: Date): Date | undefined {
+  const year = reference.getUTCFullYear();
+  const month = reference.getUTCMonth();
+
+  const candidates = [month - 1, month, month + 1]
+    .map((m) => new Date(Date.UTC(year, m, day, hour, minute)))
+    .filter((date) => hour === 24 || date.getUTCDate() === day); // Drop days that do not exist in the month
+
+  return candidates.reduce<Date | undefined>((best, date) =>
+    !best || Math.abs(date.getTime() - reference.getTime()) < Math.abs(best.getTime() - reference.getTime()) ? date : best
+  , undefined);
+}
+
+/**
+ * Parse a DDHH/DDHH period, undefined if the token is not a period or names a day that does not exist.
+ */
+function parsePeriod(token: string, reference: Date): [Date, Date] | undefined {
+  const match = token.match(/^(\d{2})(\d{2})\/(\d{2})(\d{2})$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, fromDay, fromHour, toDay, toHour] = match.map(Number);
+  const from = resolveDate(fromDay, fromHour, 0, reference);
+  const to = from && resolveDate(toDay, toHour, 0, from);
+  if (!from || !to) {
+    return undefined;
+  }
+  return [from, to < from ? new Date(to.getTime() + 24 * 3600 * 1000) : to];
+}
+
+/**
+ * Parse a fractional statute mile visibility like "1/2" or "1 1/2".
+ */
+function parseStatuteMiles(value: string): number {
+  return value.split(' ').reduce((total, part) => {
+    const [numerator, denominator] = part.split('/').map(Number);
+    return total + (denominator ? numerator / denominator : numerator);
+  }, 0);
+}
+
+/**
+ * Parse a single condition token into the conditions object.
+ *
+ * @returns True if the token was recognised.
+ */
+function parseConditionToken(token: string, conditions: TafConditions): boolean {
+  const wind = token.match(/^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/);
+  if (wind) {
+    const factor = wind[4] === 'MPS' ? MPS_TO_KNOTS : wind[4] === 'KMH' ? KMH_TO_KNOTS : 1;
+    conditions.wind = {
+      direction: wind[1] === 'VRB' ? undefined : parseInt(wind[1], 10),
+      speed: Math.round(parseInt(wind[2], 10) * factor),
+      gust: wind[3] ? Math.round(parseInt(wind[3], 10) * factor) : undefined,
+    };
+    return true;
+  }
+
+  if (token === 'CAVOK') {
+    conditions.cavok = true;
+    conditions.visibility = MAX_VISIBILITY_METERS;
+    return true;
+  }
+
+  if (/^\d{4}$/.test(token)) {
+    conditions.visibility = Math.min(parseInt(token, 10), MAX_VISIBILITY_METERS);
+    if (token === '9999') {
+      conditions.visibility = MAX_VISIBILITY_METERS;
+    }
+    return true;
+  }
+
+  const miles = token.match(/^(P)?(\d+(?: \d+\/\d+)?|\d+\/\d+)SM$/);
+  if (miles) {
+    const meters = parseStatuteMiles(miles[2]) * STATUTE_MILES_TO_METERS;
+    conditions.visibility = miles[1] ? MAX_VISIBILITY_METERS : Math.min(Math.round(meters), MAX_VISIBILITY_METERS);
+    return true;
+  }
+
+  if (token === 'NSW') {
+    conditions.nsw = true;
+    conditions.weather = [];
+    return true;
+  }
+
+  const weather = token.match(/^(-|\+|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/);
+  if (weather && (weather[2] || weather[3])) {
+    conditions.weather = [...(conditions.weather || []), {
+      intensity: (weather[1] || '') as TafWeather['intensity'],
+      descriptor: weather[3] ? weather[2] : undefined,
+      phenomenon: weather[3] || weather[2], // Descriptor only, such as TS or VCSH
+    }];
+    return true;
+  }
+
+  if (token === 'SKC' || token === 'NSC' || token === 'CLR' || token === 'NCD') {
+    conditions.clouds = [{ quantity: token === 'NSC' || token === 'NCD' ? 'NSC' : 'SKC' }];
+    return true;
+  }
+
+  const cloud = token.match(/^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/\/\/)(CB|TCU)?$/);
+  if (cloud) {
+    conditions.clouds = [...(conditions.clouds || []), {
+      quantity: cloud[1] as TafCloud['quantity'],
+      height: cloud[2] === '///' ? undefined : parseInt(cloud[2], 10) * 100,
+      type: cloud[3] as TafCloud['type'],
+    }];
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Parse a raw TAF string into a structured forecast.
+ *
+ * Unknown groups such as temperature forecasts and wind shear are skipped.
+ *
+ * @param raw - The raw TAF text.
+ * @param reference - Reference date near the issue time, used to resolve month and year (default: now).
+ * @returns The decoded TAF or undefined if the header cannot be read.
+ */
+export function parseTaf(raw: string, reference: Date = new Date()): Taf | undefined {
+  if (!raw) {
+    return undefined;
+  }
+
+  const tokens = raw.replace(/=\s*$/, '').replace(/(\d+) (\d\/\d+SM)/g, '$1_$2').trim().split(/\s+/)
+    .map((token) => token.replace('_', ' '));
+
+  let index = 0;
+  let amended = false;
+  let corrected = false;
+
+  if (tokens[index] === 'TAF') {
+    index++;
+  }
+  while (tokens[index] === 'AMD' || tokens[index] === 'COR' || tokens[index] === 'RTD') {
+    amended = amended || tokens[index] === 'AMD';
+    corrected = corrected || tokens[index] === 'COR';
+    index++;
+  }
+
+  const station = tokens[index++];
+  if (!station || !/^[A-Z0-9]{4}$/.test(station)) {
+    return undefined;
+  }
+
+  const issueMatch = tokens[index]?.match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (!issueMatch) {
+    return undefined;
+  }
+  index++;
+  const issued = resolveDate(parseInt(issueMatch[1], 10), parseInt(issueMatch[2], 10), parseInt(issueMatch[3], 10), reference);
+  if (!issued) {
+    return undefined;
+  }
+
+  const validity = parsePeriod(tokens[index] || '', issued);
+  if (!validity) {
+    return undefined;
+  }
+  index++;
+
+  const [validFrom, validTo] = validity;
+  const taf: Taf = {
+    station: normalizeICAO(station),
+    raw,
+    issued,
+    validFrom,
+    validTo,
+    amended: amended || undefined,
+    corrected: corrected || undefined,
+    base: {},
+    changes: [],
+  };
+
+  let current: TafConditions = taf.base;
+  let groupStart = index;
+
+  const closeGroup = (end: number): void => {
+    if (current !== taf.base) {
+      (current as TafChangeGroup).raw = tokens.slice(groupStart, end).join(' ');
+    }
+  };
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+
+    if (token === 'RMK') {
+      break;
+    }
+
+    if (token === 'CNL') {
+      taf.cancelled = true;
+      index++;
+      continue;
+    }
+
+    const fm = token.match(/^FM(\d{2})(\d{2})(\d{2})$/);
+    const prob = token.match(/^PROB(\d{2})$/);
+    if (fm || token === 'BECMG' || token === 'TEMPO' || prob) {
+      closeGroup(index);
+      groupStart = index;
+
+      let group: TafChangeGroup;
+      if (fm) {
+        const from = resolveDate(parseInt(fm[1], 10), parseInt(fm[2], 10), parseInt(fm[3], 10), validFrom);
+        index++;
+        if (!from) {
+          // A group starting on a day that does not exist is dropped, its conditions are read and discarded
+          current = {};
+          continue;
+        }
+        group = { type: TafChangeType.FM, validFrom: from, validTo, raw: '' };
+      } else {
+        let type = token === 'BECMG' ? TafChangeType.BECMG : token === 'TEMPO' ? TafChangeType.TEMPO : TafChangeType.PROB;
+        const probability = prob ? parseInt(prob[1], 10) : undefined;
+        index++;
+
+        if (prob && tokens[index] === 'TEMPO') {
+          type = TafChangeType.TEMPO;
+          index++;
+        }
+
+        const period = parsePeriod(tokens[index] || '', validFrom);
+        if (period) {
+          index++;
+        } else if (/^\d{4}\/\d{4}$/.test(tokens[index] || '')) {
+          // A period naming a day that does not exist, the group is dropped
+          index++;
+          current = {};
+          continue;
+        }
+        group = { type, probability, validFrom: period?.[0] ?? validFrom, validTo: period?.[1] ?? validTo, raw: '' };
+      }
+
+      // An FM group ends where the next FM group starts
+      const previousFm = [...taf.changes].reverse().find((change) => change.type === TafChangeType.FM);
+      if (fm && previousFm && previousFm.validTo.getTime() === validTo.getTime()) {
+        previousFm.validTo = group.validFrom;
+      }
+
+      taf.changes.push(group);
+      current = group;
+      continue;
+    }
+
+    parseConditionToken(token, current);
+    index++;
+  }
+
+  closeGroup(index);
+  return taf;
+}
+
+/**
+ * Merge change group conditions over the prevailing conditions.
+ */
+function applyConditions(prevailing: TafConditions, change: TafConditions): TafConditions {
+  const merged: TafConditions = { ...prevailing };
+  if (change.wind) { merged.wind = change.wind; }
+  if (change.visibility !== undefined) { merged.visibility = change.visibility; }
+  if (change.cavok !== undefined) {
+    merged.cavok = change.cavok;
+    if (change.cavok) {
+      merged.weather = [];
+      merged.clouds = [];
+    }
+  } else if (change.visibility !== undefined || change.clouds) {
+    merged.cavok = undefined;
+  }
+  if (change.weather) { merged.weather = change.weather; }
+  if (change.nsw !== undefined) { merged.nsw = change.nsw; }
+  if (change.clouds) { merged.clouds = change.clouds; }
+  return merged;
+}
+
+/**
+ * Strip the group metadata, keeping only the forecast conditions.
+ */
+function conditionsOf(group: TafConditions): TafConditions {
+  const { wind, visibility, cavok, weather, nsw, clouds } = group;
+  return { wind, visibility, cavok, weather, nsw, clouds };
+}
+
+/**
+ * Resolve the conditions expected at a station at a given time.
+ *
+ * FM groups replace the prevailing conditions from their start time. BECMG groups
+ * apply once their transition period has ended and are listed as temporary while
+ * the change is in progress. TEMPO and PROBxx groups are listed as temporary while
+ * in effect.
+ *
+ * @param station - METAR station with a decoded TAF or a raw TAF string.
+ * @param time - The time to resolve the forecast for, such as an ETA.
+ * @returns The forecast at the given time or undefined if no TAF covers it.
+ */
+export function forecastAt(station: MetarStationWithTaf, time: Date): TafForecast | undefined {
+  const taf = station.taf ?? (station.tafRaw ? parseTaf(station.tafRaw, station.metar?.observationTime) : undefined);
+  if (!taf || taf.cancelled || time < taf.validFrom || time >= taf.validTo) {
+    return undefined;
+  }
+
+  let prevailing = conditionsOf(taf.base);
+  const temporary: TafChangeGroup[] = [];
+
+  for (const change of taf.changes) {
+    switch (change.type) {
+      case TafChangeType.FM:
+        if (time >= change.validFrom) {
+          prevailing = conditionsOf(change);
+        }
+        break;
+      case TafChangeType.BECMG:
+        if (time >= change.validTo) {
+          prevailing = applyConditions(prevailing, change);
+        } else if (time >= change.validFrom) {
+          temporary.push(change);
+        }
+        break;
+      case TafChangeType.TEMPO:
+      case TafChangeType.PROB:
+        if (time >= change.validFrom && time < change.validTo) {
+          temporary.push(change);
+        }
+        break;
+    }
+  }
+
+  return { prevailing, temporary };
+}
@@ -0,0 +1,138 @@
+import { type RequestEvent, type RequestHooks } from "./hooks.js";
+
+/** Span kinds, matching the OpenTelemetry SpanKind values */
+export const SPAN_KIND_CLIENT = 2;
+
+/** Span status codes, matching the OpenTelemetry SpanStatusCode values */
+export const SPAN_STATUS = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * The subset of an OpenTelemetry span used by the tracing hooks.
+ */
+export interface TracingSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(endTime?: number): void;
+}
+
+/**
+ * The subset of an OpenTelemetry tracer used by the tracing hooks, e.g. `trace.getTracer('byteflight')`.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes; startTime?: number }): TracingSpan;
+}
+
+/**
+ * Tracing options.
+ *
+ * @property spanName - Name of the span of a request (default: "<provider>.<operation>").
+ * @property cacheHits - Emit a span for responses served from the response cache (default: true).
+ */
+export interface TracingOptions {
+  spanName?: (event: { provider: string; operation: string }) => string;
+  cacheHits?: boolean;
+}
+
+const defaultSpanName = (event: { provider: string; operation: string }): string => `${event.provider}.${event.operation}`;
+
+/**
+ * Attributes of a request, following the OpenTelemetry HTTP semantic conventions.
+ */
+function requestAttributes(event: RequestEvent): SpanAttributes {
+  return {
+    'http.request.method': event.method,
+    'url.full': event.url,
+    'server.address': new URL(event.url).host,
+    'http.request.resend_count': event.attempt > 1 ? event.attempt - 1 : undefined,
+    'byteflight.service': event.service,
+    'byteflight.provider': event.provider,
+    'byteflight.operation': event.operation,
+  };
+}
+
+/**
+ * Create request hooks emitting OpenTelemetry-style spans.
+ *
+ * Every upstream attempt becomes a client span, ended when the response headers are received
+ * or the attempt fails. Responses with a 4xx or 5xx status, and failed attempts, set the span
+ * status to error. The tracer only needs the methods used, so @opentelemetry/api is not a
+ * dependency of this package.
+ *
+ * @param tracer - The tracer starting the spans.
+ * @param options - Optional tracing options.
+ * @returns Hooks to register globally or pass to a provider.
+ */
+export function createTracingHooks(tracer: Tracer, options: TracingOptions = {}): RequestHooks {
+  const { spanName = defaultSpanName, cacheHits = true } = options;
+  const spans = new Map<number, TracingSpan>();
+
+  return {
+    onRequest: (event): void => {
+      spans.set(event.id, tracer.startSpan(spanName(event), {
+        kind: SPAN_KIND_CLIENT,
+        attributes: requestAttributes(event),
+        startTime: event.startTime,
+      }));
+    },
+
+    onResponse: (event): void => {
+      const span = spans.get(event.id);
+      if (!span) {
+        return;
+      }
+      spans.delete(event.id);
+
+      span.setAttribute('http.response.status_code', event.status);
+      if (event.bytes !== undefined) {
+        span.setAttribute('http.response.body.size', event.bytes);
+      }
+      if (event.status >= 400) {
+        span.setAttribute('error.type', String(event.status));
+        span.setStatus({ code: SPAN_STATUS.ERROR });
+      }
+      span.end(event.startTime + event.duration);
+    },
+
+    onError: (event): void => {
+      const span = spans.get(event.id);
+      if (!span) {
+        return;
+      }
+      spans.delete(event.id);
+
+      const error = event.error instanceof Error ? event.error : new Error(String(event.error));
+      span.recordException(error);
+      span.setAttribute('error.type', error.name);
+      span.setStatus({ code: SPAN_STATUS.ERROR, message: error.message });
+      span.end(event.startTime + event.duration);
+    },
+
+    onCacheHit: (event): void => {
+      if (!cacheHits) {
+        return;
+      }
+      const span = tracer.startSpan(spanName(event), {
+        kind: SPAN_KIND_CLIENT,
+        attributes: {
+          'url.full': event.url,
+          'byteflight.service': event.service,
+          'byteflight.provider': event.provider,
+          'byteflight.operation': event.operation,
+          'byteflight.cache.hit': true,
+          'byteflight.cache.stale': event.stale,
+          'byteflight.cache.age': event.age,
+          'http.response.body.size': event.bytes,
+        },
+        startTime: event.time,
+      });
+      span.end(event.time);
+    },
+  };
+}
@@ -0,0 +1,225 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AuthenticationError, createMemoryCache, nmsNotamProvider, SchemaValidationError } from "../dist/index.js";
+
+/** Stub of the NMS token endpoint and NOTAM API */
+const stub = {
+  tokensIssued: 0,
+  tokenRequests: [],
+  notamRequests: [],
+  rejectedTokens: new Set(),
+  rejectAll: false,
+  pages: () => ({ data: { geojson: [] }, totalPages: 1 }),
+};
+
+let server;
+let baseUrl;
+
+const feature = (id, text, location = 'KJFK') => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [-73.78, 40.64] },
+  properties: {
+    coreNOTAMData: {
+      notam: {
+        id,
+        series: 'A',
+        number: id.padStart(4, '0'),
+        year: '2026',
+        type: 'N',
+        issued: '2026-01-01T00:00:00.000Z',
+        location,
+        icaoLocation: location,
+        effectiveStart: '2026-01-01T00:00:00.000Z',
+        effectiveEnd: '2026-02-01T00:00:00.000Z',
+        text,
+      },
+    },
+  },
+});
+
+const aixm = (number, text) => [
+  '<message:AIXMBasicMessage><message:hasMember><event:Event><event:timeSlice><event:EventTimeSlice>',
+  '<event:textNOTAM><event:NOTAM>',
+  `<event:series>A</event:series><event:number>${number}</event:number><event:year>2026</event:year>`,
+  '<event:type>N</event:type><event:issued>2026-01-01T00:00:00.000Z</event:issued>',
+  '<event:location>JFK</event:location><event:icaoLocation>KJFK</event:icaoLocation>',
+  '<event:effectiveStart>2026-01-01T00:00:00.000Z</event:effectiveStart>',
+  '<event:effectiveEnd>2026-02-01T00:00:00.000Z</event:effectiveEnd>',
+  `<event:text>${text}</event:text>`,
+  '</event:NOTAM></event:textNOTAM>',
+  '<gml:Point><gml:pos srsName="urn:ogc:def:crs:EPSG::4326">40.64 -73.78</gml:pos></gml:Point>',
+  '</event:EventTimeSlice></event:timeSlice></event:Event></message:hasMember></message:AIXMBasicMessage>',
+].join('');
+
+const json = (response, status, body) => {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+let clients = 0;
+
+/** Provider options with a client of its own, so tokens are not shared between tests */
+const options = (overrides = {}) => ({
+  clientId: `client-${++clients}`,
+  clientSecret: 'secret',
+  apiUrl: `${baseUrl}/nmsapi/v1/`,
+  tokenUrl: `${baseUrl}/token`,
+  ...overrides,
+});
+
+before(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url, 'http://localhost');
+    let body = '';
+    request.on('data', (chunk) => body += chunk);
+    request.on('end', () => {
+      if (url.pathname === '/token') {
+        stub.tokenRequests.push({ authorization: request.headers.authorization, body });
+        json(response, 200, { access_token: `token-${++stub.tokensIssued}`, expires_in: 3600 });
+        return;
+      }
+
+      const token = request.headers.authorization?.replace(/^Bearer /, '');
+      stub.notamRequests.push({ token, format: request.headers.nmsresponseformat, params: url.searchParams });
+      if (stub.rejectAll || stub.rejectedTokens.has(token)) {
+        json(response, 401, { error: 'invalid_token' });
+        return;
+      }
+      json(response, 200, stub.pages(url.searchParams, request.headers.nmsresponseformat));
+    });
+  });
+
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  stub.tokenRequests = [];
+  stub.notamRequests = [];
+  stub.rejectedTokens = new Set();
+  stub.rejectAll = false;
+  stub.pages = () => ({ data: { geojson: [] }, totalPages: 1 });
+});
+
+describe('nmsNotamProvider', () => {
+  it('requests a token with the client credentials and reuses it', async () => {
+    stub.pages = () => ({ data: { geojson: [feature('1', 'RWY 04L/22R CLSD')] }, totalPages: 1 });
+    const provider = nmsNotamProvider(options({ clientId: 'client', clientSecret: 'secret' }));
+
+    const notams = await provider.getByIcao('KJFK');
+    await provider.getByIcao('KJFK');
+
+    assert.equal(stub.tokenRequests.length, 1);
+    assert.equal(stub.tokenRequests[0].authorization, `Basic ${btoa('client:secret')}`);
+    assert.equal(stub.tokenRequests[0].body, 'grant_type=client_credentials');
+    assert.equal(stub.notamRequests.length, 2);
+    assert.ok(stub.notamRequests.every((request) => request.token === stub.notamRequests[0].token));
+    assert.equal(stub.notamRequests[0].params.get('location'), 'KJFK');
+
+    assert.equal(notams.length, 1);
+    assert.equal(notams[0].icao, 'KJFK');
+    assert.equal(notams[0].text, 'RUNWAY 04L/22R CLOSED');
+    assert.equal(notams[0].raw, 'RWY 04L/22R CLSD');
+    assert.equal(notams[0].decodedText.verbatim, 'RWY 04L/22R CLSD');
+    assert.equal(notams[0].warnings, undefined);
+  });
+
+  it('renews a rejected token once', async () => {
+    stub.pages = () => ({ data: { geojson: [feature('1', 'RWY 04L/22R CLSD')] }, totalPages: 1 });
+    const provider = nmsNotamProvider(options());
+    await provider.getByIcao('KJFK');
+    stub.rejectedTokens.add(stub.notamRequests[0].token);
+
+    const notams = await provider.getByIcao('KJFK');
+
+    const [rejected, , renewed] = stub.notamRequests.map((request) => request.token);
+    assert.equal(notams.length, 1);
+    assert.equal(stub.tokenRequests.length, 2);
+    assert.equal(stub.notamRequests.length, 3);
+    assert.equal(stub.notamRequests[1].token, rejected);
+    assert.notEqual(renewed, rejected);
+  });
+
+  it('fails when the renewed token is rejected too', async () => {
+    stub.rejectAll = true;
+    const provider = nmsNotamProvider(options());
+
+    await assert.rejects(provider.getByIcao('KJFK'), AuthenticationError);
+    assert.equal(stub.tokenRequests.length, 2);
+    assert.equal(stub.notamRequests.length, 2);
+  });
+
+  it('does not reuse a token issued under another secret', async () => {
+    const clientId = 'rotated-client';
+    await nmsNotamProvider(options({ clientId, clientSecret: 'old' })).getByIcao('KJFK');
+    await nmsNotamProvider(options({ clientId, clientSecret: 'new' })).getByIcao('KJFK');
+
+    assert.equal(stub.tokenRequests.length, 2);
+    assert.equal(stub.tokenRequests[1].authorization, `Basic ${btoa(`${clientId}:new`)}`);
+  });
+
+  it('keeps serving cached responses after the token is renewed', async () => {
+    stub.pages = () => ({ data: { geojson: [feature('1', 'RWY 04L/22R CLSD')] }, totalPages: 1 });
+    const cache = { store: createMemoryCache() };
+    const provider = nmsNotamProvider(options({ cache }));
+    await provider.getByIcao('KJFK');
+
+    // Another lookup has its token rejected and renewed
+    stub.rejectedTokens.add(stub.notamRequests[0].token);
+    await provider.getByIcao('KLGA');
+    const notams = await provider.getByIcao('KJFK');
+
+    assert.equal(stub.tokenRequests.length, 2);
+    assert.deepEqual(stub.notamRequests.map((request) => request.params.get('location')), ['KJFK', 'KLGA', 'KLGA']);
+    assert.equal(notams.length, 1);
+  });
+
+  it('reads AIXM messages', async () => {
+    stub.pages = () => ({ data: { aixm: [aixm('1234', 'RWY 04L/22R CLSD &amp; WIP')] }, totalPages: 1 });
+    const provider = nmsNotamProvider(options({ format: 'AIXM' }));
+
+    const notams = await provider.getByIcao('KJFK');
+
+    assert.equal(stub.notamRequests[0].format, 'AIXM');
+    assert.equal(notams.length, 1);
+    assert.equal(notams[0].id, 'A1234/26');
+    assert.equal(notams[0].icao, 'KJFK');
+    assert.equal(notams[0].raw, 'RWY 04L/22R CLSD & WIP');
+    assert.deepEqual(notams[0].schedule.effectiveFrom, new Date('2026-01-01T00:00:00.000Z'));
+    assert.deepEqual(notams[0].geometry, { type: 'Point', coordinates: [-73.78, 40.64] });
+
+    const [raw] = await provider.getRawByIcao('KJFK');
+    assert.equal(typeof raw.aixm, 'string');
+  });
+
+  it('fetches every page and returns each NOTAM once', async () => {
+    stub.pages = (params) => {
+      const page = Number(params.get('pageNum'));
+      const location = params.get('location');
+      const notams = page === 1
+        ? [feature('1', 'RWY 04L/22R CLSD'), feature('2', 'TWY A CLSD')]
+        : [feature('2', 'TWY A CLSD'), feature(location === 'KJFK' ? '3' : '4', 'APN CLSD')];
+      return { data: { geojson: notams }, totalPages: 2 };
+    };
+    const provider = nmsNotamProvider(options());
+
+    const notams = await provider.search({ type: 'location', designators: ['KJFK', 'KLGA'] });
+
+    assert.deepEqual(stub.notamRequests.map((request) => `${request.params.get('location')}:${request.params.get('pageNum')}`), ['KJFK:1', 'KJFK:2', 'KLGA:1', 'KLGA:2']);
+    assert.deepEqual(notams.map((notam) => notam.number), [1, 2, 3, 4]);
+  });
+
+  it('skips invalid records with a warning in lenient mode and fails in strict mode', async () => {
+    stub.pages = () => ({ data: { geojson: [feature('1', 'RWY 04L/22R CLSD'), { type: 'Feature', properties: {} }] }, totalPages: 1 });
+
+    const notams = await nmsNotamProvider(options()).getByIcao('KJFK');
+    assert.equal(notams.length, 1);
+    assert.equal(notams.warnings?.length, 1);
+    assert.equal(notams.warnings[0].service, 'FAA NMS');
+
+    await assert.rejects(nmsNotamProvider(options({ validation: 'strict' })).getByIcao('KJFK'), SchemaValidationError);
+  });
+});